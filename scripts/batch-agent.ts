@@ -0,0 +1,98 @@
+/**
+ * 広告文バッチ分析スクリプト
+ * CSV・JSONLの広告文をまとめて分析し、結果をJSONLに書き出す
+ *
+ * 使い方:
+ *   npx tsx scripts/batch-agent.ts campaign.csv
+ *   npx tsx scripts/batch-agent.ts campaign.jsonl --output=results/campaign.jsonl --concurrency=5
+ *   npx tsx scripts/batch-agent.ts campaign.csv --cache  # 分析結果キャッシュを使う（同じ広告文の再分析を省略）
+ *   npx tsx scripts/batch-agent.ts campaign.csv --budget=0.05  # 1件あたりのコスト上限（USD。超えた行は失敗として記録）
+ *   npx tsx scripts/batch-agent.ts campaign.csv --no-resume  # 出力ファイルを空にしてすべて分析し直す
+ *
+ * 入力形式:
+ *   CSV:   1行目はヘッダー行（id,text は必須。category,channel,audience,period_start,period_end,mode は任意）
+ *   JSONL: {"id": "ad-1", "text": "広告文", "context": {"category": "cosmetics", "channel": "sns"}}
+ *
+ * 出力ファイル（デフォルト: <入力ファイル名>.results.jsonl）は1件ごとに追記され、
+ * 中断・失敗後に同じコマンドを再実行すると、成功済みの行を飛ばして再開する
+ */
+
+import "dotenv/config";
+import { basename, dirname, extname, join } from "path";
+import {
+  loadBatchFile,
+  runBatch,
+  formatBatchSummary,
+  AnalysisCache,
+  getLLMProviderName,
+} from "../src/agent/index.js";
+
+function printUsage(): void {
+  console.error(
+    "使い方: npx tsx scripts/batch-agent.ts <input.csv|input.jsonl> [--output=<results.jsonl>] [--concurrency=<N>] [--cache] [--budget=<USD>] [--no-resume]",
+  );
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const inputPath = args.find((arg) => !arg.startsWith("--"));
+  if (!inputPath) {
+    printUsage();
+    process.exit(1);
+  }
+
+  const option = (name: string) =>
+    args.find((arg) => arg.startsWith(`--${name}=`))?.slice(name.length + 3);
+  const outputPath =
+    option("output") ??
+    join(dirname(inputPath), `${basename(inputPath, extname(inputPath))}.results.jsonl`);
+  const concurrency = option("concurrency") ? parseInt(option("concurrency") ?? "", 10) : undefined;
+  if (concurrency !== undefined && (Number.isNaN(concurrency) || concurrency < 1)) {
+    console.error("エラー: --concurrency には1以上の整数を指定してください");
+    process.exit(1);
+  }
+
+  const budget = option("budget") ? Number(option("budget")) : undefined;
+  if (budget !== undefined && !(budget > 0)) {
+    console.error("エラー: --budget には正の数を指定してください");
+    process.exit(1);
+  }
+
+  try {
+    const items = await loadBatchFile(inputPath);
+
+    console.log("=".repeat(60));
+    console.log("広告リンター バッチ分析");
+    console.log(`LLMプロバイダー: ${getLLMProviderName()}`);
+    console.log(`入力: ${inputPath}（${items.length}件）`);
+    console.log(`出力: ${outputPath}`);
+    console.log("=".repeat(60));
+    console.log("");
+
+    const summary = await runBatch(items, {
+      outputPath,
+      concurrency,
+      resume: !args.includes("--no-resume"),
+      cache: args.includes("--cache") ? new AnalysisCache() : undefined,
+      budget: budget !== undefined ? { maxCostUsd: budget } : undefined,
+      onProgress: (record, { done, total }) => {
+        const status =
+          record.status === "ok"
+            ? `✓ ${record.result.overallRisk}${record.result.cache?.hit ? "（キャッシュ）" : ""}`
+            : `✗ ${record.error}`;
+        console.log(`[${done}/${total}] ${record.id} ${status}`);
+      },
+    });
+
+    console.log("");
+    console.log(formatBatchSummary(summary));
+    if (summary.failed > 0) {
+      process.exitCode = 1;
+    }
+  } catch (error) {
+    console.error("エラー:", error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  }
+}
+
+main().catch(console.error);
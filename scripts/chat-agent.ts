@@ -0,0 +1,63 @@
+/**
+ * 分析結果に対する対話スクリプト
+ * 広告文を分析した後、レポートについての追加の質問に回答する
+ *
+ * 使い方:
+ *   npx tsx scripts/chat-agent.ts "広告文テキスト"
+ *   （レポート表示後、質問を入力。空行または exit で終了）
+ */
+
+import "dotenv/config";
+import { createInterface } from "readline/promises";
+import {
+  analyzeAd,
+  askFollowUp,
+  createConversation,
+  formatAnalysisResult,
+  formatFollowUpAnswer,
+  getLLMProviderName,
+} from "../src/agent/index.js";
+
+async function main() {
+  const adText = process.argv.slice(2).join(" ");
+
+  if (!adText) {
+    console.error('使い方: npx tsx scripts/chat-agent.ts "広告文テキスト"');
+    process.exit(1);
+  }
+
+  console.log("=".repeat(60));
+  console.log("広告リンター Agent（対話モード）");
+  console.log(`LLMプロバイダー: ${getLLMProviderName()}`);
+  console.log("=".repeat(60));
+  console.log("");
+  console.log(`入力: ${adText}`);
+  console.log("");
+
+  const rl = createInterface({ input: process.stdin, output: process.stdout });
+
+  try {
+    const result = await analyzeAd(adText);
+    console.log(formatAnalysisResult(result));
+    console.log("");
+    console.log("分析結果について質問できます（空行または exit で終了）");
+
+    const thread = createConversation(result);
+    while (true) {
+      const question = (await rl.question("\n質問> ")).trim();
+      if (question.length === 0 || question === "exit") {
+        break;
+      }
+      const answer = await askFollowUp(thread, question);
+      console.log("");
+      console.log(formatFollowUpAnswer(answer, result));
+    }
+  } catch (error) {
+    console.error("エラー:", error instanceof Error ? error.message : String(error));
+    process.exitCode = 1;
+  } finally {
+    rl.close();
+  }
+}
+
+main().catch(console.error);
@@ -1,6 +1,10 @@
 /**
  * データ取り込みスクリプト
  * 法令・Q&A・ガイドラインを取得し、ベクトルストアに格納
+ *
+ * 使い方:
+ *   npm run ingest
+ *   EMBEDDING_PROVIDER=fake npm run ingest:fixtures   # オフライン用の最小コーパスを格納（ネットワーク接続なし）
  */
 
 import "dotenv/config";
@@ -12,7 +16,14 @@ import { loadDownloadedGuidelines } from "../src/data/loaders/guideline.js";
 import { chunkLaw } from "../src/data/chunkers/law.js";
 import { chunkAllQa } from "../src/data/chunkers/qa.js";
 import { chunkGuideline } from "../src/data/chunkers/guideline.js";
-import { addDocuments, clearTable, countDocuments } from "../src/retrieval/vectorStore.js";
+import { FIXTURE_CHUNKS } from "../src/data/fixtures.js";
+import {
+  addDocuments,
+  clearTable,
+  countDocuments,
+  writeCorpusVersion,
+} from "../src/retrieval/vectorStore.js";
+import { AnalysisCache } from "../src/agent/cache.js";
 
 const DATA_DIR = join(process.cwd(), "data", "raw");
 const CACHE_DIR = join(process.cwd(), "data", "cache");
@@ -26,6 +37,22 @@ function ensureCacheDir() {
   }
 }
 
+/**
+ * コーパスのバージョンを更新し、結果を表示
+ * 古いコーパスで分析した結果のキャッシュは削除する
+ */
+async function finish(totalChunks: number) {
+  const corpusVersion = await writeCorpusVersion();
+  await new AnalysisCache().clear();
+
+  // 結果確認
+  const count = await countDocuments();
+  console.log(`\n=== 完了 ===`);
+  console.log(`追加チャンク数: ${totalChunks}`);
+  console.log(`格納ドキュメント数: ${count}`);
+  console.log(`コーパスバージョン: ${corpusVersion.version}（分析結果キャッシュを削除しました）`);
+}
+
 async function main() {
   console.log("=== データ取り込み開始 ===\n");
 
@@ -36,6 +63,15 @@ async function main() {
   console.log("既存データをクリア中...");
   await clearTable();
 
+  // オフライン用の最小コーパス
+  if (process.argv.includes("--fixtures")) {
+    console.log("\n--- オフライン用の最小コーパス ---");
+    console.log("ベクトルストアに追加中...");
+    await addDocuments(FIXTURE_CHUNKS);
+    await finish(FIXTURE_CHUNKS.length);
+    return;
+  }
+
   let totalChunks = 0;
 
   // === 1. 法令データ ===
@@ -151,11 +187,7 @@ async function main() {
     console.error(`✗ ガイドライン読み込み失敗: ${e instanceof Error ? e.message : String(e)}`);
   }
 
-  // 結果確認
-  const count = await countDocuments();
-  console.log(`\n=== 完了 ===`);
-  console.log(`追加チャンク数: ${totalChunks}`);
-  console.log(`格納ドキュメント数: ${count}`);
+  await finish(totalChunks);
 }
 
 main().catch(console.error);
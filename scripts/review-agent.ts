@@ -0,0 +1,104 @@
+/**
+ * 法務レビュー実行スクリプト
+ * 分析結果をレビュー待ちで中断し、レビュアーの判断を提出して確定する
+ *
+ * 使い方:
+ *   npx tsx scripts/review-agent.ts start "広告文テキスト"
+ *   npx tsx scripts/review-agent.ts show <threadId>
+ *   npx tsx scripts/review-agent.ts submit <threadId> <decisions.json>
+ *
+ * decisions.json の形式:
+ *   {
+ *     "reviewer": "法務 山田",
+ *     "comment": "全体コメント（任意）",
+ *     "decisions": [
+ *       { "assessmentIndex": 0, "action": "accept" },
+ *       { "assessmentIndex": 1, "action": "downgrade", "riskLevel": "low", "comment": "根拠資料あり" }
+ *     ]
+ *   }
+ */
+
+import "dotenv/config";
+import { readFile } from "fs/promises";
+import {
+  startReview,
+  getPendingReview,
+  submitReview,
+  formatAnalysisResult,
+  type AnalysisResult,
+  type ReviewSubmission,
+} from "../src/agent/index.js";
+
+function printUsage(): void {
+  console.error('使い方: npx tsx scripts/review-agent.ts start "広告文テキスト"');
+  console.error("        npx tsx scripts/review-agent.ts show <threadId>");
+  console.error("        npx tsx scripts/review-agent.ts submit <threadId> <decisions.json>");
+}
+
+/**
+ * レビュー対象のリスク評価をインデックス付きで表示
+ */
+function printReviewTargets(result: AnalysisResult): void {
+  console.log("【レビュー対象】");
+  result.riskAssessments.forEach((a, i) => {
+    const disagreement = a.consensus?.disagreement ? " ⚠️ モデル間で判断が分かれています" : "";
+    console.log(`  [${i}] "${a.expression}" (${a.riskLevel}) ${a.violationType}${disagreement}`);
+  });
+}
+
+async function main() {
+  const [command, ...args] = process.argv.slice(2);
+
+  try {
+    switch (command) {
+      case "start": {
+        const adText = args.join(" ");
+        if (!adText) {
+          printUsage();
+          process.exit(1);
+        }
+        const { threadId, result } = await startReview(adText);
+        console.log(formatAnalysisResult(result));
+        console.log("");
+        printReviewTargets(result);
+        console.log("");
+        console.log(`スレッドID: ${threadId}`);
+        console.log(
+          `判断を提出: npx tsx scripts/review-agent.ts submit ${threadId} <decisions.json>`,
+        );
+        break;
+      }
+      case "show": {
+        const [threadId] = args;
+        if (!threadId) {
+          printUsage();
+          process.exit(1);
+        }
+        const result = await getPendingReview(threadId);
+        console.log(formatAnalysisResult(result));
+        console.log("");
+        printReviewTargets(result);
+        break;
+      }
+      case "submit": {
+        const [threadId, decisionsPath] = args;
+        if (!threadId || !decisionsPath) {
+          printUsage();
+          process.exit(1);
+        }
+        const submission = JSON.parse(await readFile(decisionsPath, "utf-8")) as ReviewSubmission;
+        const result = await submitReview(threadId, submission);
+        console.log(formatAnalysisResult(result));
+        break;
+      }
+      default:
+        printUsage();
+        process.exit(1);
+    }
+  } catch (error) {
+    console.error("エラー:", error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  }
+}
+
+main().catch(console.error);
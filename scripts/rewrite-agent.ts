@@ -0,0 +1,65 @@
+/**
+ * 広告文リライト実行スクリプト
+ * 改善提案を反映した修正版を生成し、リスクが下がるまで再評価を繰り返す
+ *
+ * 使い方:
+ *   npx tsx scripts/rewrite-agent.ts "広告文テキスト"
+ *   echo "広告文テキスト" | npx tsx scripts/rewrite-agent.ts
+ *   MAX_ITERATIONS=5 npx tsx scripts/rewrite-agent.ts "広告文テキスト"
+ */
+
+import "dotenv/config";
+import { rewriteAd, formatRewriteResult, getLLMProviderName } from "../src/agent/index.js";
+
+async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks).toString("utf-8").trim();
+}
+
+async function main() {
+  // コマンドライン引数を取得
+  const args = process.argv.slice(2);
+  let adText = args.join(" ");
+
+  // 引数がなければ標準入力から読む
+  if (!adText) {
+    if (process.stdin.isTTY) {
+      console.error('使い方: npx tsx scripts/rewrite-agent.ts "広告文テキスト"');
+      console.error('        echo "広告文" | npx tsx scripts/rewrite-agent.ts');
+      process.exit(1);
+    }
+    adText = await readStdin();
+  }
+
+  if (!adText) {
+    console.error("エラー: 広告文が入力されていません");
+    process.exit(1);
+  }
+
+  const maxIterations = process.env.MAX_ITERATIONS ? Number(process.env.MAX_ITERATIONS) : undefined;
+  if (maxIterations !== undefined && (!Number.isInteger(maxIterations) || maxIterations < 1)) {
+    console.error("エラー: MAX_ITERATIONS には1以上の整数を指定してください");
+    process.exit(1);
+  }
+
+  console.log("=".repeat(60));
+  console.log("広告リライト Agent");
+  console.log(`LLMプロバイダー: ${getLLMProviderName()}`);
+  console.log("=".repeat(60));
+  console.log("");
+  console.log(`入力: ${adText}`);
+  console.log("");
+
+  try {
+    const result = await rewriteAd(adText, { maxIterations });
+    console.log(formatRewriteResult(result));
+  } catch (error) {
+    console.error("エラー:", error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  }
+}
+
+main().catch(console.error);
@@ -4,10 +4,78 @@
  * 使い方:
  *   npx tsx scripts/run-agent.ts "広告文テキスト"
  *   echo "広告文テキスト" | npx tsx scripts/run-agent.ts
+ *   npx tsx scripts/run-agent.ts --stream "広告文テキスト"  # 進捗を逐次表示
+ *   npx tsx scripts/run-agent.ts --category=health_food --channel=sns "広告文テキスト"
+ *   npx tsx scripts/run-agent.ts --social "SNS投稿テキスト"  # 広告である旨の表示（ステマ規制）も検証
+ *   npx tsx scripts/run-agent.ts --cache "広告文テキスト"  # 同じ条件の分析結果があれば再利用
+ *   npx tsx scripts/run-agent.ts --html=saved/lp.html  # LPのHTMLファイルを分析（指摘箇所をCSSセレクタで表示）
+ *
+ * 前提条件オプション:
+ *   --category=<カテゴリ>  health_food / cosmetics / food / real_estate / telecom / nursing_home / finance / general
+ *   --channel=<媒体>       tv / sns / web / ec / print / email / outdoor
+ *   --audience=<対象者>    例: 40代女性
+ *   --period=<開始>:<終了>  キャンペーン期間（例: 2024-03-01:2024-03-31）
+ *
+ * 出力形式オプション:
+ *   --format=<形式>        json / sarif / junit / markdown（省略時はコンソール向けのテキスト。指定時は進捗を表示しない）
+ *   --artifact=<パス>      SARIF・JUnit XMLに記録する広告文のファイルパス（例: copy/campaign.txt）
+ *   --fail-on=<レベル>     JUnit XMLで失敗とするリスクレベルの下限 high / medium（デフォルト） / low
+ *   --json-schema          JSON形式の出力のJSON Schemaを表示して終了
+ *
+ * 審査の厳しさ:
+ *   --strictness=<厳しさ>  conservative（厳格） / balanced（標準、デフォルト） / permissive（寛容）
+ *
+ * 合議オプション（複数モデルでリスク評価し、判断が分かれた指摘を表示）:
+ *   --consensus=<プロバイダー,...>       例: gemini-flash,claude,openai
+ *   --consensus-policy=<方針>            max / majority（デフォルト） / weighted
+ *   --consensus-weights=<プロバイダー:重み,...>  weightedの重み（例: claude:2,gemini-flash:1）
+ *
+ * 予算オプション（超える時点で分析を中断）:
+ *   --budget=<USD>         1回の分析のコスト上限（例: 0.05）
+ *   --max-tokens=<N>       1回の分析のトークン数上限
+ *
+ * リスク評価のLLM呼び出しは失敗時に再試行し、LLM_FALLBACK_PROVIDERSのプロバイダーにフォールバックする
+ * （再試行回数・タイムアウトは.env.exampleを参照）
+ *
+ * 根拠資料オプション（複数指定可）:
+ *   --evidence=<ファイル>          根拠資料（PDFまたはテキスト）
+ *   --evidence=<種類>:<ファイル>   種類: test_report / survey / other
  */
 
 import "dotenv/config";
-import { analyzeAd, formatAnalysisResult, getLLMProviderName } from "../src/agent/index.js";
+import {
+  analyzeAd,
+  analyzeAdStream,
+  analyzeLandingPage,
+  loadLandingPage,
+  AnalysisCache,
+  formatAnalysisResult,
+  formatLandingPageResult,
+  getLLMProviderName,
+  isLLMProvider,
+  isStrictnessProfile,
+  isReportFormat,
+  formatReport,
+  buildReportMetadata,
+  ANALYSIS_REPORT_JSON_SCHEMA,
+  LLMFallbackError,
+  CONSENSUS_POLICY_LABELS,
+  isProductCategory,
+  isAdChannel,
+  EVIDENCE_KIND_LABELS,
+  loadEvidenceFile,
+  type EvidenceDocument,
+  type EvidenceKind,
+  type LandingPage,
+  type AnalysisResult,
+  type AnalyzeAdOptions,
+  type UsageBudget,
+  type ConsensusOptions,
+  type ConsensusPolicy,
+  type LLMProvider,
+  type ReportFormat,
+  type ReportFormatOptions,
+} from "../src/agent/index.js";
 
 async function readStdin(): Promise<string> {
   const chunks: Buffer[] = [];
@@ -17,10 +85,234 @@ async function readStdin(): Promise<string> {
   return Buffer.concat(chunks).toString("utf-8").trim();
 }
 
+/**
+ * --key=value 形式のオプションから前提条件を取得
+ * @throws {Error} カテゴリ・媒体の値が不正な場合
+ */
+function parseContextOptions(flags: string[]): AnalyzeAdOptions {
+  const options: AnalyzeAdOptions = {};
+
+  for (const flag of flags) {
+    const [key, ...rest] = flag.slice(2).split("=");
+    const value = rest.join("=");
+
+    switch (key) {
+      case "category":
+        if (!isProductCategory(value)) {
+          throw new Error(`不明な商品カテゴリ: ${value}`);
+        }
+        options.productCategory = value;
+        break;
+      case "channel":
+        if (!isAdChannel(value)) {
+          throw new Error(`不明な掲載媒体: ${value}`);
+        }
+        options.channel = value;
+        break;
+      case "audience":
+        options.targetAudience = value;
+        break;
+      case "social":
+        options.mode = "social";
+        break;
+      case "period": {
+        const [start, end] = value.split(":");
+        options.campaignPeriod = { start: start || undefined, end: end || undefined };
+        break;
+      }
+    }
+  }
+
+  return options;
+}
+
+/**
+ * --budget=USD・--max-tokens=N 形式のオプションから予算を取得
+ * @throws {Error} 値が正の数でない場合
+ */
+function parseBudgetOptions(flags: string[]): UsageBudget | undefined {
+  const value = (name: string) => {
+    const raw = flags.find((f) => f.startsWith(`--${name}=`))?.slice(name.length + 3);
+    if (raw === undefined) return undefined;
+    const num = Number(raw);
+    if (!(num > 0)) {
+      throw new Error(`--${name} には正の数を指定してください: ${raw}`);
+    }
+    return num;
+  };
+  const budget: UsageBudget = { maxCostUsd: value("budget"), maxTokens: value("max-tokens") };
+  return budget.maxCostUsd !== undefined || budget.maxTokens !== undefined ? budget : undefined;
+}
+
+/**
+ * --consensus=・--consensus-policy=・--consensus-weights= 形式のオプションから合議モードの設定を取得
+ * @throws {Error} プロバイダー・方針・重みの値が不正な場合
+ */
+function parseConsensusOptions(flags: string[]): ConsensusOptions | undefined {
+  const value = (name: string) =>
+    flags.find((f) => f.startsWith(`--${name}=`))?.slice(name.length + 3);
+  const toProvider = (name: string): LLMProvider => {
+    if (!isLLMProvider(name)) {
+      throw new Error(`不明なLLMプロバイダー: ${name}`);
+    }
+    return name;
+  };
+
+  const providers = value("consensus");
+  if (providers === undefined) return undefined;
+
+  const consensus: ConsensusOptions = {
+    providers: providers.split(",").filter(Boolean).map(toProvider),
+  };
+  const policy = value("consensus-policy");
+  if (policy !== undefined) {
+    if (!Object.hasOwn(CONSENSUS_POLICY_LABELS, policy)) {
+      throw new Error(`不明な合議の方針: ${policy}`);
+    }
+    consensus.policy = policy as ConsensusPolicy;
+  }
+  const weights = value("consensus-weights");
+  if (weights !== undefined) {
+    consensus.weights = {};
+    for (const spec of weights.split(",").filter(Boolean)) {
+      const [name, raw] = spec.split(":");
+      const weight = Number(raw);
+      if (!(weight >= 0)) {
+        throw new Error(`--consensus-weights の重みには0以上の数を指定してください: ${spec}`);
+      }
+      consensus.weights[toProvider(name)] = weight;
+    }
+  }
+  return consensus;
+}
+
+/**
+ * --format=・--artifact=・--fail-on= 形式のオプションから出力形式を取得
+ * @throws {Error} 形式・リスクレベルの値が不正な場合
+ */
+function parseFormatOptions(flags: string[]): {
+  format?: ReportFormat;
+  formatOptions: ReportFormatOptions;
+} {
+  const value = (name: string) =>
+    flags.find((f) => f.startsWith(`--${name}=`))?.slice(name.length + 3);
+
+  const format = value("format");
+  if (format !== undefined && !isReportFormat(format)) {
+    throw new Error(`不明な出力形式: ${format}`);
+  }
+  const formatOptions: ReportFormatOptions = { artifactUri: value("artifact") };
+  const failOn = value("fail-on");
+  if (failOn !== undefined) {
+    if (failOn !== "high" && failOn !== "medium" && failOn !== "low") {
+      throw new Error(`--fail-on には high / medium / low を指定してください: ${failOn}`);
+    }
+    formatOptions.failOn = failOn;
+  }
+  return { format, formatOptions };
+}
+
+/**
+ * --evidence=[種類:]ファイル 形式のオプションから根拠資料を読み込み
+ */
+async function loadEvidenceOptions(flags: string[]): Promise<EvidenceDocument[]> {
+  const specs = flags.filter((f) => f.startsWith("--evidence=")).map((f) => f.slice(11));
+
+  return Promise.all(
+    specs.map((spec) => {
+      const [kind, ...rest] = spec.split(":");
+      return Object.hasOwn(EVIDENCE_KIND_LABELS, kind) && rest.length > 0
+        ? loadEvidenceFile(rest.join(":"), kind as EvidenceKind)
+        : loadEvidenceFile(spec);
+    }),
+  );
+}
+
+/**
+ * 進捗を表示しながら分析（Ctrl+Cで中断）
+ */
+async function analyzeWithProgress(
+  adText: string,
+  options: AnalyzeAdOptions,
+  budget?: UsageBudget,
+): Promise<AnalysisResult | undefined> {
+  const controller = new AbortController();
+  process.once("SIGINT", () => controller.abort());
+
+  let result: AnalysisResult | undefined;
+  for await (const event of analyzeAdStream(adText, options, {
+    signal: controller.signal,
+    budget,
+  })) {
+    switch (event.type) {
+      case "node_start":
+        console.log(`▶ ${event.node} ...`);
+        break;
+      case "node_end":
+        console.log(`✓ ${event.node} (${event.durationMs}ms)`);
+        break;
+      case "claims":
+        console.log(`  クレーム: ${event.claims.length}件`);
+        break;
+      case "retrieved_docs":
+        console.log(`  参照文書: ${event.docs.length}件`);
+        break;
+      case "assessments":
+        console.log(`  評価: ${event.assessments.length}件`);
+        break;
+      case "result":
+        result = event.result;
+        break;
+    }
+  }
+  console.log("");
+  return result;
+}
+
 async function main() {
   // コマンドライン引数を取得
   const args = process.argv.slice(2);
-  let adText = args.join(" ");
+  if (args.includes("--json-schema")) {
+    console.log(JSON.stringify(ANALYSIS_REPORT_JSON_SCHEMA, null, 2));
+    return;
+  }
+  const cache = args.includes("--cache") ? new AnalysisCache() : undefined;
+  const flags = args.filter((arg) => arg.startsWith("--") && arg !== "--stream");
+  let adText = args.filter((arg) => !arg.startsWith("--")).join(" ");
+  const htmlFile = flags.find((f) => f.startsWith("--html="))?.slice(7);
+
+  let options: AnalyzeAdOptions;
+  let page: LandingPage | undefined;
+  let budget: UsageBudget | undefined;
+  let format: ReportFormat | undefined;
+  let formatOptions: ReportFormatOptions;
+  try {
+    ({ format, formatOptions } = parseFormatOptions(flags));
+    options = parseContextOptions(flags);
+    budget = parseBudgetOptions(flags);
+    const consensus = parseConsensusOptions(flags);
+    if (consensus) {
+      options.consensus = consensus;
+    }
+    const strictness = flags.find((f) => f.startsWith("--strictness="))?.slice(13);
+    if (strictness !== undefined) {
+      if (!isStrictnessProfile(strictness)) {
+        throw new Error(`不明な審査の厳しさ: ${strictness}`);
+      }
+      options.strictness = strictness;
+    }
+    const evidence = await loadEvidenceOptions(flags);
+    if (evidence.length > 0) {
+      options.evidence = evidence;
+    }
+    if (htmlFile) {
+      page = await loadLandingPage(htmlFile);
+      adText = page.text;
+    }
+  } catch (error) {
+    console.error("エラー:", error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  }
 
   // 引数がなければ標準入力から読む
   if (!adText) {
@@ -37,6 +329,20 @@ async function main() {
     process.exit(1);
   }
 
+  // 出力形式を指定した場合は、出力をそのままファイルに保存できるよう分析結果のみ表示する
+  if (format) {
+    try {
+      const result = page
+        ? await analyzeLandingPage(page, options, { cache, budget })
+        : await analyzeAd(adText, options, { cache, budget });
+      console.log(formatReport(result, format, await buildReportMetadata(result), formatOptions));
+    } catch (error) {
+      console.error("エラー:", error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+    return;
+  }
+
   console.log("=".repeat(60));
   console.log("広告リンター Agent");
   console.log(`LLMプロバイダー: ${getLLMProviderName()}`);
@@ -46,9 +352,30 @@ async function main() {
   console.log("");
 
   try {
-    const result = await analyzeAd(adText);
-    console.log(formatAnalysisResult(result));
+    // LP入力の場合は指摘箇所をCSSセレクタに対応付けるため、ストリーミングせずに分析する
+    if (page) {
+      console.log(
+        formatLandingPageResult(await analyzeLandingPage(page, options, { cache, budget })),
+      );
+      return;
+    }
+    const result = args.includes("--stream")
+      ? await analyzeWithProgress(adText, options, budget)
+      : await analyzeAd(adText, options, { cache, budget });
+    if (result) {
+      console.log(formatAnalysisResult(result));
+    }
   } catch (error) {
+    if (error instanceof LLMFallbackError) {
+      console.error("エラー: すべてのLLMプロバイダーでリスク評価に失敗しました");
+      for (const attempt of error.attempts) {
+        const status = attempt.status ? ` [${attempt.status}]` : "";
+        console.error(
+          `  - ${attempt.provider} (${attempt.model}) ${attempt.attempt}回目${status}: ${attempt.error}`,
+        );
+      }
+      process.exit(1);
+    }
     console.error("エラー:", error instanceof Error ? error.message : String(error));
     process.exit(1);
   }
@@ -0,0 +1,196 @@
+/**
+ * 分析結果キャッシュ・バッチ分析のテストスクリプト
+ * テスト用の決定的なLLM（LLM_PROVIDER=fake）とEmbedding（EMBEDDING_PROVIDER=fake）で、
+ * キャッシュキーの構成要素とバッチ分析の再開を一時ディレクトリ上で確認する（ネットワークなし）
+ *
+ * 使い方:
+ *   npx tsx scripts/test-cache.ts
+ */
+
+import { mkdtempSync, rmSync } from "fs";
+import { appendFile, readFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  AnalysisCache,
+  analyzeAd,
+  runBatch,
+  setScriptedResponses,
+  type BatchItem,
+  type BatchRecord,
+} from "../src/agent/index.js";
+import { FIXTURE_CHUNKS } from "../src/data/fixtures.js";
+import { addDocuments } from "../src/retrieval/vectorStore.js";
+
+/** バッチ分析の出力ファイル */
+const OUTPUT_PATH = "./data/batch/results.jsonl";
+
+/** バッチ分析の入力 */
+const BATCH_ITEMS: BatchItem[] = [
+  { id: "a", text: "業界No.1の満足度" },
+  { id: "b", text: "今だけ半額！", options: { channel: "ec" } },
+];
+
+/**
+ * 出力ファイルの記録を読み込み（不完全な行は除く）
+ */
+async function readRecords(): Promise<BatchRecord[]> {
+  const content = await readFile(OUTPUT_PATH, "utf-8");
+  return content
+    .split("\n")
+    .filter((line) => line.startsWith("{") && line.endsWith("}"))
+    .map((line) => JSON.parse(line) as BatchRecord);
+}
+
+/**
+ * 指定した環境変数を一時的に変更して実行
+ */
+async function withEnv<T>(name: string, value: string, fn: () => Promise<T>): Promise<T> {
+  const original = process.env[name];
+  process.env[name] = value;
+  try {
+    return await fn();
+  } finally {
+    if (original === undefined) {
+      delete process.env[name];
+    } else {
+      process.env[name] = original;
+    }
+  }
+}
+
+/** テストケース（順に実行する。checkは失敗理由を返し、問題がなければundefined） */
+const TEST_CASES: { name: string; check: () => Promise<string | undefined> }[] = [
+  {
+    name: "キャッシュキー: 空白・全角半角の違いは同じ広告文とみなす",
+    check: async () => {
+      const cache = new AnalysisCache();
+      const key = await cache.keyFor("今だけ半額！");
+      return key === (await cache.keyFor("  今だけ半額!  ")) ? undefined : "キーが異なる";
+    },
+  },
+  {
+    name: "キャッシュキー: 分析オプションが変わると別のキー",
+    check: async () => {
+      const cache = new AnalysisCache();
+      const key = await cache.keyFor("今だけ半額！");
+      return key !== (await cache.keyFor("今だけ半額！", { channel: "ec" }))
+        ? undefined
+        : "キーが同じ";
+    },
+  },
+  {
+    name: "キャッシュキー: Embeddingのプロバイダーが変わると別のキー",
+    check: async () => {
+      const cache = new AnalysisCache();
+      const key = await cache.keyFor("今だけ半額！");
+      const other = await withEnv("EMBEDDING_PROVIDER", "openai", () =>
+        cache.keyFor("今だけ半額！"),
+      );
+      return key !== other ? undefined : "キーが同じ";
+    },
+  },
+  {
+    name: "キャッシュ: 同じ条件の2回目の分析はキャッシュから返す",
+    check: async () => {
+      const cache = new AnalysisCache();
+      const first = await analyzeAd("今だけ半額！", {}, { cache });
+      const second = await analyzeAd("今だけ半額!", {}, { cache });
+      if (first.cache?.hit !== false) return "1回目がキャッシュから返された";
+      if (second.cache?.hit !== true) return "2回目がキャッシュから返されない";
+      if (second.adText !== "今だけ半額!") return "広告文が今回の入力になっていない";
+      return undefined;
+    },
+  },
+  {
+    name: "バッチ: すべての行を分析し、参照文書の本文は書き出さない",
+    check: async () => {
+      const summary = await runBatch(BATCH_ITEMS, { outputPath: OUTPUT_PATH });
+      const records = await readRecords();
+      if (summary.succeeded !== 2 || summary.skipped !== 0) {
+        return `成功${summary.succeeded}件・スキップ${summary.skipped}件`;
+      }
+      if (records.length !== 2) return `記録が${records.length}件`;
+      if (records.some((r) => r.status !== "ok" || "retrievedDocs" in r.result)) {
+        return "参照文書の本文が書き出されている";
+      }
+      return undefined;
+    },
+  },
+  {
+    name: "バッチ: 再開時は完了済みの行を飛ばし、書きかけの行は読み飛ばす",
+    check: async () => {
+      await appendFile(OUTPUT_PATH, '{"id":"b","inputHash":');
+      const summary = await runBatch(BATCH_ITEMS, { outputPath: OUTPUT_PATH });
+      const records = await readRecords();
+      if (summary.skipped !== 2 || summary.succeeded !== 2) {
+        return `成功${summary.succeeded}件・スキップ${summary.skipped}件`;
+      }
+      return records.length === 2 ? undefined : `記録が${records.length}件`;
+    },
+  },
+  {
+    name: "バッチ: 広告文・分析オプションが変わった行は分析し直す",
+    check: async () => {
+      const items = BATCH_ITEMS.map((item) =>
+        item.id === "b" ? { ...item, options: { channel: "sns" as const } } : item,
+      );
+      const summary = await runBatch(items, { outputPath: OUTPUT_PATH });
+      const records = await readRecords();
+      if (summary.skipped !== 1) return `スキップ${summary.skipped}件`;
+      if (records.length !== 3 || records[2].id !== "b") return "変わった行が分析されていない";
+      return undefined;
+    },
+  },
+  {
+    name: "バッチ: resume=falseの場合は出力ファイルを空にしてすべて分析し直す",
+    check: async () => {
+      const summary = await runBatch(BATCH_ITEMS, { outputPath: OUTPUT_PATH, resume: false });
+      const records = await readRecords();
+      if (summary.skipped !== 0) return `スキップ${summary.skipped}件`;
+      return records.length === 2 ? undefined : `記録が${records.length}件`;
+    },
+  },
+];
+
+async function main() {
+  console.log("=== キャッシュ・バッチ分析テスト ===\n");
+
+  process.env.LLM_PROVIDER = "fake";
+  process.env.EMBEDDING_PROVIDER = "fake";
+  setScriptedResponses({
+    claim_extraction: { claims: [] },
+    risk_analysis: {
+      overallRisk: "none",
+      summary: "問題は見つかりませんでした。",
+      assessments: [],
+    },
+  });
+  // ベクトルストア・キャッシュ・出力ファイルを一時ディレクトリに作成する
+  const originalDir = process.cwd();
+  const workDir = mkdtempSync(join(tmpdir(), "ad-linter-test-"));
+  process.chdir(workDir);
+
+  let passed = 0;
+  try {
+    await addDocuments(FIXTURE_CHUNKS);
+
+    for (const testCase of TEST_CASES) {
+      const failure = await testCase.check();
+      if (!failure) passed++;
+
+      const icon = failure ? "❌" : "✅";
+      console.log(`${icon} ${testCase.name}${failure ? `: ${failure}` : ""}`);
+    }
+  } finally {
+    process.chdir(originalDir);
+    rmSync(workDir, { recursive: true, force: true });
+  }
+
+  console.log(`\n合計: ${passed}/${TEST_CASES.length} パス`);
+  if (passed < TEST_CASES.length) {
+    process.exit(1);
+  }
+}
+
+main();
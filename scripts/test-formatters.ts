@@ -0,0 +1,234 @@
+/**
+ * 出力フォーマットのテストスクリプト
+ * 位置のある指摘・広告全体の指摘・未検証の指摘・要判断の指摘を含む分析結果を、
+ * JSON・SARIF・JUnit XML・Markdown・テキスト形式に変換して確認する（LLM・Embeddingなし）
+ *
+ * 使い方:
+ *   npx tsx scripts/test-formatters.ts
+ */
+
+import {
+  formatAnalysisResult,
+  formatJUnitReport,
+  formatMarkdownReport,
+  formatViolationType,
+  toJsonReport,
+  toSarifLog,
+  type AnalysisResult,
+  type ReportMetadata,
+  type RiskAssessment,
+  type ViolationCode,
+} from "../src/agent/index.js";
+
+/** 分析した広告文（2行目の「業界No.1」を指摘する） */
+const AD_TEXT = "新商品キャンペーン\n業界No.1の<満足度>";
+
+/** レポートのメタデータ */
+const METADATA: ReportMetadata = {
+  tool: "ad-linter",
+  generatedAt: "2026-10-01T00:00:00.000Z",
+  provider: "fake",
+  model: "scripted",
+  promptVersion: "1",
+  corpusVersion: "test",
+};
+
+/**
+ * リスク評価を作成
+ */
+function assessment(
+  violationCode: ViolationCode,
+  overrides: Partial<RiskAssessment>,
+): RiskAssessment {
+  return {
+    expression: "",
+    riskLevel: "medium",
+    violationCode,
+    violationType: formatViolationType(violationCode),
+    reasoning: "根拠が示されていません。",
+    citations: [],
+    suggestion: "表示を見直してください。",
+    source: "llm",
+    ...overrides,
+  };
+}
+
+/** 指摘（位置あり・広告全体・未検証・要判断の順） */
+const ASSESSMENTS: RiskAssessment[] = [
+  assessment("misleading_quality", {
+    expression: "業界No.1の<満足度>",
+    riskLevel: "high",
+    start: 10,
+    end: 22,
+    verified: true,
+    citations: [
+      {
+        source: "law",
+        id: "law-5",
+        articleNumber: "5",
+        content: "優良誤認 | 表示",
+        relevanceScore: 0.4,
+      },
+    ],
+  }),
+  assessment("premium_open_sweepstakes", { riskLevel: "high" }),
+  assessment("misleading_terms", { expression: "今だけ", verified: false }),
+  assessment("unsubstantiated", {
+    expression: "新商品",
+    start: 0,
+    end: 3,
+    verified: true,
+    confidence: { value: 0.3, factors: { model: 0.3 }, uncertain: true },
+  }),
+];
+
+/** 分析結果 */
+const RESULT: AnalysisResult = {
+  adText: AD_TEXT,
+  claims: [],
+  riskAssessments: ASSESSMENTS,
+  premiumChecks: [],
+  doublePriceChecks: [],
+  substantiationChecks: [],
+  disclaimerChecks: [],
+  overallRisk: "high",
+  riskScore: { score: 90, level: "high", contributions: [] },
+  summary: "優良誤認のおそれがあります。",
+  context: {},
+  processingTime: 1500,
+  retrievedDocsCount: 1,
+  retrievedDocs: [],
+};
+
+/** SARIFの結果（テストで参照する項目のみ） */
+type SarifResult = {
+  ruleId: string;
+  level: string;
+  locations: { physicalLocation: { region?: { startLine: number; startColumn: number } } }[];
+};
+
+/**
+ * SARIFのログから結果を取り出す
+ */
+function sarifResults(): SarifResult[] {
+  const log = toSarifLog(RESULT, METADATA, { artifactUri: "ads/campaign.txt" }) as {
+    runs: { results: SarifResult[] }[];
+  };
+  return log.runs[0].results;
+}
+
+/** テストケース（checkは失敗理由を返し、問題がなければundefined） */
+const TEST_CASES: { name: string; check: () => string | undefined }[] = [
+  {
+    name: "JSON: 位置のない指摘はspanをnullにする",
+    check: () => {
+      const report = toJsonReport(RESULT, METADATA);
+      const spans = report.findings.map((f) => (f.span ? `${f.span.start}-${f.span.end}` : "null"));
+      if (spans.join(",") !== "10-22,null,null,0-3") return `spanが${spans.join(",")}`;
+      if (report.findings[3].needsHumanJudgment !== true) return "要判断になっていない";
+      if (report.metadata.strictness !== null) return "審査の厳しさがnullでない";
+      return undefined;
+    },
+  },
+  {
+    name: "SARIF: 位置を行・列に変換し、リスクレベルをレベルに対応付ける",
+    check: () => {
+      const [located] = sarifResults();
+      const region = located.locations[0].physicalLocation.region;
+      if (located.ruleId !== "misleading_quality") return `ruleIdが${located.ruleId}`;
+      if (located.level !== "error") return `レベルが${located.level}`;
+      if (region?.startLine !== 2 || region.startColumn !== 1) {
+        return `位置が${region?.startLine}:${region?.startColumn}`;
+      }
+      return undefined;
+    },
+  },
+  {
+    name: "SARIF: 位置のない指摘はファイル単位の指摘にする",
+    check: () => {
+      const results = sarifResults();
+      const withRegion = results.filter((r) => r.locations[0].physicalLocation.region);
+      return withRegion.length === 2 ? undefined : `位置のある結果が${withRegion.length}件`;
+    },
+  },
+  {
+    name: "JUnit: failOn以上を失敗、要判断をスキップとする",
+    check: () => {
+      const xml = formatJUnitReport(RESULT, METADATA);
+      if (!xml.includes('tests="5" failures="4" skipped="1"')) return "件数が一致しない";
+      const high = formatJUnitReport(RESULT, METADATA, { failOn: "high" });
+      if (!high.includes('tests="5" failures="3" skipped="1"')) return "failOnが反映されていない";
+      return undefined;
+    },
+  },
+  {
+    name: "JUnit: 位置の表示とXMLのエスケープ",
+    check: () => {
+      const xml = formatJUnitReport(RESULT, METADATA, { artifactUri: "ads/campaign.txt" });
+      if (!xml.includes("位置: ads/campaign.txt:2:1（10〜22文字目）")) return "位置が表示されない";
+      if (!xml.includes("位置: 広告全体に関する指摘")) return "広告全体の指摘と表示されない";
+      if (!xml.includes("位置: 広告文中に見つかりません（未検証）")) return "未検証と表示されない";
+      if (xml.includes("<満足度>")) return "エスケープされていない";
+      return undefined;
+    },
+  },
+  {
+    name: "Markdown: 位置の表示と要判断の指摘の分離",
+    check: () => {
+      const markdown = formatMarkdownReport(RESULT, METADATA);
+      const rows = markdown.split("\n").filter((line) => line.startsWith("| finding-"));
+      const spans = rows.map((row) => row.split(" | ")[2]);
+      if (spans.join(",") !== "10〜22,広告全体,未検証,0〜3") return `位置が${spans.join(",")}`;
+      const uncertainSection = markdown.indexOf("### 要判断");
+      if (uncertainSection === -1 || markdown.indexOf("| finding-4 |") < uncertainSection) {
+        return "要判断の指摘が分かれていない";
+      }
+      return undefined;
+    },
+  },
+  {
+    name: "Markdown: 表のセルのエスケープ",
+    check: () => {
+      const markdown = formatMarkdownReport(RESULT, METADATA);
+      if (!markdown.includes("業界No.1の&lt;満足度&gt;")) return "HTMLがエスケープされていない";
+      if (!markdown.includes("優良誤認 \\| 表示")) return "区切り文字がエスケープされていない";
+      return undefined;
+    },
+  },
+  {
+    name: "テキスト: 広告全体・未検証・要判断の指摘の表示",
+    check: () => {
+      const text = formatAnalysisResult(RESULT);
+      if (!text.includes("▶ 表現: （広告全体）")) return "広告全体の指摘と表示されない";
+      if (!text.includes("位置: ⚠️ 広告文中に見つかりません（未検証）")) {
+        return "未検証と表示されない";
+      }
+      if (!text.includes("位置: 10〜22文字目")) return "位置が表示されない";
+      const uncertainSection = text.indexOf("【要判断");
+      if (uncertainSection === -1 || text.indexOf('"新商品"') < uncertainSection) {
+        return "要判断の指摘が分かれていない";
+      }
+      return undefined;
+    },
+  },
+];
+
+function main() {
+  console.log("=== 出力フォーマットテスト ===\n");
+
+  let passed = 0;
+  for (const testCase of TEST_CASES) {
+    const failure = testCase.check();
+    if (!failure) passed++;
+
+    const icon = failure ? "❌" : "✅";
+    console.log(`${icon} ${testCase.name}${failure ? `: ${failure}` : ""}`);
+  }
+
+  console.log(`\n合計: ${passed}/${TEST_CASES.length} パス`);
+  if (passed < TEST_CASES.length) {
+    process.exit(1);
+  }
+}
+
+main();
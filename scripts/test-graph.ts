@@ -0,0 +1,205 @@
+/**
+ * グラフ全体のテストスクリプト
+ * テスト用の決定的なLLM（LLM_PROVIDER=fake）とEmbedding（EMBEDDING_PROVIDER=fake）で、
+ * 同梱の最小コーパスを一時ディレクトリに取り込んでグラフ全体を実行する（ネットワークなし）
+ *
+ * 使い方:
+ *   npx tsx scripts/test-graph.ts
+ */
+
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  analyzeAd,
+  analyzeLandingPage,
+  formatAnalysisResult,
+  parseLandingPage,
+  setScriptedResponses,
+  type AnalysisResult,
+  type AnalyzeAdOptions,
+  type ScriptedResponses,
+} from "../src/agent/index.js";
+import { FIXTURE_CHUNKS } from "../src/data/fixtures.js";
+import { addDocuments } from "../src/retrieval/vectorStore.js";
+
+/** LLMの応答（クレームなし・評価なし） */
+const EMPTY_RESPONSES: ScriptedResponses = {
+  claim_extraction: { claims: [] },
+  risk_analysis: { overallRisk: "none", summary: "問題は見つかりませんでした。", assessments: [] },
+};
+
+/** 同じ番号の注記を複数の表示が参照する広告文 */
+const DISCLAIMER_TEXT = "シミが消える※1\n肌が白くなる※1\n※1 メイクアップ効果による";
+
+/**
+ * 打消し表示の判定が不整合となるLLMの応答
+ */
+function disclaimerResponses(confidence: number): ScriptedResponses {
+  return {
+    ...EMPTY_RESPONSES,
+    disclaimer_analysis: {
+      checks: [
+        {
+          marker: "※1",
+          claimId: "",
+          judgement: "mismatched",
+          reasoning: "r",
+          citedDocIds: [],
+          suggestion: "s",
+          confidence,
+        },
+      ],
+    },
+  };
+}
+
+/** テストケース（landingPageの場合はtextをLPのHTMLとして分析する。checkは失敗理由を返し、問題がなければundefined） */
+const TEST_CASES: {
+  name: string;
+  text: string;
+  landingPage?: boolean;
+  options?: AnalyzeAdOptions;
+  responses?: ScriptedResponses;
+  check: (result: AnalysisResult) => string | undefined;
+}[] = [
+  {
+    name: "入力オプションによる景品類の上限超過はスコアに含める",
+    text: "新商品キャンペーン実施中",
+    options: {
+      premium: { campaignType: "general_lottery", transactionPrice: 3000, prizeValues: [500000] },
+    },
+    check: (result) => {
+      const finding = result.riskAssessments.find((a) => a.evidence?.premiumLimit);
+      if (result.premiumChecks[0]?.status !== "fail") return "上限超過と判定されていない";
+      if (!finding) return "上限超過の評価がない";
+      if (finding.verified === false) return "広告全体に関する評価が未検証になっている";
+      if (result.overallRisk !== "high") return `総合リスクが${result.overallRisk}`;
+      if (formatAnalysisResult(result).includes("未検証")) return "レポートに未検証と表示される";
+      return undefined;
+    },
+  },
+  {
+    name: "LPの広告全体に関する評価にはセレクタを付けない",
+    text: "<html><body><h1>新商品</h1><p>キャンペーン実施中</p></body></html>",
+    landingPage: true,
+    options: {
+      premium: { campaignType: "general_lottery", transactionPrice: 3000, prizeValues: [500000] },
+    },
+    check: (result) => {
+      const finding = result.riskAssessments.find((a) => a.evidence?.premiumLimit);
+      if (!finding) return "上限超過の評価がない";
+      if (finding.selector) return `セレクタが付いている: ${finding.selector}`;
+      return undefined;
+    },
+  },
+  {
+    name: "二重価格表示の検証結果は検証ごとに別の評価とし、無関係なルールの評価に付けない",
+    text: "通常価格10,000円のところ5,000円！今だけ半額セール！",
+    check: (result) => {
+      const withPrice = result.riskAssessments.filter((a) => a.evidence?.doublePrice);
+      if (result.doublePriceChecks.length !== 2)
+        return `検証結果が${result.doublePriceChecks.length}件`;
+      if (withPrice.length !== 2) return `二重価格表示の評価が${withPrice.length}件`;
+      if (withPrice.some((a) => a.ruleIds?.includes("limited-time"))) {
+        return "「今だけ」のルールの評価に検証結果が付いている";
+      }
+      return undefined;
+    },
+  },
+  {
+    name: "複数の表示が参照する注記は1件の打消し表示として評価する",
+    text: DISCLAIMER_TEXT,
+    responses: disclaimerResponses(0.9),
+    check: (result) => {
+      const findings = result.riskAssessments.filter(
+        (a) => a.violationCode === "disclaimer_mismatched",
+      );
+      if (result.disclaimerChecks.length !== 1) {
+        return `打消し表示の判定が${result.disclaimerChecks.length}件`;
+      }
+      if (findings.length !== 1) return `打消し表示の評価が${findings.length}件`;
+      if (findings[0].modelConfidence !== 0.9) return "LLMの確信度が設定されていない";
+      return undefined;
+    },
+  },
+  {
+    name: "確信度が最低確信度に満たない打消し表示の判定は含めない",
+    text: DISCLAIMER_TEXT,
+    options: { strictness: "permissive" },
+    responses: disclaimerResponses(0.6),
+    check: (result) => {
+      if (result.disclaimerChecks.length > 0) return "判定が含まれている";
+      if (result.riskAssessments.some((a) => a.violationCode === "disclaimer_mismatched")) {
+        return "打消し表示の評価が含まれている";
+      }
+      return undefined;
+    },
+  },
+  {
+    name: "広告文中に見つからない表現はスコアに含めない",
+    text: "新商品キャンペーン実施中",
+    responses: {
+      ...EMPTY_RESPONSES,
+      risk_analysis: {
+        overallRisk: "high",
+        summary: "s",
+        assessments: [
+          {
+            expression: "業界No.1",
+            riskLevel: "high",
+            violationCode: "misleading_quality",
+            reasoning: "r",
+            citedDocIds: [],
+            suggestion: "s",
+            claimId: "",
+            confidence: 0.9,
+          },
+        ],
+      },
+    },
+    check: (result) => {
+      if (result.riskAssessments[0]?.verified !== false) return "未検証になっていない";
+      if (result.overallRisk !== "none") return `総合リスクが${result.overallRisk}`;
+      return undefined;
+    },
+  },
+];
+
+async function main() {
+  console.log("=== グラフ全体テスト ===\n");
+
+  process.env.LLM_PROVIDER = "fake";
+  process.env.EMBEDDING_PROVIDER = "fake";
+  // ベクトルストア・キャッシュを一時ディレクトリに作成する
+  const originalDir = process.cwd();
+  const workDir = mkdtempSync(join(tmpdir(), "ad-linter-test-"));
+  process.chdir(workDir);
+
+  let passed = 0;
+  try {
+    await addDocuments(FIXTURE_CHUNKS);
+
+    for (const testCase of TEST_CASES) {
+      setScriptedResponses(testCase.responses ?? EMPTY_RESPONSES);
+      const result = testCase.landingPage
+        ? await analyzeLandingPage(parseLandingPage(testCase.text), testCase.options)
+        : await analyzeAd(testCase.text, testCase.options);
+      const failure = testCase.check(result);
+      if (!failure) passed++;
+
+      const icon = failure ? "❌" : "✅";
+      console.log(`${icon} ${testCase.name}${failure ? `: ${failure}` : ""}`);
+    }
+  } finally {
+    process.chdir(originalDir);
+    rmSync(workDir, { recursive: true, force: true });
+  }
+
+  console.log(`\n合計: ${passed}/${TEST_CASES.length} パス`);
+  if (passed < TEST_CASES.length) {
+    process.exit(1);
+  }
+}
+
+main();
@@ -0,0 +1,174 @@
+/**
+ * スコアリングのテストスクリプト
+ * 総合リスクのスコア・評価の確信度・違反類型の対応付けを確認する（LLM・Embeddingなし）
+ *
+ * 使い方:
+ *   npx tsx scripts/test-scoring.ts
+ */
+
+import {
+  estimateConfidence,
+  formatViolationType,
+  getScoringConfig,
+  resolveViolationCode,
+  scoreAssessments,
+  type RiskAssessment,
+  type ViolationCode,
+} from "../src/agent/index.js";
+
+/**
+ * リスク評価を作成（指定しない項目は中リスクの優良誤認、広告文上の位置あり）
+ */
+function assessment(overrides: Partial<RiskAssessment> = {}): RiskAssessment {
+  const violationCode = overrides.violationCode ?? "misleading_quality";
+  return {
+    expression: "業界No.1",
+    riskLevel: "medium",
+    violationCode,
+    violationType: formatViolationType(violationCode),
+    reasoning: "r",
+    citations: [],
+    suggestion: "s",
+    source: "llm",
+    start: 0,
+    end: 6,
+    verified: true,
+    ...overrides,
+  };
+}
+
+/** 引用（検索距離0.4 = コサイン類似度0.8） */
+const CITATION = { source: "law", id: "law-5", content: "第5条", relevanceScore: 0.4 } as const;
+
+/** 違反類型の対応付けのテストケース（期待値がundefinedの場合は対応付けない） */
+const VIOLATION_CODE_CASES: { value: string; expected: ViolationCode | undefined }[] = [
+  { value: "misleading_terms", expected: "misleading_terms" },
+  { value: " double_pricing ", expected: "double_pricing" },
+  { value: "優良誤認（第5条第1号）", expected: "misleading_quality" },
+  { value: "有利誤認・二重価格表示", expected: "double_pricing" },
+  { value: "不動産のおとり広告に関する表示", expected: "designated_real_estate_decoy" },
+  { value: "一般懸賞の上限超過", expected: "premium_open_sweepstakes" },
+  { value: "懸賞", expected: "premium_general" },
+  { value: "景品表示法違反", expected: undefined },
+  { value: "不明な類型", expected: undefined },
+];
+
+/** テストケース（checkは失敗理由を返し、問題がなければundefined） */
+const TEST_CASES: { name: string; check: () => string | undefined }[] = [
+  {
+    name: "スコア: 高リスク1件で高リスク",
+    check: () => {
+      const score = scoreAssessments([assessment({ riskLevel: "high" })]);
+      if (score.score !== 60) return `スコアが${score.score}`;
+      return score.level === "high" ? undefined : `総合リスクが${score.level}`;
+    },
+  },
+  {
+    name: "スコア: 2件目以降は件数の重みで逓減する",
+    check: () => {
+      const score = scoreAssessments([
+        assessment({ riskLevel: "low" }),
+        assessment({ riskLevel: "medium" }),
+        assessment({ riskLevel: "medium" }),
+      ]);
+      const points = score.contributions.map((c) => c.points);
+      if (points.join(",") !== "30,15,2.5") return `寄与が${points.join(",")}`;
+      return score.level === "medium" ? undefined : `総合リスクが${score.level}`;
+    },
+  },
+  {
+    name: "スコア: 違反類型の重みとしきい値の設定",
+    check: () => {
+      const score = scoreAssessments([assessment()], {
+        violationWeights: { misleading_quality: 2 },
+      });
+      if (score.score !== 60) return `スコアが${score.score}`;
+      // permissiveでは中リスク1件（30点）が中リスクのしきい値（40点）に届かない
+      const permissive = scoreAssessments(
+        [assessment()],
+        getScoringConfig({ strictness: "permissive" }),
+      );
+      return permissive.level === "low" ? undefined : `permissiveの総合リスクが${permissive.level}`;
+    },
+  },
+  {
+    name: "スコア: 未検証・要判断の評価は含めず、広告全体の評価は含める",
+    check: () => {
+      const score = scoreAssessments([
+        assessment({ riskLevel: "high", start: undefined, end: undefined, verified: false }),
+        assessment({
+          riskLevel: "high",
+          confidence: { value: 0.3, factors: {}, uncertain: true },
+        }),
+        assessment({ expression: "", start: undefined, end: undefined, verified: undefined }),
+      ]);
+      if (score.contributions.length !== 1) return `寄与が${score.contributions.length}件`;
+      if (score.contributions[0].expression !== "") return "広告全体の評価が含まれていない";
+      return score.level === "medium" ? undefined : `総合リスクが${score.level}`;
+    },
+  },
+  {
+    name: "確信度: 自己申告・ルール一致・引用・検索類似度の重み付け",
+    check: () => {
+      const confidence = estimateConfidence(
+        assessment({ modelConfidence: 0.9, ruleIds: ["superlative-no1"], citations: [CITATION] }),
+      );
+      // (0.9 * 0.4 + 1 * 0.25 + 0.5 * 0.2 + 0.8 * 0.15) / 1 = 0.83
+      if (confidence.value !== 0.83) return `確信度が${confidence.value}`;
+      return confidence.uncertain ? "要判断になっている" : undefined;
+    },
+  },
+  {
+    name: "確信度: 求められない要素は除いて正規化する",
+    check: () => {
+      const confidence = estimateConfidence(
+        assessment({ source: "rule", ruleIds: ["superlative-no1"] }),
+      );
+      const factors = Object.keys(confidence.factors).sort().join(",");
+      if (factors !== "citations,rules") return `要素が${factors}`;
+      // (1 * 0.25 + 0 * 0.2) / 0.45 = 0.56
+      return confidence.value === 0.56 ? undefined : `確信度が${confidence.value}`;
+    },
+  },
+  {
+    name: "確信度: 決定的な検証結果との一致とLLMの判定の区別",
+    check: () => {
+      const withCheck = estimateConfidence(
+        assessment({
+          evidence: { disclosure: { status: "missing", signals: [], markers: [], notes: [] } },
+        }),
+      );
+      const llmOnly = estimateConfidence(assessment({ modelConfidence: 0.6 }), 0.7);
+      if (withCheck.factors.rules !== 1) return "検証結果と一致していない";
+      if (llmOnly.factors.rules !== 0) return "LLMのみの評価がルールと一致している";
+      return llmOnly.uncertain ? undefined : "しきい値を下回るのに要判断になっていない";
+    },
+  },
+  ...VIOLATION_CODE_CASES.map(({ value, expected }) => ({
+    name: `違反類型の対応付け: ${value.trim()}`,
+    check: () => {
+      const actual = resolveViolationCode(value);
+      return actual === expected ? undefined : `期待=${expected}, 実際=${actual}`;
+    },
+  })),
+];
+
+function main() {
+  console.log("=== スコアリングテスト ===\n");
+
+  let passed = 0;
+  for (const testCase of TEST_CASES) {
+    const failure = testCase.check();
+    if (!failure) passed++;
+
+    const icon = failure ? "❌" : "✅";
+    console.log(`${icon} ${testCase.name}${failure ? `: ${failure}` : ""}`);
+  }
+
+  console.log(`\n合計: ${passed}/${TEST_CASES.length} パス`);
+  if (passed < TEST_CASES.length) {
+    process.exit(1);
+  }
+}
+
+main();
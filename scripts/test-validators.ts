@@ -0,0 +1,274 @@
+/**
+ * 検証ロジックのテストスクリプト
+ * 景品類の上限額・二重価格表示・広告である旨の表示・打消し表示の検証と、
+ * 広告文の正規化・表現の位置の対応付けを確認する（LLM・Embeddingなし）
+ *
+ * 使い方:
+ *   npx tsx scripts/test-validators.ts
+ */
+
+import {
+  checkDisclosure,
+  evaluatePremiums,
+  extractDisclaimers,
+  formatViolationType,
+  PremiumInputError,
+  validateDoublePrices,
+  type RiskAssessment,
+} from "../src/agent/index.js";
+import { normalizeTextWithOffsets, toRawSpan } from "../src/agent/nodes/inputParser.js";
+import { locateSpans } from "../src/agent/nodes/spanLocator.js";
+import { evaluateRecentPeriod } from "../src/agent/validators/index.js";
+
+/**
+ * 表現だけを指定したリスク評価を作成
+ */
+function assessment(expression: string): RiskAssessment {
+  return {
+    expression,
+    riskLevel: "medium",
+    violationCode: "misleading_quality",
+    violationType: formatViolationType("misleading_quality"),
+    reasoning: "r",
+    citations: [],
+    suggestion: "s",
+    source: "llm",
+  };
+}
+
+/**
+ * 広告文中の表現の位置を対応付けて、元の広告文上の範囲の文字列を返す
+ */
+function locate(adText: string, expressions: string[]): (string | undefined)[] {
+  const { text, offsets } = normalizeTextWithOffsets(adText);
+  return locateSpans(adText, text, offsets, expressions.map(assessment)).map((a) =>
+    a.start === undefined || a.end === undefined ? undefined : adText.slice(a.start, a.end),
+  );
+}
+
+/** セール開始日の2週間前（9/16）まで通常価格で販売していた価格履歴 */
+const PRICE_HISTORY_ENTRIES = [
+  { date: "2026-07-01", price: 10000 },
+  { date: "2026-09-17", price: 8000 },
+];
+
+/** テストケース（checkは失敗理由を返し、問題がなければundefined） */
+const TEST_CASES: { name: string; check: () => string | undefined }[] = [
+  {
+    name: "景品類: 一般懸賞の最高額は取引価額5,000円未満なら20倍まで",
+    check: () => {
+      const [check] = evaluatePremiums("3,000円の商品を購入した方の中から抽選で8万円相当の旅行券");
+      if (check?.campaignType !== "general_lottery") return `提供方法が${check?.campaignType}`;
+      if (check.maxPrizeValue !== 60000) return `上限額が${check.maxPrizeValue}`;
+      if (check.status !== "fail") return `判定が${check.status}`;
+      return undefined;
+    },
+  },
+  {
+    name: "景品類: 総付景品の上限は取引価額1,000円未満なら200円",
+    check: () => {
+      const [check] = evaluatePremiums("800円のお弁当を購入した方全員に200円相当のドリンク");
+      if (check?.campaignType !== "total_premium") return `提供方法が${check?.campaignType}`;
+      if (check.maxPrizeValue !== 200) return `上限額が${check.maxPrizeValue}`;
+      if (check.status !== "pass") return `判定が${check.status}`;
+      return undefined;
+    },
+  },
+  {
+    name: "景品類: 明示的な入力は広告文から抽出した値より優先する",
+    check: () => {
+      const [check] = evaluatePremiums("抽選で10万円が当たる", {
+        campaignType: "general_lottery",
+        transactionPrice: 1000,
+      });
+      if (check?.inputSource !== "options") return `入力の出所が${check?.inputSource}`;
+      if (check.prizeValue !== 100000) return `景品類の価額が${check.prizeValue}`;
+      if (check.maxPrizeValue !== 20000) return `上限額が${check.maxPrizeValue}`;
+      if (check.status !== "fail") return `判定が${check.status}`;
+      return undefined;
+    },
+  },
+  {
+    name: "景品類: 提供方法を判定できない入力はエラー",
+    check: () => {
+      try {
+        evaluatePremiums("新商品発売", { transactionPrice: 1000 });
+      } catch (e) {
+        return e instanceof PremiumInputError ? undefined : `想定外のエラー: ${String(e)}`;
+      }
+      return "エラーにならない";
+    },
+  },
+  {
+    name: "二重価格: 割引率と価格の不整合",
+    check: () => {
+      const [check] = validateDoublePrices("通常価格10,000円のところ7,000円（50%OFF）");
+      if (check?.consistent !== false) return "不整合と判定されていない";
+      if (check.impliedDiscountRate !== 30) return `計算した割引率が${check.impliedDiscountRate}`;
+      if (check.status !== "invalid") return `判定が${check.status}`;
+      return undefined;
+    },
+  },
+  {
+    name: "二重価格: 自社の過去価格は根拠が必要",
+    check: () => {
+      const [check] = validateDoublePrices("通常価格10,000円のところ5,000円");
+      if (check?.referenceKind !== "own_past") return `種別が${check?.referenceKind}`;
+      if (check.status !== "needs_evidence") return `判定が${check.status}`;
+      return undefined;
+    },
+  },
+  {
+    name: "二重価格: 最後の販売日から2週間経過していれば最近相当期間とはいえない",
+    check: () => {
+      const history = evaluateRecentPeriod(10000, {
+        entries: PRICE_HISTORY_ENTRIES,
+        saleStartDate: "2026-09-30",
+      });
+      if (history?.lastDateAtReferencePrice !== "2026-09-16") {
+        return `最後の販売日が${history?.lastDateAtReferencePrice}`;
+      }
+      return history.valid ? "最近相当期間と判定されている" : undefined;
+    },
+  },
+  {
+    name: "二重価格: 最後の販売日から2週間未満なら最近相当期間",
+    check: () => {
+      const [check] = validateDoublePrices("通常価格10,000円のところ8,000円", {
+        entries: [PRICE_HISTORY_ENTRIES[0], { date: "2026-09-18", price: 8000 }],
+        saleStartDate: "2026-09-30",
+      });
+      if (check?.history?.valid !== true) return "最近相当期間と判定されていない";
+      if (check.status !== "valid") return `判定が${check.status}`;
+      return undefined;
+    },
+  },
+  {
+    name: "広告である旨の表示: 冒頭の#PR",
+    check: () => {
+      const check = checkDisclosure("#PR ○○社さんからご提供いただきました！");
+      if (check.status !== "adequate") return `判定が${check.status}`;
+      if (check.markers[0]?.position !== "beginning") return `位置が${check.markers[0]?.position}`;
+      return undefined;
+    },
+  },
+  {
+    name: "広告である旨の表示: ハッシュタグに埋もれた#PR",
+    check: () => {
+      const check = checkDisclosure("最高の美容液！ #美容 #スキンケア #コスメ #PR");
+      if (check.status !== "inadequate") return `判定が${check.status}`;
+      if (check.markers[0]?.position !== "buried") return `位置が${check.markers[0]?.position}`;
+      return undefined;
+    },
+  },
+  {
+    name: "広告である旨の表示: 関与がうかがわれるのに表示がない",
+    check: () => {
+      const check = checkDisclosure("○○社さんからご提供いただきました！最高の美容液です");
+      return check.status === "missing" ? undefined : `判定が${check.status}`;
+    },
+  },
+  {
+    name: "打消し表示: 番号付きの注記を参照元と対応付ける",
+    check: () => {
+      const text = "シミが消える※1\n※1 メイクアップ効果による";
+      const [disclaimer] = extractDisclaimers(text);
+      if (disclaimer?.anchor !== "シミが消える") return `参照元が${disclaimer?.anchor}`;
+      if (disclaimer.text !== "メイクアップ効果による") return `本文が${disclaimer.text}`;
+      if (text.slice(disclaimer.start, disclaimer.end) !== "※1 メイクアップ効果による") {
+        return "位置が注記本文と一致しない";
+      }
+      return undefined;
+    },
+  },
+  {
+    name: "打消し表示: 同じ番号を複数の表示が参照する場合は1件にまとめる",
+    check: () => {
+      const disclaimers = extractDisclaimers(
+        "シミが消える※1\n肌が白くなる※1\n※1 メイクアップ効果による",
+      );
+      if (disclaimers.length !== 1) return `${disclaimers.length}件`;
+      if (disclaimers[0].anchor !== "シミが消える／肌が白くなる") {
+        return `参照元が${disclaimers[0].anchor}`;
+      }
+      return undefined;
+    },
+  },
+  {
+    name: "打消し表示: 同じ行の注記と独立した注記",
+    check: () => {
+      const disclaimers = extractDisclaimers("効果抜群※個人の感想です\n※効果には個人差があります");
+      const actual = disclaimers.map((d) => `${d.marker}:${d.anchor ?? "-"}:${d.inline}`);
+      const expected = ["※(1):効果抜群:true", "※(2):-:false"];
+      return actual.join(",") === expected.join(",") ? undefined : `実際=[${actual.join(", ")}]`;
+    },
+  },
+  {
+    name: "正規化: 全角英数字・記号と空白の圧縮",
+    check: () => {
+      const adText = "  業界Ｎｏ．１！　　今だけ  ";
+      const { text, offsets } = normalizeTextWithOffsets(adText);
+      if (text !== "業界No．1! 今だけ") return `正規化後が${text}`;
+      if (offsets.length !== text.length + 1) return "オフセットマップの長さが一致しない";
+      const span = toRawSpan(offsets, text.indexOf("1!"), text.length);
+      if (adText.slice(span.start, span.end) !== "１！　　今だけ") {
+        return `範囲が${span.start}-${span.end}`;
+      }
+      return undefined;
+    },
+  },
+  {
+    name: "位置の対応付け: 正規化前の表記と空白の圧縮",
+    check: () => {
+      const adText = "業界Ｎｏ．１の  品質";
+      const [span] = locate(adText, ["業界No．1の 品質"]);
+      return span === adText ? undefined : `対応付けた範囲が${span}`;
+    },
+  },
+  {
+    name: "位置の対応付け: 同じ表現は未割り当ての出現位置を優先する",
+    check: () => {
+      const adText = "今だけ半額！今だけ送料無料";
+      const { text, offsets } = normalizeTextWithOffsets(adText);
+      const located = locateSpans(adText, text, offsets, [
+        assessment("今だけ"),
+        assessment("「今だけ」"),
+      ]);
+      const actual = located.map((a) => a.start);
+      return actual.join(",") === "0,6" ? undefined : `開始位置が${actual.join(",")}`;
+    },
+  },
+  {
+    name: "位置の対応付け: 見つからない表現は未検証、空の表現は広告全体",
+    check: () => {
+      const { text, offsets } = normalizeTextWithOffsets("新商品発売");
+      const [missing, pageLevel] = locateSpans("新商品発売", text, offsets, [
+        assessment("業界No.1"),
+        assessment(""),
+      ]);
+      if (missing.verified !== false) return "見つからない表現が未検証になっていない";
+      if (pageLevel.verified !== undefined) return "広告全体の評価に検証結果が設定されている";
+      return undefined;
+    },
+  },
+];
+
+function main() {
+  console.log("=== 検証ロジックテスト ===\n");
+
+  let passed = 0;
+  for (const testCase of TEST_CASES) {
+    const failure = testCase.check();
+    if (!failure) passed++;
+
+    const icon = failure ? "❌" : "✅";
+    console.log(`${icon} ${testCase.name}${failure ? `: ${failure}` : ""}`);
+  }
+
+  console.log(`\n合計: ${passed}/${TEST_CASES.length} パス`);
+  if (passed < TEST_CASES.length) {
+    process.exit(1);
+  }
+}
+
+main();
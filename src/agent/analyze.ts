@@ -0,0 +1,260 @@
+/**
+ * 広告文の分析エントリーポイント
+ */
+
+import { createAdLinterGraph } from "./graph.js";
+import { pickAdContext } from "./context.js";
+import { normalizeTextWithOffsets } from "./nodes/inputParser.js";
+import { locateSpans } from "./nodes/spanLocator.js";
+import type { AnalysisCache } from "./cache.js";
+import { UsageTracker, type UsageBudget, type UsageReport } from "./usage.js";
+import { DEFAULT_STRICTNESS } from "./strictness.js";
+import { withEmbeddingListener } from "../retrieval/embeddings.js";
+import type { SearchResult } from "../retrieval/vectorStore.js";
+import type {
+  AgentStateType,
+  AnalysisResult,
+  AnalyzeAdOptions,
+  Claim,
+  RiskAssessment,
+} from "./state.js";
+
+/** ストリーミング分析の進捗イベント */
+export type AnalysisEvent =
+  /** ノードの実行開始 */
+  | { type: "node_start"; node: string; timestamp: string }
+  /** ノードの実行完了 */
+  | { type: "node_end"; node: string; timestamp: string; durationMs: number }
+  /** クレームの抽出結果 */
+  | { type: "claims"; claims: Claim[] }
+  /** RAG検索結果 */
+  | { type: "retrieved_docs"; docs: SearchResult[] }
+  /** 途中経過のリスク評価（ノードごとに更新される） */
+  | { type: "assessments"; node: string; assessments: RiskAssessment[] }
+  /** 最終的な分析結果 */
+  | { type: "result"; result: AnalysisResult };
+
+/** 分析の実行オプション */
+export interface AnalyzeAdRunOptions {
+  /** 分析結果キャッシュ（指定すると同じ条件の分析結果を再利用する） */
+  cache?: AnalysisCache;
+  /** 予算（超える時点でBudgetExceededErrorを投げて分析を中断する） */
+  budget?: UsageBudget;
+}
+
+/** ストリーミング分析の実行オプション */
+export interface AnalyzeAdStreamOptions {
+  /** 中断用のシグナル（abortすると分析を中断する） */
+  signal?: AbortSignal;
+  /** 予算（超える時点でBudgetExceededErrorを投げて分析を中断する） */
+  budget?: UsageBudget;
+}
+
+/**
+ * グラフの最終状態を分析結果に変換
+ */
+export function toAnalysisResult(
+  state: AgentStateType,
+  processingTime: number,
+  usage?: UsageReport,
+): AnalysisResult {
+  return {
+    adText: state.adText,
+    claims: state.claims,
+    riskAssessments: state.riskAssessments,
+    premiumChecks: state.premiumChecks,
+    doublePriceChecks: state.doublePriceChecks,
+    substantiationChecks: state.substantiationChecks,
+    disclaimerChecks: state.disclaimerChecks,
+    disclosureCheck: state.disclosureCheck,
+    overallRisk: state.overallRisk,
+    riskScore: state.riskScore,
+    llmOverallRisk: state.llmOverallRisk,
+    strictness: state.options.strictness ?? DEFAULT_STRICTNESS,
+    summary: state.summary,
+    context: pickAdContext(state.options),
+    processingTime,
+    retrievedDocsCount: state.retrievedDocs.length,
+    retrievedDocs: state.retrievedDocs,
+    review: state.review,
+    usage,
+    riskAnalysisCall: state.riskAnalysisCall,
+    consensus: state.consensus,
+  };
+}
+
+/**
+ * キャッシュ済みの分析結果を今回の広告文に合わせる
+ * 正規化後が同じでも空白等の違いで元の広告文上の位置がずれるため、表現の位置を対応付け直す
+ */
+function adaptCachedResult(cached: AnalysisResult, adText: string): AnalysisResult {
+  if (cached.adText === adText) {
+    return cached;
+  }
+  const { text, offsets } = normalizeTextWithOffsets(adText);
+  return {
+    ...cached,
+    adText,
+    riskAssessments: locateSpans(adText, text, offsets, cached.riskAssessments),
+  };
+}
+
+/**
+ * 広告文の景品表示法リスクを分析
+ *
+ * @param adText - 分析対象の広告文
+ * @param options - 分析オプション（商品カテゴリ・掲載媒体等の前提条件、景品類の取引価額・価額、価格履歴等）
+ * @param runOptions - 実行オプション（分析結果キャッシュ、予算）
+ * @returns 分析結果
+ *
+ * @example
+ * ```typescript
+ * const result = await analyzeAd("業界No.1の効果！今だけ半額！");
+ * console.log(result.overallRisk); // "high"
+ * console.log(result.summary);
+ *
+ * // 景品類の取引価額・価額を明示して上限額を判定
+ * await analyzeAd("抽選で10万円が当たる！", {
+ *   premium: { campaignType: "general_lottery", transactionPrice: 3000, prizeValues: [100000] },
+ * });
+ *
+ * // 商品カテゴリ・掲載媒体に応じたガイドラインを優先して参照
+ * await analyzeAd("飲むだけで痩せる！", { productCategory: "health_food", channel: "sns" });
+ *
+ * // 試験報告書を添付して効果・性能の表示の裏付けを評価
+ * await analyzeAd("1週間で-5kg！", {
+ *   evidence: [await loadEvidenceFile("reports/clinical-test.pdf", "test_report")],
+ * });
+ *
+ * // SNS投稿モードで広告である旨の表示（ステマ規制）も検証
+ * await analyzeAd("○○さんからご提供いただきました！ #美容 #コスメ #提供", { mode: "social" });
+ *
+ * // 価格履歴CSVを渡して二重価格表示の比較対照価格を検証
+ * await analyzeAd("通常価格10,000円が半額の5,000円！", {
+ *   priceHistory: { entries: parsePriceHistoryCsv(csv), saleStartDate: "2024-03-01" },
+ * });
+ *
+ * // 分析結果キャッシュを使って同じ広告文の再分析を省略
+ * const cached = await analyzeAd("今だけ半額！", {}, { cache: new AnalysisCache() });
+ * console.log(cached.cache?.hit);
+ *
+ * // 予算を指定して、超える時点で中断（BudgetExceededError）
+ * const limited = await analyzeAd("今だけ半額！", {}, { budget: { maxCostUsd: 0.05 } });
+ * console.log(limited.usage?.total.costUsd);
+ * ```
+ */
+export async function analyzeAd(
+  adText: string,
+  options: AnalyzeAdOptions = {},
+  runOptions: AnalyzeAdRunOptions = {},
+): Promise<AnalysisResult> {
+  const startTime = Date.now();
+  const { cache } = runOptions;
+  const tracker = new UsageTracker(runOptions.budget);
+
+  const key = cache ? await cache.keyFor(adText, options) : undefined;
+  if (cache && key) {
+    const cached = await cache.get(key);
+    if (cached) {
+      return {
+        ...adaptCachedResult(cached.result, adText),
+        processingTime: Date.now() - startTime,
+        usage: tracker.report(),
+        cache: { hit: true, key, cachedAt: cached.cachedAt },
+      };
+    }
+  }
+
+  // グラフを作成
+  const graph = createAdLinterGraph();
+
+  // 実行（チャットモデルはコールバックで、Embeddingは呼び出しの通知でトークン使用量を集計）
+  const state = await withEmbeddingListener(tracker.recordEmbedding, () =>
+    graph.invoke({ adText, options }, { callbacks: [tracker] }),
+  );
+  const result = toAnalysisResult(state, Date.now() - startTime, tracker.report());
+
+  if (cache && key) {
+    await cache.set(key, result);
+    return { ...result, cache: { hit: false, key } };
+  }
+  return result;
+}
+
+/**
+ * 広告文の景品表示法リスクをストリーミングで分析
+ * ノードの開始・完了、検索結果、途中経過のリスク評価を逐次イベントとして返し、
+ * 最後に分析結果（resultイベント）を返す
+ *
+ * 中断するには、signalをabortするか、for await ループを抜ける
+ *
+ * @example
+ * ```typescript
+ * const controller = new AbortController();
+ * for await (const event of analyzeAdStream(adText, {}, { signal: controller.signal })) {
+ *   if (event.type === "node_start") console.log(`${event.node} 開始`);
+ *   if (event.type === "result") console.log(event.result.overallRisk);
+ * }
+ * ```
+ */
+export async function* analyzeAdStream(
+  adText: string,
+  options: AnalyzeAdOptions = {},
+  streamOptions: AnalyzeAdStreamOptions = {},
+): AsyncGenerator<AnalysisEvent> {
+  const startTime = Date.now();
+  const graph = createAdLinterGraph();
+  const tracker = new UsageTracker(streamOptions.budget);
+
+  const stream = await withEmbeddingListener(tracker.recordEmbedding, () =>
+    graph.stream(
+      { adText, options },
+      {
+        streamMode: ["debug", "updates", "values"],
+        signal: streamOptions.signal,
+        callbacks: [tracker],
+      },
+    ),
+  );
+
+  const nodeStartTimes = new Map<string, number>();
+  let finalState: AgentStateType | undefined;
+
+  for await (const [mode, chunk] of stream) {
+    if (mode === "debug") {
+      // タスク開始をノード開始イベントとして通知
+      if (chunk.type === "task") {
+        const node: string = chunk.payload.name;
+        nodeStartTimes.set(node, Date.now());
+        yield { type: "node_start", node, timestamp: chunk.timestamp };
+      }
+    } else if (mode === "updates") {
+      for (const [node, update] of Object.entries(chunk) as [string, Partial<AgentStateType>][]) {
+        if (update?.claims) {
+          yield { type: "claims", claims: update.claims };
+        }
+        if (update?.retrievedDocs) {
+          yield { type: "retrieved_docs", docs: update.retrievedDocs };
+        }
+        if (update?.riskAssessments) {
+          yield { type: "assessments", node, assessments: update.riskAssessments };
+        }
+        yield {
+          type: "node_end",
+          node,
+          timestamp: new Date().toISOString(),
+          durationMs: Date.now() - (nodeStartTimes.get(node) ?? Date.now()),
+        };
+      }
+    } else if (mode === "values") {
+      finalState = chunk as AgentStateType;
+    }
+  }
+
+  if (finalState) {
+    yield {
+      type: "result",
+      result: toAnalysisResult(finalState, Date.now() - startTime, tracker.report()),
+    };
+  }
+}
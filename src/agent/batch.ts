@@ -0,0 +1,512 @@
+/**
+ * 広告文のバッチ分析
+ * CSV・JSONLで与えた広告文を並列数を制限して分析し、結果をJSONLに逐次書き出す
+ * 出力ファイルに完了済みの行があれば、その行を飛ばして再開できる
+ */
+
+import { createHash } from "crypto";
+import { existsSync } from "fs";
+import { appendFile, mkdir, readFile, writeFile } from "fs/promises";
+import { dirname, extname } from "path";
+import { analyzeAd } from "./analyze.js";
+import type { AnalysisCache } from "./cache.js";
+import { addTokenUsage, emptyTokenUsage, type TokenUsage, type UsageBudget } from "./usage.js";
+import { isAdChannel, isProductCategory } from "./context.js";
+import type { AnalysisResult, AnalyzeAdOptions, RiskAssessment } from "./state.js";
+import type { ViolationCode } from "./taxonomy.js";
+
+/** バッチ入力の読み込みエラー */
+export class BatchInputError extends Error {
+  constructor(
+    message: string,
+    public readonly filePath?: string,
+    public readonly line?: number,
+    public readonly cause?: Error,
+  ) {
+    super(message);
+    this.name = "BatchInputError";
+  }
+}
+
+/** バッチ分析の入力1件 */
+export interface BatchItem {
+  /** 行の識別子（出力・再開時の突き合わせに使う） */
+  id: string;
+  /** 広告文 */
+  text: string;
+  /** 分析オプション（商品カテゴリ・掲載媒体等の前提条件） */
+  options?: AnalyzeAdOptions;
+}
+
+/** 出力JSONLに書き出す分析結果（参照文書の本文は行が大きくなるため件数のみ残す） */
+export type BatchResult = Omit<AnalysisResult, "retrievedDocs">;
+
+/**
+ * 出力JSONLの1行
+ * inputHashは分析した広告文・分析オプションのハッシュ（再開時に入力が変わった行を検出する）
+ */
+export type BatchRecord =
+  | { id: string; inputHash: string; status: "ok"; completedAt: string; result: BatchResult }
+  | { id: string; inputHash: string; status: "error"; completedAt: string; error: string };
+
+/** バッチ分析の実行オプション */
+export interface BatchOptions {
+  /** 結果を書き出すJSONLファイルのパス */
+  outputPath: string;
+  /** 同時に分析する件数（デフォルト: 3） */
+  concurrency?: number;
+  /** 出力ファイルの完了済みの行を飛ばして再開する（デフォルト: true。入力が変わった行は分析し直す。falseの場合は出力ファイルを空にしてすべて分析し直す） */
+  resume?: boolean;
+  /** 分析結果キャッシュ（指定すると同じ条件で分析済みの広告文は再分析しない） */
+  cache?: AnalysisCache;
+  /** 1件あたりの予算（超えた行は失敗として記録する） */
+  budget?: UsageBudget;
+  /** 1件の処理が終わるたびに呼ばれる */
+  onProgress?: (record: BatchRecord, progress: { done: number; total: number }) => void;
+}
+
+/** バッチ分析の集計結果 */
+export interface BatchSummary {
+  /** 入力件数 */
+  total: number;
+  /** 分析に成功した件数（再開前に完了していた件数を含む） */
+  succeeded: number;
+  /** 分析に失敗した件数 */
+  failed: number;
+  /** 再開により今回の実行で飛ばした件数 */
+  skipped: number;
+  /** 総合リスクごとの件数 */
+  byRiskLevel: Record<RiskAssessment["riskLevel"], number>;
+  /** 違反類型のコードごとの指摘件数 */
+  byViolationCode: Partial<Record<ViolationCode, number>>;
+  /** 失敗した行のIDとエラー内容 */
+  failures: { id: string; error: string }[];
+  /** 成功した行のトークン使用量・コストの合計 */
+  usage: TokenUsage;
+}
+
+/** デフォルトの同時実行数 */
+const DEFAULT_CONCURRENCY = 3;
+
+/** CSVの列名と前提条件の対応 */
+const CSV_COLUMNS = {
+  id: "id",
+  text: "text",
+  category: "category",
+  channel: "channel",
+  audience: "audience",
+  periodStart: "period_start",
+  periodEnd: "period_end",
+  mode: "mode",
+} as const;
+
+/**
+ * CSVを行・列に分割（ダブルクォートで囲まれた値の中のカンマ・改行・""に対応）
+ */
+function parseCsvRows(csv: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < csv.length; i++) {
+    const c = csv[i];
+    if (quoted) {
+      if (c === '"' && csv[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (c === '"') {
+        quoted = false;
+      } else {
+        field += c;
+      }
+    } else if (c === '"') {
+      quoted = true;
+    } else if (c === ",") {
+      row.push(field);
+      field = "";
+    } else if (c === "\n" || c === "\r") {
+      if (c === "\r" && csv[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += c;
+    }
+  }
+  if (field.length > 0 || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((r) => r.some((v) => v.trim().length > 0));
+}
+
+/**
+ * 前提条件の値を検証してAnalyzeAdOptionsに変換
+ * @throws {Error} カテゴリ・媒体・モードの値が不正な場合
+ */
+function toOptions(values: {
+  category?: string;
+  channel?: string;
+  audience?: string;
+  periodStart?: string;
+  periodEnd?: string;
+  mode?: string;
+}): AnalyzeAdOptions | undefined {
+  const options: AnalyzeAdOptions = {};
+
+  if (values.category) {
+    if (!isProductCategory(values.category)) {
+      throw new Error(`Unknown product category: ${values.category}`);
+    }
+    options.productCategory = values.category;
+  }
+  if (values.channel) {
+    if (!isAdChannel(values.channel)) {
+      throw new Error(`Unknown channel: ${values.channel}`);
+    }
+    options.channel = values.channel;
+  }
+  if (values.audience) {
+    options.targetAudience = values.audience;
+  }
+  if (values.periodStart || values.periodEnd) {
+    options.campaignPeriod = {
+      start: values.periodStart || undefined,
+      end: values.periodEnd || undefined,
+    };
+  }
+  if (values.mode) {
+    if (values.mode !== "ad" && values.mode !== "social") {
+      throw new Error(`Unknown mode: ${values.mode}`);
+    }
+    options.mode = values.mode;
+  }
+
+  return Object.keys(options).length > 0 ? options : undefined;
+}
+
+/**
+ * CSVをバッチ入力に変換
+ * 1行目はヘッダー行で、id・text列は必須。前提条件は category・channel・audience・period_start・period_end・mode 列で指定する
+ *
+ * @example
+ * ```typescript
+ * parseBatchCsv('id,text,category\nad-1,"今だけ半額！",cosmetics');
+ * // => [{ id: "ad-1", text: "今だけ半額！", options: { productCategory: "cosmetics" } }]
+ * ```
+ * @throws {BatchInputError} 必須列がない、または値が不正な場合
+ */
+export function parseBatchCsv(csv: string): BatchItem[] {
+  const [header, ...rows] = parseCsvRows(csv.replace(/^\uFEFF/, ""));
+  if (!header) {
+    return [];
+  }
+
+  const columns = header.map((h) => h.trim().toLowerCase());
+  const indexOf = (name: string) => columns.indexOf(name);
+  if (indexOf(CSV_COLUMNS.id) === -1 || indexOf(CSV_COLUMNS.text) === -1) {
+    throw new BatchInputError(`CSV header must contain "id" and "text" columns`);
+  }
+
+  return rows.map((row, i) => {
+    const get = (name: string) => {
+      const index = indexOf(name);
+      return index === -1 ? undefined : row[index]?.trim();
+    };
+    try {
+      return toItem(get(CSV_COLUMNS.id), get(CSV_COLUMNS.text), {
+        category: get(CSV_COLUMNS.category),
+        channel: get(CSV_COLUMNS.channel),
+        audience: get(CSV_COLUMNS.audience),
+        periodStart: get(CSV_COLUMNS.periodStart),
+        periodEnd: get(CSV_COLUMNS.periodEnd),
+        mode: get(CSV_COLUMNS.mode),
+      });
+    } catch (e) {
+      throw new BatchInputError(
+        `Invalid CSV row ${i + 2}: ${e instanceof Error ? e.message : String(e)}`,
+        undefined,
+        i + 2,
+        e instanceof Error ? e : undefined,
+      );
+    }
+  });
+}
+
+/**
+ * JSONLをバッチ入力に変換
+ * 各行は { "id": "...", "text": "...", "context": { "category": "...", ... } } の形式（contextは省略可）
+ * contextのキーはCSVの列名と同じ（category・channel・audience・period_start・period_end・mode）
+ *
+ * @throws {BatchInputError} JSONとして不正な行、または値が不正な場合
+ */
+export function parseBatchJsonl(jsonl: string): BatchItem[] {
+  const items: BatchItem[] = [];
+
+  jsonl.split(/\r?\n/).forEach((line, i) => {
+    if (!line.trim()) return;
+    try {
+      const row = JSON.parse(line) as {
+        id?: unknown;
+        text?: unknown;
+        context?: Record<string, unknown>;
+      };
+      const context = row.context ?? {};
+      const str = (value: unknown) =>
+        value === undefined || value === null ? undefined : String(value);
+      items.push(
+        toItem(str(row.id), str(row.text), {
+          category: str(context.category),
+          channel: str(context.channel),
+          audience: str(context.audience),
+          periodStart: str(context.period_start),
+          periodEnd: str(context.period_end),
+          mode: str(context.mode),
+        }),
+      );
+    } catch (e) {
+      throw new BatchInputError(
+        `Invalid JSONL line ${i + 1}: ${e instanceof Error ? e.message : String(e)}`,
+        undefined,
+        i + 1,
+        e instanceof Error ? e : undefined,
+      );
+    }
+  });
+
+  return items;
+}
+
+/**
+ * 入力1件を作成
+ * @throws {Error} id・textがない場合、または前提条件の値が不正な場合
+ */
+function toItem(
+  id: string | undefined,
+  text: string | undefined,
+  context: Parameters<typeof toOptions>[0],
+): BatchItem {
+  if (!id) {
+    throw new Error("id is required");
+  }
+  if (!text || !text.trim()) {
+    throw new Error(`text is required (id: ${id})`);
+  }
+  const options = toOptions(context);
+  return { id, text, ...(options && { options }) };
+}
+
+/**
+ * バッチ入力ファイル（.csv / .jsonl）を読み込み
+ * @throws {BatchInputError} 読み込み失敗時、形式が不正な場合、またはIDが重複している場合
+ */
+export async function loadBatchFile(filePath: string): Promise<BatchItem[]> {
+  let content: string;
+  try {
+    content = await readFile(filePath, "utf-8");
+  } catch (e) {
+    throw new BatchInputError(
+      `Failed to read batch input: ${e instanceof Error ? e.message : String(e)}`,
+      filePath,
+      undefined,
+      e instanceof Error ? e : undefined,
+    );
+  }
+
+  const ext = extname(filePath).toLowerCase();
+  let items: BatchItem[];
+  try {
+    if (ext === ".csv") {
+      items = parseBatchCsv(content);
+    } else if (ext === ".jsonl" || ext === ".ndjson") {
+      items = parseBatchJsonl(content);
+    } else {
+      throw new BatchInputError(`Unsupported batch input format: ${ext}`, filePath);
+    }
+  } catch (e) {
+    if (e instanceof BatchInputError) {
+      throw new BatchInputError(e.message, filePath, e.line, e.cause);
+    }
+    throw e;
+  }
+
+  const seen = new Set<string>();
+  for (const item of items) {
+    if (seen.has(item.id)) {
+      throw new BatchInputError(`Duplicate id in batch input: ${item.id}`, filePath);
+    }
+    seen.add(item.id);
+  }
+
+  return items;
+}
+
+/**
+ * 入力1件のハッシュを作成（広告文・分析オプションが同じなら同じ値になる）
+ */
+function hashItem(item: BatchItem): string {
+  return createHash("sha256")
+    .update(JSON.stringify({ text: item.text, options: item.options ?? {} }))
+    .digest("hex");
+}
+
+/**
+ * 分析結果から出力JSONLに書き出す項目を取り出す
+ */
+function toBatchResult(result: AnalysisResult): BatchResult {
+  const { retrievedDocs: _retrievedDocs, ...rest } = result;
+  return rest;
+}
+
+/**
+ * 出力ファイルから既存の記録を読み込み（IDごとに最後の記録を採用）
+ * 書き込み途中で中断した不完全な行は読み飛ばし、続けて追記できるよう末尾を改行で終える
+ */
+async function loadRecords(outputPath: string): Promise<Map<string, BatchRecord>> {
+  const records = new Map<string, BatchRecord>();
+  if (!existsSync(outputPath)) {
+    return records;
+  }
+
+  const content = await readFile(outputPath, "utf-8");
+  for (const line of content.split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      const record = JSON.parse(line) as BatchRecord;
+      records.set(record.id, record);
+    } catch {
+      // 中断時の書きかけの行
+    }
+  }
+  if (content.length > 0 && !content.endsWith("\n")) {
+    await appendFile(outputPath, "\n");
+  }
+  return records;
+}
+
+/**
+ * 記録から集計結果を作成
+ */
+function summarize(
+  items: BatchItem[],
+  records: Map<string, BatchRecord>,
+  skipped: number,
+): BatchSummary {
+  const summary: BatchSummary = {
+    total: items.length,
+    succeeded: 0,
+    failed: 0,
+    skipped,
+    byRiskLevel: { high: 0, medium: 0, low: 0, none: 0 },
+    byViolationCode: {},
+    failures: [],
+    usage: emptyTokenUsage(),
+  };
+
+  for (const item of items) {
+    const record = records.get(item.id);
+    if (!record) continue;
+    if (record.status === "error") {
+      summary.failed++;
+      summary.failures.push({ id: record.id, error: record.error });
+      continue;
+    }
+    summary.succeeded++;
+    summary.byRiskLevel[record.result.overallRisk]++;
+    if (record.result.usage) {
+      summary.usage = addTokenUsage(summary.usage, record.result.usage.total);
+    }
+    for (const assessment of record.result.riskAssessments) {
+      summary.byViolationCode[assessment.violationCode] =
+        (summary.byViolationCode[assessment.violationCode] ?? 0) + 1;
+    }
+  }
+
+  return summary;
+}
+
+/**
+ * 広告文をバッチ分析
+ * 並列数を制限してanalyzeAdを実行し、1件終わるごとに結果をJSONLに追記する
+ *
+ * - 再開時は出力ファイルで成功済みのIDを飛ばし、失敗した行・未処理の行・前回から広告文や前提条件が変わった行のみ分析する
+ * - 1件の失敗（レート制限等）でバッチ全体は止めず、エラーとして記録する（再実行で再試行される）
+ *
+ * @example
+ * ```typescript
+ * const items = await loadBatchFile("campaign.csv");
+ * const summary = await runBatch(items, { outputPath: "results.jsonl", concurrency: 4 });
+ * console.log(summary.byRiskLevel);
+ * ```
+ */
+export async function runBatch(items: BatchItem[], options: BatchOptions): Promise<BatchSummary> {
+  const {
+    outputPath,
+    concurrency = DEFAULT_CONCURRENCY,
+    resume = true,
+    cache,
+    budget,
+    onProgress,
+  } = options;
+
+  await mkdir(dirname(outputPath), { recursive: true });
+  if (!resume) {
+    await writeFile(outputPath, "");
+  }
+  const records = await loadRecords(outputPath);
+
+  const hashes = new Map(items.map((item) => [item.id, hashItem(item)]));
+  const pending = items.filter((item) => {
+    const record = records.get(item.id);
+    return record?.status !== "ok" || record.inputHash !== hashes.get(item.id);
+  });
+  const skipped = items.length - pending.length;
+
+  // 追記は1件ずつ順番に行い、行が混ざらないようにする
+  let writeQueue: Promise<void> = Promise.resolve();
+  const write = (record: BatchRecord): Promise<void> => {
+    writeQueue = writeQueue.then(() => appendFile(outputPath, `${JSON.stringify(record)}\n`));
+    return writeQueue;
+  };
+
+  let next = 0;
+  let done = 0;
+  const worker = async () => {
+    while (next < pending.length) {
+      const item = pending[next++];
+      const inputHash = hashes.get(item.id) ?? hashItem(item);
+      let record: BatchRecord;
+      try {
+        const result = await analyzeAd(item.text, item.options, { cache, budget });
+        record = {
+          id: item.id,
+          inputHash,
+          status: "ok",
+          completedAt: new Date().toISOString(),
+          result: toBatchResult(result),
+        };
+      } catch (e) {
+        record = {
+          id: item.id,
+          inputHash,
+          status: "error",
+          completedAt: new Date().toISOString(),
+          error: e instanceof Error ? e.message : String(e),
+        };
+      }
+      await write(record);
+      records.set(item.id, record);
+      done++;
+      onProgress?.(record, { done, total: pending.length });
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.max(1, Math.min(concurrency, pending.length)) }, () => worker()),
+  );
+
+  return summarize(items, records, skipped);
+}
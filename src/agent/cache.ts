@@ -0,0 +1,202 @@
+/**
+ * 分析結果キャッシュ
+ * 同じ広告文を同じ条件で再分析しないよう、分析結果をローカルのJSONファイルに保存する
+ *
+ * キャッシュキーは次の要素から求める（いずれかが変わると別のキーになる）
+ * - 正規化済みの広告文（空白・全角半角の違いは同じ広告文とみなす）
+ * - コーパス（ベクトルストア）のバージョン
+ * - LLMプロバイダー・モデル
+ * - Embeddingのプロバイダー・モデル（検索結果が変わるため）
+ * - プロンプトのバージョン
+ * - 分析オプション（前提条件・根拠資料等）
+ */
+
+import { createHash } from "crypto";
+import { existsSync } from "fs";
+import { mkdir, readFile, rm, writeFile } from "fs/promises";
+import { join } from "path";
+import {
+  getEmbeddingModel,
+  getEmbeddingProvider,
+  type EmbeddingProvider,
+} from "../retrieval/embeddings.js";
+import { getCorpusVersion } from "../retrieval/vectorStore.js";
+import { getLLMConfig, getLLMModel, type LLMProvider } from "./llm.js";
+import { normalizeText } from "./nodes/inputParser.js";
+import type { AnalysisResult, AnalyzeAdOptions } from "./state.js";
+
+/**
+ * プロンプトのバージョン
+ * ノードのプロンプト・出力スキーマ・グラフ構成を変更して分析結果が変わる場合は更新する
+ */
+export const PROMPT_VERSION = "6";
+
+/** デフォルトのキャッシュディレクトリ */
+const DEFAULT_CACHE_DIR = "./data/cache/analysis";
+
+/** キャッシュファイル関連のエラー */
+export class AnalysisCacheError extends Error {
+  constructor(
+    message: string,
+    public readonly filePath: string,
+    public readonly cause?: Error,
+  ) {
+    super(message);
+    this.name = "AnalysisCacheError";
+  }
+}
+
+/** キャッシュキーの構成要素 */
+export interface CacheKeyInput {
+  /** 正規化済みの広告文 */
+  normalizedText: string;
+  /** コーパスのバージョン */
+  corpusVersion: string;
+  /** LLMプロバイダー */
+  provider: LLMProvider;
+  /** チャットモデル名 */
+  model: string;
+  /** Embeddingのプロバイダー */
+  embeddingProvider: EmbeddingProvider;
+  /** Embeddingモデル名 */
+  embeddingModel: string;
+  /** プロンプトのバージョン */
+  promptVersion: string;
+  /** 分析オプション */
+  options: AnalyzeAdOptions;
+}
+
+/** 分析結果のキャッシュ利用状況 */
+export interface CacheInfo {
+  /** キャッシュから返した結果か */
+  hit: boolean;
+  /** キャッシュキー */
+  key: string;
+  /** キャッシュに保存した日時（hit=trueの場合） */
+  cachedAt?: string;
+}
+
+/** キャッシュファイルの保存形式 */
+interface CacheEntry {
+  key: string;
+  cachedAt: string;
+  components: Omit<CacheKeyInput, "normalizedText" | "options">;
+  result: AnalysisResult;
+}
+
+/**
+ * キーの順序によらず同じ文字列になるようJSONに変換（undefinedの値は除外）
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map((v) => stableStringify(v ?? null)).join(",")}]`;
+  }
+  if (value !== null && typeof value === "object") {
+    const entries = Object.entries(value)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * 現在のLLM・Embeddingのプロバイダーとモデル名を取得
+ */
+function currentModel(): Pick<
+  CacheKeyInput,
+  "provider" | "model" | "embeddingProvider" | "embeddingModel"
+> {
+  const config = getLLMConfig();
+  return {
+    provider: config.provider,
+    model: getLLMModel(config),
+    embeddingProvider: getEmbeddingProvider(),
+    embeddingModel: getEmbeddingModel(),
+  };
+}
+
+/**
+ * キャッシュキーを作成
+ */
+export function buildCacheKey(input: CacheKeyInput): string {
+  return createHash("sha256").update(stableStringify(input)).digest("hex");
+}
+
+/**
+ * 分析結果のファイルキャッシュ
+ * キーごとに1つのJSONファイルとして保存する
+ * コーパスを再構築するとキーが変わるため古い結果は使われなくなる（ingestで削除もする）
+ */
+export class AnalysisCache {
+  constructor(public readonly dir: string = DEFAULT_CACHE_DIR) {}
+
+  /**
+   * 広告文・分析オプションと現在のコーパス・LLM・Embeddingのモデル・プロンプトのバージョンからキーを作成
+   */
+  async keyFor(adText: string, options: AnalyzeAdOptions = {}): Promise<string> {
+    return buildCacheKey({
+      normalizedText: normalizeText(adText),
+      corpusVersion: await getCorpusVersion(),
+      ...currentModel(),
+      promptVersion: PROMPT_VERSION,
+      options,
+    });
+  }
+
+  /**
+   * キャッシュ済みの分析結果を取得（ない場合・読み込めない場合はundefined）
+   */
+  async get(key: string): Promise<{ result: AnalysisResult; cachedAt: string } | undefined> {
+    const filePath = this.pathFor(key);
+    if (!existsSync(filePath)) {
+      return undefined;
+    }
+    try {
+      const entry = JSON.parse(await readFile(filePath, "utf-8")) as CacheEntry;
+      return entry.key === key ? { result: entry.result, cachedAt: entry.cachedAt } : undefined;
+    } catch {
+      // 書き込み途中で中断した等の壊れたファイルはキャッシュなしとして扱う
+      return undefined;
+    }
+  }
+
+  /**
+   * 分析結果を保存
+   * @throws {AnalysisCacheError} 書き込み失敗時
+   */
+  async set(key: string, result: AnalysisResult): Promise<void> {
+    const filePath = this.pathFor(key);
+    const entry: CacheEntry = {
+      key,
+      cachedAt: new Date().toISOString(),
+      components: {
+        corpusVersion: await getCorpusVersion(),
+        ...currentModel(),
+        promptVersion: PROMPT_VERSION,
+      },
+      result: { ...result, cache: undefined },
+    };
+    try {
+      await mkdir(this.dir, { recursive: true });
+      await writeFile(filePath, JSON.stringify(entry), "utf-8");
+    } catch (e) {
+      throw new AnalysisCacheError(
+        `Failed to write analysis cache: ${e instanceof Error ? e.message : String(e)}`,
+        filePath,
+        e instanceof Error ? e : undefined,
+      );
+    }
+  }
+
+  /**
+   * キャッシュをすべて削除
+   */
+  async clear(): Promise<void> {
+    await rm(this.dir, { recursive: true, force: true });
+  }
+
+  private pathFor(key: string): string {
+    return join(this.dir, `${key}.json`);
+  }
+}
@@ -0,0 +1,141 @@
+/**
+ * ファイル永続化チェックポインター
+ * LangGraphのチェックポイントをローカルのJSONファイルに保存し、プロセスをまたいで再開できるようにする
+ */
+
+import { existsSync, readFileSync } from "fs";
+import { mkdir, writeFile } from "fs/promises";
+import { dirname } from "path";
+import { MemorySaver, type Checkpoint, type CheckpointMetadata } from "@langchain/langgraph";
+import type { RunnableConfig } from "@langchain/core/runnables";
+
+/** チェックポイントファイル関連のエラー */
+export class CheckpointFileError extends Error {
+  constructor(
+    message: string,
+    public readonly filePath: string,
+    public readonly cause?: Error,
+  ) {
+    super(message);
+    this.name = "CheckpointFileError";
+  }
+}
+
+/** ファイル上の保存形式（Uint8ArrayはBase64文字列として保存） */
+interface CheckpointFileData {
+  storage: Record<string, Record<string, Record<string, [string, string, string | undefined]>>>;
+  writes: Record<string, Record<string, [string, string, string]>>;
+}
+
+const toBase64 = (data: Uint8Array): string => Buffer.from(data).toString("base64");
+const fromBase64 = (data: string): Uint8Array => new Uint8Array(Buffer.from(data, "base64"));
+
+/**
+ * JSONファイルに永続化するチェックポインター
+ * 保存内容はMemorySaverと同じで、put/putWritesのたびにファイル全体を書き出す
+ * Note: 1プロセスからの利用を前提とする（複数プロセスからの同時書き込みは想定しない）
+ */
+export class FileCheckpointSaver extends MemorySaver {
+  private pendingSave: Promise<void> = Promise.resolve();
+
+  constructor(public readonly filePath: string) {
+    super();
+    this.load();
+  }
+
+  /**
+   * ファイルからチェックポイントを読み込み
+   * @throws {CheckpointFileError} ファイルの読み込み・パース失敗時
+   */
+  private load(): void {
+    if (!existsSync(this.filePath)) return;
+
+    let data: CheckpointFileData;
+    try {
+      data = JSON.parse(readFileSync(this.filePath, "utf-8")) as CheckpointFileData;
+    } catch (e) {
+      throw new CheckpointFileError(
+        `Failed to load checkpoint file: ${e instanceof Error ? e.message : String(e)}`,
+        this.filePath,
+        e instanceof Error ? e : undefined,
+      );
+    }
+
+    for (const [threadId, namespaces] of Object.entries(data.storage ?? {})) {
+      this.storage[threadId] = {};
+      for (const [ns, checkpoints] of Object.entries(namespaces)) {
+        this.storage[threadId][ns] = {};
+        for (const [id, [checkpoint, metadata, parentId]] of Object.entries(checkpoints)) {
+          this.storage[threadId][ns][id] = [fromBase64(checkpoint), fromBase64(metadata), parentId];
+        }
+      }
+    }
+
+    for (const [key, writes] of Object.entries(data.writes ?? {})) {
+      this.writes[key] = {};
+      for (const [innerKey, [taskId, channel, value]] of Object.entries(writes)) {
+        this.writes[key][innerKey] = [taskId, channel, fromBase64(value)];
+      }
+    }
+  }
+
+  /**
+   * チェックポイントをファイルに書き出し
+   * 書き込みは直列化し、後から呼ばれた保存が先に完了しないようにする
+   */
+  private save(): Promise<void> {
+    const next = this.pendingSave.then(async () => {
+      const data: CheckpointFileData = { storage: {}, writes: {} };
+
+      for (const [threadId, namespaces] of Object.entries(this.storage)) {
+        data.storage[threadId] = {};
+        for (const [ns, checkpoints] of Object.entries(namespaces)) {
+          data.storage[threadId][ns] = {};
+          for (const [id, [checkpoint, metadata, parentId]] of Object.entries(checkpoints)) {
+            data.storage[threadId][ns][id] = [toBase64(checkpoint), toBase64(metadata), parentId];
+          }
+        }
+      }
+
+      for (const [key, writes] of Object.entries(this.writes)) {
+        data.writes[key] = {};
+        for (const [innerKey, [taskId, channel, value]] of Object.entries(writes)) {
+          data.writes[key][innerKey] = [taskId, channel, toBase64(value)];
+        }
+      }
+
+      try {
+        await mkdir(dirname(this.filePath), { recursive: true });
+        await writeFile(this.filePath, JSON.stringify(data), "utf-8");
+      } catch (e) {
+        throw new CheckpointFileError(
+          `Failed to save checkpoint file: ${e instanceof Error ? e.message : String(e)}`,
+          this.filePath,
+          e instanceof Error ? e : undefined,
+        );
+      }
+    });
+    // 失敗しても後続の保存は続けられるようにする
+    this.pendingSave = next.catch(() => undefined);
+    return next;
+  }
+
+  async put(
+    config: RunnableConfig,
+    checkpoint: Checkpoint,
+    metadata: CheckpointMetadata,
+  ): Promise<RunnableConfig> {
+    const result = await super.put(config, checkpoint, metadata);
+    await this.save();
+    return result;
+  }
+
+  async putWrites(
+    config: RunnableConfig,
+    writes: Parameters<MemorySaver["putWrites"]>[1],
+    taskId: string,
+  ): Promise<void> {
+    await super.putWrites(config, writes, taskId);
+    await this.save();
+  }
+}
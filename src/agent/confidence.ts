@@ -0,0 +1,104 @@
+/**
+ * リスク評価の確信度
+ * 個別の評価がどの程度確かかを、複数の要素を重み付けして0〜1の値で求める
+ *
+ * 要素:
+ * - model: LLMが自己申告した確信度（LLMによる評価のみ）
+ * - rules: 決定的なルール・検証の結果と一致するか（一致する場合は1）
+ *   ルールエンジンの検出結果（ruleIds）と、景品類の上限額・二重価格表示・広告である旨の表示の検証結果のみを対象とし、
+ *   LLMによる評価（根拠資料の裏付け・打消し表示の判定）は含めない
+ * - citations: 引用した法令・ガイドラインの件数（2件以上で1）
+ * - retrieval: 引用した文書の検索距離（最も近い文書のコサイン類似度）
+ *
+ * 値を求められない要素（ルール由来の評価のmodel、引用のない評価のretrieval）は除き、
+ * 残りの要素の重みで正規化する
+ */
+
+import type { Citation, RiskAssessment } from "./state.js";
+
+/** 確信度の要素 */
+export type ConfidenceFactor = "model" | "rules" | "citations" | "retrieval";
+
+/** 評価の確信度 */
+export interface AssessmentConfidence {
+  /** 確信度（0〜1） */
+  value: number;
+  /** 要素ごとの値（求められなかった要素は含まない） */
+  factors: Partial<Record<ConfidenceFactor, number>>;
+  /** しきい値を下回り、人による判断が必要か */
+  uncertain: boolean;
+}
+
+/** 要素ごとの重み */
+export const CONFIDENCE_WEIGHTS: Record<ConfidenceFactor, number> = {
+  model: 0.4,
+  rules: 0.25,
+  citations: 0.2,
+  retrieval: 0.15,
+};
+
+/** デフォルトの確信度のしきい値（これを下回る評価は人による判断が必要とする） */
+export const DEFAULT_CONFIDENCE_THRESHOLD = 0.5;
+
+/** 引用の件数の要素が1になる件数 */
+const FULL_CITATION_COUNT = 2;
+
+/**
+ * 検索距離を類似度に変換
+ * 正規化済みベクトルのL2距離（二乗）はコサイン類似度と d = 2 - 2cos の関係にある
+ */
+function distanceToSimilarity(distance: number): number {
+  return Math.min(1, Math.max(0, 1 - distance / 2));
+}
+
+/**
+ * 引用した文書のうち最も近い文書の類似度を求める（引用がない場合はundefined）
+ */
+function retrievalSimilarity(citations: Citation[]): number | undefined {
+  if (citations.length === 0) {
+    return undefined;
+  }
+  return distanceToSimilarity(Math.min(...citations.map((c) => c.relevanceScore)));
+}
+
+/**
+ * 決定的なルール・検証の結果と一致するかを判定
+ */
+function matchesDeterministicCheck(assessment: RiskAssessment): boolean {
+  const { ruleIds, evidence } = assessment;
+  return (
+    (ruleIds?.length ?? 0) > 0 ||
+    evidence?.premiumLimit !== undefined ||
+    evidence?.doublePrice !== undefined ||
+    evidence?.disclosure !== undefined
+  );
+}
+
+/**
+ * 評価の確信度を求める
+ */
+export function estimateConfidence(
+  assessment: RiskAssessment,
+  threshold: number = DEFAULT_CONFIDENCE_THRESHOLD,
+): AssessmentConfidence {
+  const factors: Partial<Record<ConfidenceFactor, number>> = {
+    model: assessment.modelConfidence,
+    rules: matchesDeterministicCheck(assessment) ? 1 : 0,
+    citations: Math.min(1, assessment.citations.length / FULL_CITATION_COUNT),
+    retrieval: retrievalSimilarity(assessment.citations),
+  };
+
+  let total = 0;
+  let weightSum = 0;
+  for (const [factor, value] of Object.entries(factors) as [ConfidenceFactor, number?][]) {
+    if (value === undefined) {
+      delete factors[factor];
+      continue;
+    }
+    total += value * CONFIDENCE_WEIGHTS[factor];
+    weightSum += CONFIDENCE_WEIGHTS[factor];
+  }
+
+  const value = weightSum > 0 ? Math.round((total / weightSum) * 100) / 100 : 0;
+  return { value, factors, uncertain: value < threshold };
+}
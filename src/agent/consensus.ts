@@ -0,0 +1,254 @@
+/**
+ * 複数モデルによる合議（コンセンサス）
+ * 複数のLLMプロバイダーのリスク評価を表現ごとに対応付け、方針に従ってリスクレベルを決める
+ * モデル間で判断が分かれた指摘は、法務レビューで優先的に確認できるよう印を付ける
+ */
+
+import type { LLMCallRecord } from "./fallback.js";
+import type { LLMProvider } from "./llm.js";
+import { RISK_ORDER } from "./scoring.js";
+import type { RiskAssessment } from "./state.js";
+import type { ViolationCode } from "./taxonomy.js";
+
+type RiskLevel = RiskAssessment["riskLevel"];
+
+/**
+ * リスクレベルの決め方
+ * - max: 最も高いリスクレベル
+ * - majority: 最も多いリスクレベル（同数の場合は高い方）
+ * - weighted: プロバイダーの重みで加重平均したリスクレベル
+ */
+export type ConsensusPolicy = "max" | "majority" | "weighted";
+
+/** 合議モードの設定 */
+export interface ConsensusOptions {
+  /** 評価に使うプロバイダー（並列に実行する） */
+  providers: LLMProvider[];
+  /** リスクレベルの決め方（デフォルト: "majority"） */
+  policy?: ConsensusPolicy;
+  /** weightedの場合のプロバイダーごとの重み（未指定は1） */
+  weights?: Partial<Record<LLMProvider, number>>;
+}
+
+/** 1つのモデルの判断 */
+export interface ModelVote {
+  /** プロバイダー */
+  provider: LLMProvider;
+  /** モデル名 */
+  model: string;
+  /** リスクレベル（このモデルが指摘しなかった場合は "none"） */
+  riskLevel: RiskLevel;
+  /** 違反類型のコード（指摘しなかった場合は未設定） */
+  violationCode?: ViolationCode;
+  /** 違反類型（指摘しなかった場合は未設定） */
+  violationType?: string;
+  /** 判断理由（指摘しなかった場合は未設定） */
+  reasoning?: string;
+}
+
+/** 指摘ごとのモデル間の合意状況 */
+export interface AssessmentConsensus {
+  /** リスクレベルの決め方 */
+  policy: ConsensusPolicy;
+  /** モデルごとの判断 */
+  votes: ModelVote[];
+  /** 決定したリスクレベルと同じ判断をしたモデルの割合（0〜1） */
+  agreement: number;
+  /** モデル間で判断が分かれたか */
+  disagreement: boolean;
+}
+
+/** 1つのモデルによるリスク評価の結果 */
+export interface ModelRun {
+  /** プロバイダー */
+  provider: LLMProvider;
+  /** モデル名 */
+  model: string;
+  /** リスク評価 */
+  assessments: RiskAssessment[];
+  /** 総合リスクレベル */
+  overallRisk: RiskLevel;
+  /** サマリー */
+  summary: string;
+  /** LLM呼び出しの記録 */
+  call: LLMCallRecord;
+}
+
+/** 合議に参加したモデルの結果 */
+export interface ConsensusParticipant {
+  /** プロバイダー */
+  provider: LLMProvider;
+  /** モデル名 */
+  model: string;
+  /** 総合リスクレベル（失敗した場合は未設定） */
+  overallRisk?: RiskLevel;
+  /** LLM呼び出しの記録（失敗した場合は未設定） */
+  call?: LLMCallRecord;
+  /** 失敗した場合のエラーメッセージ */
+  error?: string;
+}
+
+/** 合議の結果 */
+export interface ConsensusReport {
+  /** リスクレベルの決め方 */
+  policy: ConsensusPolicy;
+  /** 参加したモデル */
+  participants: ConsensusParticipant[];
+  /** 総合リスクレベルのモデル間の合意状況 */
+  overall: AssessmentConsensus;
+  /** モデル間で判断が分かれた指摘の数 */
+  disagreements: number;
+}
+
+/** 順序からリスクレベルへの変換 */
+const RISK_LEVELS: RiskLevel[] = ["none", "low", "medium", "high"];
+
+/** ポリシーの表示名 */
+export const CONSENSUS_POLICY_LABELS: Record<ConsensusPolicy, string> = {
+  max: "最大",
+  majority: "多数決",
+  weighted: "重み付き",
+};
+
+/**
+ * モデルごとの判断からリスクレベルを決める
+ */
+export function combineRiskLevels(
+  votes: Pick<ModelVote, "provider" | "riskLevel">[],
+  policy: ConsensusPolicy,
+  weights: ConsensusOptions["weights"] = {},
+): RiskLevel {
+  if (votes.length === 0) {
+    return "none";
+  }
+
+  switch (policy) {
+    case "max":
+      return votes.reduce<RiskLevel>(
+        (max, v) => (RISK_ORDER[v.riskLevel] > RISK_ORDER[max] ? v.riskLevel : max),
+        "none",
+      );
+
+    case "majority": {
+      const counts = new Map<RiskLevel, number>();
+      for (const vote of votes) {
+        counts.set(vote.riskLevel, (counts.get(vote.riskLevel) ?? 0) + 1);
+      }
+      // 同数の場合は見逃しを避けるため高い方を採用する
+      return [...counts].reduce((best, current) =>
+        current[1] > best[1] ||
+        (current[1] === best[1] && RISK_ORDER[current[0]] > RISK_ORDER[best[0]])
+          ? current
+          : best,
+      )[0];
+    }
+
+    case "weighted": {
+      let total = 0;
+      let weightSum = 0;
+      for (const vote of votes) {
+        const weight = weights[vote.provider] ?? 1;
+        total += RISK_ORDER[vote.riskLevel] * weight;
+        weightSum += weight;
+      }
+      return weightSum > 0 ? RISK_LEVELS[Math.round(total / weightSum)] : "none";
+    }
+  }
+}
+
+/**
+ * モデルごとの判断から合意状況を求める
+ */
+function toConsensus(
+  votes: ModelVote[],
+  options: ConsensusOptions & { policy: ConsensusPolicy },
+): { riskLevel: RiskLevel; consensus: AssessmentConsensus } {
+  const riskLevel = combineRiskLevels(votes, options.policy, options.weights);
+  const agreeing = votes.filter((v) => v.riskLevel === riskLevel).length;
+  return {
+    riskLevel,
+    consensus: {
+      policy: options.policy,
+      votes,
+      agreement: votes.length > 0 ? agreeing / votes.length : 1,
+      disagreement: new Set(votes.map((v) => v.riskLevel)).size > 1,
+    },
+  };
+}
+
+/**
+ * 同じ表現に対する評価か（一方が他方を含む場合も同じとみなす）
+ */
+function sameExpression(a: string, b: string): boolean {
+  const x = a.trim();
+  const y = b.trim();
+  return x.length > 0 && y.length > 0 && (x.includes(y) || y.includes(x));
+}
+
+/**
+ * 複数モデルのリスク評価を表現ごとに対応付け、方針に従って1つの評価結果にまとめる
+ *
+ * - あるモデルが指摘しなかった表現は、そのモデルの判断を "none" として数える
+ * - 違反類型・判断理由・改善提案は、決定したリスクレベルと同じ判断をしたモデルの評価を採用する
+ */
+export function buildConsensus(
+  runs: ModelRun[],
+  options: ConsensusOptions,
+): {
+  assessments: RiskAssessment[];
+  overallRisk: RiskLevel;
+  summary: string;
+  overall: AssessmentConsensus;
+} {
+  const resolved = { ...options, policy: options.policy ?? "majority" };
+
+  // 表現ごとに異なるモデルの評価をまとめる
+  // 同じモデルの評価どうしはまとめない（1つのモデルが別々に指摘した表現は別の評価として残す）
+  const groups: { expression: string; byRun: Map<number, RiskAssessment> }[] = [];
+  runs.forEach((run, runIndex) => {
+    for (const assessment of run.assessments) {
+      const candidates = groups.filter(
+        (g) => !g.byRun.has(runIndex) && sameExpression(g.expression, assessment.expression),
+      );
+      // 表現が完全に一致するまとまりを優先する
+      let group =
+        candidates.find((g) => g.expression.trim() === assessment.expression.trim()) ??
+        candidates[0];
+      if (!group) {
+        group = { expression: assessment.expression, byRun: new Map() };
+        groups.push(group);
+      }
+      group.byRun.set(runIndex, assessment);
+    }
+  });
+
+  const assessments = groups.map((group) => {
+    const votes: ModelVote[] = runs.map((run, runIndex) => {
+      const assessment = group.byRun.get(runIndex);
+      return {
+        provider: run.provider,
+        model: run.model,
+        riskLevel: assessment?.riskLevel ?? "none",
+        violationCode: assessment?.violationCode,
+        violationType: assessment?.violationType,
+        reasoning: assessment?.reasoning,
+      };
+    });
+    const { riskLevel, consensus } = toConsensus(votes, resolved);
+    const candidates = [...group.byRun.values()];
+    const base =
+      candidates.find((a) => a.riskLevel === riskLevel) ??
+      candidates.reduce((max, a) =>
+        RISK_ORDER[a.riskLevel] > RISK_ORDER[max.riskLevel] ? a : max,
+      );
+    return { ...base, riskLevel, consensus };
+  });
+
+  const { riskLevel: overallRisk, consensus: overall } = toConsensus(
+    runs.map((run) => ({ provider: run.provider, model: run.model, riskLevel: run.overallRisk })),
+    resolved,
+  );
+  const summary = (runs.find((run) => run.overallRisk === overallRisk) ?? runs[0])?.summary ?? "";
+
+  return { assessments, overallRisk, summary, overall };
+}
@@ -0,0 +1,157 @@
+/**
+ * 広告の前提条件（商品カテゴリ・媒体・対象者・キャンペーン期間）
+ * カテゴリ・媒体ごとに参照すべきガイドラインが異なるため、検索対象とプロンプトに反映する
+ */
+
+/** 商品・サービスのカテゴリ */
+export type ProductCategory =
+  | "health_food"
+  | "cosmetics"
+  | "food"
+  | "real_estate"
+  | "telecom"
+  | "nursing_home"
+  | "finance"
+  | "general";
+
+/** 広告の掲載媒体 */
+export type AdChannel = "tv" | "sns" | "web" | "ec" | "print" | "email" | "outdoor";
+
+/** キャンペーン期間（YYYY-MM-DD） */
+export interface CampaignPeriod {
+  start?: string;
+  end?: string;
+}
+
+/** 広告の前提条件 */
+export interface AdContext {
+  /** 商品・サービスのカテゴリ */
+  productCategory?: ProductCategory;
+  /** 掲載媒体 */
+  channel?: AdChannel;
+  /** 対象者（例: "40代女性", "高齢者"） */
+  targetAudience?: string;
+  /** キャンペーン期間 */
+  campaignPeriod?: CampaignPeriod;
+}
+
+/** 商品カテゴリの表示名 */
+export const PRODUCT_CATEGORY_LABELS: Record<ProductCategory, string> = {
+  health_food: "健康食品",
+  cosmetics: "化粧品",
+  food: "食品・飲食店",
+  real_estate: "不動産",
+  telecom: "通信サービス",
+  nursing_home: "有料老人ホーム",
+  finance: "消費者信用・金融",
+  general: "一般商品",
+};
+
+/** 掲載媒体の表示名 */
+export const AD_CHANNEL_LABELS: Record<AdChannel, string> = {
+  tv: "テレビCM",
+  sns: "SNS",
+  web: "Webサイト・LP",
+  ec: "ECサイト",
+  print: "紙媒体（チラシ・雑誌）",
+  email: "メール",
+  outdoor: "屋外広告",
+};
+
+/**
+ * 商品カテゴリかを判定
+ */
+export function isProductCategory(value: string): value is ProductCategory {
+  return Object.hasOwn(PRODUCT_CATEGORY_LABELS, value);
+}
+
+/**
+ * 掲載媒体かを判定
+ */
+export function isAdChannel(value: string): value is AdChannel {
+  return Object.hasOwn(AD_CHANNEL_LABELS, value);
+}
+
+/**
+ * 商品カテゴリごとに優先して参照するガイドライン（ファイル名。data/loaders/guideline.tsのGUIDELINE_PDFSと対応）
+ * 健康食品・化粧品は効果効能の根拠が問題になりやすいため不実証広告規制の指針を参照する
+ */
+const PRODUCT_CATEGORY_GUIDELINES: Record<ProductCategory, string[]> = {
+  health_food: ["16-unsubstantiated-claims.pdf", "22-internet-advertising.pdf"],
+  cosmetics: ["16-unsubstantiated-claims.pdf", "20-comparison-advertising.pdf"],
+  food: ["23-menu-food-display.pdf", "10-no-fruit-juice.pdf", "07-origin-country.pdf"],
+  real_estate: ["13-real-estate-decoy.pdf", "12-decoy-advertising.pdf"],
+  telecom: ["28-mobile-terminal-sales.pdf", "29-mobile-terminal-mnp.pdf"],
+  nursing_home: ["14-nursing-home.pdf"],
+  finance: ["11-consumer-credit.pdf", "19-installment-price.pdf"],
+  general: [],
+};
+
+/** 掲載媒体ごとに優先して参照するガイドライン（ファイル名） */
+const AD_CHANNEL_GUIDELINES: Record<AdChannel, string[]> = {
+  tv: [],
+  sns: ["15-stealth-marketing.pdf", "22-internet-advertising.pdf"],
+  web: ["22-internet-advertising.pdf"],
+  ec: ["21-ec-display.pdf", "22-internet-advertising.pdf"],
+  print: [],
+  email: ["22-internet-advertising.pdf"],
+  outdoor: [],
+};
+
+/**
+ * 前提条件から優先して参照するガイドラインのファイル名を取得
+ */
+export function getContextGuidelines(context: AdContext): string[] {
+  const filenames = [
+    ...(context.productCategory ? PRODUCT_CATEGORY_GUIDELINES[context.productCategory] : []),
+    ...(context.channel ? AD_CHANNEL_GUIDELINES[context.channel] : []),
+  ];
+  return [...new Set(filenames)];
+}
+
+/**
+ * 分析オプションから前提条件を取り出す（指定されていない項目は含めない）
+ */
+export function pickAdContext(options: AdContext): AdContext {
+  const context: AdContext = {};
+  if (options.productCategory) context.productCategory = options.productCategory;
+  if (options.channel) context.channel = options.channel;
+  if (options.targetAudience) context.targetAudience = options.targetAudience;
+  if (options.campaignPeriod) context.campaignPeriod = options.campaignPeriod;
+  return context;
+}
+
+/**
+ * 前提条件を検索クエリに付与するキーワードに変換
+ */
+export function contextQueryHint(context: AdContext): string {
+  return [
+    context.productCategory ? PRODUCT_CATEGORY_LABELS[context.productCategory] : "",
+    context.channel ? AD_CHANNEL_LABELS[context.channel] : "",
+  ]
+    .filter((s) => s.length > 0)
+    .join(" ");
+}
+
+/**
+ * 前提条件をプロンプト用にフォーマット
+ */
+export function formatAdContext(context: AdContext): string {
+  const lines: string[] = [];
+
+  if (context.productCategory) {
+    lines.push(`- 商品カテゴリ: ${PRODUCT_CATEGORY_LABELS[context.productCategory]}`);
+  }
+  if (context.channel) {
+    lines.push(`- 掲載媒体: ${AD_CHANNEL_LABELS[context.channel]}`);
+  }
+  if (context.targetAudience) {
+    lines.push(`- 対象者: ${context.targetAudience}`);
+  }
+  if (context.campaignPeriod) {
+    const { start, end } = context.campaignPeriod;
+    lines.push(`- キャンペーン期間: ${start ?? "（開始日未定）"}〜${end ?? "（終了日未定）"}`);
+  }
+
+  return lines.length > 0 ? lines.join("\n") : "（指定なし）";
+}
@@ -0,0 +1,236 @@
+/**
+ * 分析結果に対するフォローアップ質問
+ * 分析結果・参照文書・会話履歴をスレッドに保持し、分析全体を再実行せずに追加の質問へ回答する
+ */
+
+import { randomUUID } from "crypto";
+import { z } from "zod";
+import { getLLM } from "./llm.js";
+import { multiSearch, type SearchResult } from "../retrieval/vectorStore.js";
+import { buildCitations, formatDocuments } from "./nodes/riskAnalyzer.js";
+import type { AnalysisResult, Citation, RiskAssessment } from "./state.js";
+
+/** 会話のメッセージ */
+export interface ConversationMessage {
+  /** 発言者 */
+  role: "user" | "assistant";
+  /** 本文 */
+  content: string;
+  /** 回答の根拠となった文書（assistantのみ） */
+  citations?: Citation[];
+  /** 回答が言及したリスク評価のインデックス（assistantのみ） */
+  relatedAssessments?: number[];
+}
+
+/** 分析結果に対する会話スレッド */
+export interface ConversationThread {
+  /** スレッドID */
+  id: string;
+  /** 対象の分析結果 */
+  result: AnalysisResult;
+  /** これまでに取得した参照文書（分析時の文書とフォローアップで追加検索した文書） */
+  documents: SearchResult[];
+  /** 会話履歴 */
+  history: ConversationMessage[];
+}
+
+/** フォローアップ質問への回答 */
+export interface FollowUpAnswer {
+  /** 回答本文 */
+  answer: string;
+  /** 根拠となった文書 */
+  citations: Citation[];
+  /** 回答が言及したリスク評価のインデックス */
+  relatedAssessments: number[];
+  /** この質問で追加検索した文書数 */
+  retrievedDocsCount: number;
+}
+
+/** 検索・プロンプトの設定 */
+const FOLLOW_UP_CONFIG = {
+  /** 各ソースからの取得件数 */
+  limitPerSource: 3,
+  /** プロンプトに含める文書の最大数 */
+  maxContextDocs: 10,
+  /** プロンプトに含める会話履歴の最大メッセージ数 */
+  maxHistoryMessages: 6,
+};
+
+/** 回答の出力スキーマ */
+const FollowUpSchema = z.object({
+  answer: z.string().describe("質問への回答（広告担当者向けの日本語）"),
+  citedDocIds: z.array(z.string()).describe("回答の根拠として参照した文書のID"),
+  relatedAssessments: z
+    .array(z.number())
+    .describe("回答が言及したリスク評価の番号（該当なしの場合は空配列）"),
+});
+
+/** フォローアップ質問プロンプト */
+const FOLLOW_UP_PROMPT = `あなたは景品表示法の専門家です。
+以下の広告文の分析結果について、広告担当者から追加の質問を受けています。
+分析結果と参照文書に基づいて質問に回答してください。
+
+## 広告文
+{adText}
+
+## 分析結果
+総合リスク: {overallRisk}
+{summary}
+
+## 指摘されたリスク
+{assessments}
+
+## 参照可能な法令・ガイドライン・Q&A
+{documents}
+
+## これまでの会話
+{history}
+
+## 質問
+{question}
+
+## 回答ルール
+- 根拠とした文書のIDをcitedDocIdsに含めてください（参照文書にない内容を根拠として示さないでください）
+- 表現の修正案を問われた場合は、修正後も残るリスクがあれば併せて説明してください
+- 参照文書から判断できない場合は、その旨と確認すべき事項を回答してください`;
+
+/**
+ * 分析結果から会話スレッドを作成
+ */
+export function createConversation(result: AnalysisResult): ConversationThread {
+  return {
+    id: randomUUID(),
+    result,
+    documents: [...result.retrievedDocs],
+    history: [],
+  };
+}
+
+/**
+ * 指摘されたリスクを番号付きでフォーマット
+ */
+function formatAssessments(assessments: RiskAssessment[]): string {
+  if (assessments.length === 0) {
+    return "（個別の指摘なし）";
+  }
+
+  return assessments
+    .map(
+      (a, i) =>
+        `[${i}] "${a.expression}"（${a.riskLevel} / ${a.violationType}）\n  理由: ${a.reasoning}\n  改善提案: ${a.suggestion}`,
+    )
+    .join("\n");
+}
+
+/**
+ * 会話履歴をフォーマット（直近のメッセージのみ）
+ */
+function formatHistory(history: ConversationMessage[]): string {
+  if (history.length === 0) {
+    return "（なし）";
+  }
+
+  return history
+    .slice(-FOLLOW_UP_CONFIG.maxHistoryMessages)
+    .map((m) => `${m.role === "user" ? "質問" : "回答"}: ${m.content}`)
+    .join("\n");
+}
+
+/**
+ * 文書を統合（同一IDは先に出現したものを残す）
+ */
+function mergeDocuments(...docSets: SearchResult[][]): SearchResult[] {
+  const byId = new Map<string, SearchResult>();
+  for (const doc of docSets.flat()) {
+    if (!byId.has(doc.id)) {
+      byId.set(doc.id, doc);
+    }
+  }
+  return [...byId.values()];
+}
+
+/**
+ * 質問が言及している表現のリスク評価を探す
+ */
+function findMentionedAssessments(
+  question: string,
+  assessments: RiskAssessment[],
+): RiskAssessment[] {
+  return assessments.filter((a) => a.expression.length > 0 && question.includes(a.expression));
+}
+
+/**
+ * 会話スレッドにフォローアップ質問を送信
+ * 質問ごとにRAG検索を追加で実行し、分析時の文書と合わせて回答する
+ * Note: スレッドの会話履歴と参照文書は更新される
+ *
+ * @example
+ * ```typescript
+ * const thread = createConversation(await analyzeAd("顧客満足度98%！"));
+ * const { answer, citations } = await askFollowUp(thread, "なぜ満足度98%が高リスクなのですか？");
+ * ```
+ */
+export async function askFollowUp(
+  thread: ConversationThread,
+  question: string,
+): Promise<FollowUpAnswer> {
+  const trimmed = question.trim();
+  if (trimmed.length === 0) {
+    throw new Error("Question cannot be empty");
+  }
+
+  const { result } = thread;
+
+  // 質問が言及している表現の違反類型を検索クエリに加える
+  const mentioned = findMentionedAssessments(trimmed, result.riskAssessments);
+  const query = [trimmed, ...mentioned.map((a) => a.violationType)].join(" ");
+
+  const newDocs = await multiSearch(query, {
+    limitPerSource: FOLLOW_UP_CONFIG.limitPerSource,
+  });
+
+  // 追加検索した文書・言及された評価の引用文書を優先し、残りを分析時の文書で埋める
+  const mentionedIds = new Set(mentioned.flatMap((a) => a.citations.map((c) => c.id)));
+  const contextDocs = mergeDocuments(
+    newDocs,
+    thread.documents.filter((d) => mentionedIds.has(d.id)),
+    thread.documents,
+  ).slice(0, FOLLOW_UP_CONFIG.maxContextDocs);
+
+  const llm = getLLM();
+  const structuredLlm = llm.withStructuredOutput<z.infer<typeof FollowUpSchema>>(FollowUpSchema, {
+    name: "follow_up",
+  });
+
+  const prompt = FOLLOW_UP_PROMPT.replace("{adText}", result.adText)
+    .replace("{overallRisk}", result.overallRisk)
+    .replace("{summary}", result.summary)
+    .replace("{assessments}", formatAssessments(result.riskAssessments))
+    .replace("{documents}", formatDocuments(contextDocs))
+    .replace("{history}", formatHistory(thread.history))
+    .replace("{question}", trimmed);
+
+  const response = await structuredLlm.invoke(prompt);
+
+  const answer: FollowUpAnswer = {
+    answer: response.answer,
+    citations: buildCitations(response.citedDocIds, contextDocs),
+    relatedAssessments: response.relatedAssessments.filter(
+      (i) => Number.isInteger(i) && i >= 0 && i < result.riskAssessments.length,
+    ),
+    retrievedDocsCount: newDocs.length,
+  };
+
+  thread.documents = mergeDocuments(thread.documents, newDocs);
+  thread.history.push(
+    { role: "user", content: trimmed },
+    {
+      role: "assistant",
+      content: answer.answer,
+      citations: answer.citations,
+      relatedAssessments: answer.relatedAssessments,
+    },
+  );
+
+  return answer;
+}
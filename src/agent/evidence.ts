@@ -0,0 +1,112 @@
+/**
+ * 根拠資料（不実証広告規制）
+ * 効果・性能の表示を裏付ける試験報告書・調査結果等を読み込む
+ */
+
+import { readFile } from "fs/promises";
+import { basename, extname } from "path";
+import { loadPdf } from "../data/loaders/pdf.js";
+
+/** 根拠資料の読み込みエラー */
+export class EvidenceLoadError extends Error {
+  constructor(
+    message: string,
+    public readonly filePath: string,
+    public readonly cause?: Error,
+  ) {
+    super(message);
+    this.name = "EvidenceLoadError";
+  }
+}
+
+/** 根拠資料の種類 */
+export type EvidenceKind = "test_report" | "survey" | "other";
+
+/** 根拠資料 */
+export interface EvidenceDocument {
+  /** 資料ID（例: "evidence-1"。省略時は読み込み順に採番） */
+  id?: string;
+  /** 資料名 */
+  title: string;
+  /** 種類 */
+  kind: EvidenceKind;
+  /** 本文テキスト */
+  text: string;
+}
+
+/** 根拠資料による裏付けの判定 */
+export type SubstantiationCoverage = "covered" | "weak" | "uncovered";
+
+/** 効果・性能の表示に対する根拠資料の評価結果 */
+export interface SubstantiationCheck {
+  /** 対象のクレームID */
+  claimId: string;
+  /** 対象の表示 */
+  expression: string;
+  /** 判定（covered: 裏付けあり / weak: 裏付けが不十分 / uncovered: 該当する資料なし） */
+  coverage: SubstantiationCoverage;
+  /** 裏付けとなった資料のID */
+  evidenceIds: string[];
+  /** 判定理由 */
+  reasoning: string;
+  /** 不足している点（試験条件の相違、被験者数の不足等） */
+  gaps: string[];
+}
+
+/** 根拠資料の種類の表示名 */
+export const EVIDENCE_KIND_LABELS: Record<EvidenceKind, string> = {
+  test_report: "試験報告書",
+  survey: "調査結果",
+  other: "その他資料",
+};
+
+/**
+ * 根拠資料のファイルを読み込み
+ * PDFはloadPdfでテキストを抽出し、それ以外はテキストファイルとして読み込む
+ * @throws {EvidenceLoadError} 読み込み失敗時
+ */
+export async function loadEvidenceFile(
+  filePath: string,
+  kind: EvidenceKind = "other",
+): Promise<EvidenceDocument> {
+  const title = basename(filePath);
+
+  if (extname(filePath).toLowerCase() === ".pdf") {
+    try {
+      const doc = await loadPdf(filePath, { includePageNumbers: false });
+      return { title: doc.title || title, kind, text: doc.text };
+    } catch (e) {
+      throw new EvidenceLoadError(
+        `Failed to load evidence PDF: ${e instanceof Error ? e.message : String(e)}`,
+        filePath,
+        e instanceof Error ? e : undefined,
+      );
+    }
+  }
+
+  let text: string;
+  try {
+    text = await readFile(filePath, "utf-8");
+  } catch (e) {
+    throw new EvidenceLoadError(
+      `Failed to read evidence file: ${e instanceof Error ? e.message : String(e)}`,
+      filePath,
+      e instanceof Error ? e : undefined,
+    );
+  }
+
+  if (text.trim().length === 0) {
+    throw new EvidenceLoadError(`Evidence file is empty: ${filePath}`, filePath);
+  }
+
+  return { title, kind, text };
+}
+
+/**
+ * 根拠資料にIDを採番（指定済みのIDはそのまま使用）
+ */
+export function assignEvidenceIds(
+  documents: EvidenceDocument[],
+): (EvidenceDocument & { id: string })[] {
+  return documents.map((doc, i) => ({ ...doc, id: doc.id ?? `evidence-${i + 1}` }));
+}
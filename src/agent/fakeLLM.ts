@@ -0,0 +1,177 @@
+/**
+ * テスト用の決定的なチャットモデル
+ * 構造化出力の名前（withStructuredOutputのname）ごとに、あらかじめ用意した応答を返す
+ * ネットワークにアクセスせずにグラフ全体を実行するために使う
+ */
+
+import { readFileSync } from "fs";
+import {
+  BaseChatModel,
+  type BaseChatModelCallOptions,
+  type BindToolsInput,
+} from "@langchain/core/language_models/chat_models";
+import { AIMessage, type AIMessageChunk, type BaseMessage } from "@langchain/core/messages";
+import type { ChatResult } from "@langchain/core/outputs";
+import type { Runnable } from "@langchain/core/runnables";
+import type { BaseLanguageModelInput } from "@langchain/core/language_models/base";
+
+/** 台本の読み込み・応答の取得に関するエラー */
+export class ScriptedLLMError extends Error {
+  constructor(
+    message: string,
+    public readonly outputName?: string,
+    public readonly cause?: Error,
+  ) {
+    super(message);
+    this.name = "ScriptedLLMError";
+  }
+}
+
+/** 応答（固定値、またはプロンプトを受け取って応答を返す関数） */
+export type ScriptedResponse =
+  | Record<string, unknown>
+  | string
+  | ((prompt: string) => Record<string, unknown> | string);
+
+/**
+ * 構造化出力の名前ごとの応答
+ * 配列の場合は呼び出しごとに順に返し、使い切った後は最後の応答を繰り返す
+ * 構造化出力を使わない呼び出しには "text" の応答を返す
+ */
+export type ScriptedResponses = Record<string, ScriptedResponse | ScriptedResponse[]>;
+
+/** 構造化出力を使わない呼び出しの応答のキー */
+const TEXT_RESPONSE_KEY = "text";
+
+/** ツール定義から取り出した関数名 */
+function toolName(tool: BindToolsInput): string | undefined {
+  const t = tool as { name?: string; function?: { name?: string } };
+  return t.function?.name ?? t.name;
+}
+
+interface ScriptedChatModelCallOptions extends BaseChatModelCallOptions {
+  tools?: BindToolsInput[];
+}
+
+/**
+ * 台本どおりに応答するチャットモデル
+ *
+ * withStructuredOutputはツール呼び出しとして実装されているため、
+ * バインドされたツール名（構造化出力の名前）に対応する応答をツール呼び出しの引数として返す
+ *
+ * @example
+ * ```typescript
+ * const llm = new ScriptedChatModel({
+ *   claim_extraction: { claims: [{ text: "今だけ半額", type: "price" }] },
+ *   risk_analysis: (prompt) => ({ assessments: [], overallRisk: "none", summary: "問題なし" }),
+ * });
+ * await llm.withStructuredOutput(schema, { name: "claim_extraction" }).invoke("...");
+ * ```
+ */
+export class ScriptedChatModel extends BaseChatModel<ScriptedChatModelCallOptions> {
+  /** 構造化出力の名前ごとの呼び出し回数 */
+  readonly calls = new Map<string, number>();
+
+  constructor(private readonly responses: ScriptedResponses) {
+    super({});
+  }
+
+  _llmType(): string {
+    return "scripted";
+  }
+
+  override bindTools(
+    tools: BindToolsInput[],
+    kwargs?: Partial<ScriptedChatModelCallOptions>,
+  ): Runnable<BaseLanguageModelInput, AIMessageChunk, ScriptedChatModelCallOptions> {
+    return this.withConfig({ ...kwargs, tools });
+  }
+
+  /**
+   * 名前に対応する応答を取得し、呼び出し回数を進める
+   * @throws {ScriptedLLMError} 応答が用意されていない場合
+   */
+  private next(name: string, prompt: string): Record<string, unknown> | string {
+    const scripted = this.responses[name];
+    if (scripted === undefined) {
+      throw new ScriptedLLMError(`No scripted response for "${name}"`, name);
+    }
+    const count = this.calls.get(name) ?? 0;
+    this.calls.set(name, count + 1);
+
+    const response = Array.isArray(scripted)
+      ? scripted[Math.min(count, scripted.length - 1)]
+      : scripted;
+    return typeof response === "function" ? response(prompt) : response;
+  }
+
+  async _generate(
+    messages: BaseMessage[],
+    options: this["ParsedCallOptions"],
+  ): Promise<ChatResult> {
+    const prompt = messages
+      .map((m) => (typeof m.content === "string" ? m.content : JSON.stringify(m.content)))
+      .join("\n");
+    const name = options.tools?.map(toolName).find((n) => n !== undefined);
+
+    if (name) {
+      const response = this.next(name, prompt);
+      const args = typeof response === "string" ? (JSON.parse(response) as object) : response;
+      const message = new AIMessage({
+        content: "",
+        tool_calls: [{ id: `scripted-${this.calls.get(name)}`, name, args }],
+      });
+      return { generations: [{ text: "", message }] };
+    }
+
+    const response = this.next(TEXT_RESPONSE_KEY, prompt);
+    const text = typeof response === "string" ? response : JSON.stringify(response);
+    return { generations: [{ text, message: new AIMessage(text) }] };
+  }
+}
+
+/**
+ * 台本ファイル（JSON）を読み込み
+ * @throws {ScriptedLLMError} 読み込み・パース失敗時
+ */
+export function loadScriptedResponses(filePath: string): ScriptedResponses {
+  try {
+    return JSON.parse(readFileSync(filePath, "utf-8")) as ScriptedResponses;
+  } catch (e) {
+    throw new ScriptedLLMError(
+      `Failed to load scripted responses from ${filePath}: ${e instanceof Error ? e.message : String(e)}`,
+      undefined,
+      e instanceof Error ? e : undefined,
+    );
+  }
+}
+
+/** getLLM("fake")が返す共有インスタンス（呼び出し回数をノードをまたいで数えるため共有する） */
+let sharedModel: ScriptedChatModel | undefined;
+
+/**
+ * getLLM("fake")が使う応答を設定
+ * 設定するたびに呼び出し回数はリセットされる
+ */
+export function setScriptedResponses(responses: ScriptedResponses): ScriptedChatModel {
+  sharedModel = new ScriptedChatModel(responses);
+  return sharedModel;
+}
+
+/**
+ * getLLM("fake")が使うモデルを取得
+ * setScriptedResponsesで設定していない場合は、環境変数LLM_FAKE_RESPONSESのJSONファイルから読み込む
+ * @throws {ScriptedLLMError} 応答が設定されていない場合・読み込み失敗時
+ */
+export function getScriptedChatModel(): ScriptedChatModel {
+  if (!sharedModel) {
+    const filePath = process.env.LLM_FAKE_RESPONSES;
+    if (!filePath) {
+      throw new ScriptedLLMError(
+        "Scripted responses are not configured: call setScriptedResponses() or set LLM_FAKE_RESPONSES",
+      );
+    }
+    sharedModel = new ScriptedChatModel(loadScriptedResponses(filePath));
+  }
+  return sharedModel;
+}
@@ -0,0 +1,237 @@
+/**
+ * LLM呼び出しの再試行・タイムアウト・フォールバック
+ * レート制限（429）・サーバーエラー・タイムアウトは指数バックオフで再試行し、
+ * 再試行しても失敗した場合は次のプロバイダーにフォールバックする
+ *
+ * 環境変数:
+ * - LLM_FALLBACK_PROVIDERS: フォールバック先のプロバイダー（カンマ区切り、記載順に試行）
+ * - LLM_MAX_RETRIES: プロバイダーごとの再試行回数（デフォルト: 2）
+ * - LLM_RETRY_DELAY_MS: 最初の再試行までの待ち時間（デフォルト: 1000ms、以降2倍ずつ延ばす）
+ * - LLM_TIMEOUT_MS: 1回の呼び出しのタイムアウト（デフォルト: 60000ms）
+ */
+
+import { setTimeout as sleep } from "timers/promises";
+import type { z } from "zod";
+import {
+  getLLM,
+  getLLMConfig,
+  getLLMModel,
+  isLLMProvider,
+  numberFromEnv,
+  type LLMConfig,
+  type LLMProvider,
+} from "./llm.js";
+import { BudgetExceededError } from "./usage.js";
+
+/** 再試行の設定 */
+export interface RetryPolicy {
+  /** プロバイダーごとの再試行回数（初回の呼び出しを含まない） */
+  maxRetries: number;
+  /** 最初の再試行までの待ち時間（ms） */
+  initialDelayMs: number;
+  /** 再試行までの待ち時間の上限（ms） */
+  maxDelayMs: number;
+  /** 1回の呼び出しのタイムアウト（ms） */
+  timeoutMs: number;
+}
+
+/** デフォルトの再試行の設定 */
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 2,
+  initialDelayMs: 1000,
+  maxDelayMs: 10000,
+  timeoutMs: 60000,
+};
+
+/** 1回の呼び出しの記録 */
+export interface LLMAttempt {
+  /** プロバイダー */
+  provider: LLMProvider;
+  /** モデル名 */
+  model: string;
+  /** プロバイダー内での試行番号（1始まり） */
+  attempt: number;
+  /** 所要時間（ms） */
+  durationMs: number;
+  /** 失敗した場合のエラーメッセージ */
+  error?: string;
+  /** 失敗した場合のHTTPステータス（取得できた場合） */
+  status?: number;
+}
+
+/** フォールバックを含むLLM呼び出しの結果 */
+export interface LLMCallRecord {
+  /** 応答したプロバイダー */
+  provider: LLMProvider;
+  /** 応答したモデル名 */
+  model: string;
+  /** 応答を得るまでの呼び出し回数（全プロバイダーの合計） */
+  attempts: number;
+  /** 呼び出しの履歴 */
+  history: LLMAttempt[];
+}
+
+/** すべてのプロバイダーで呼び出しに失敗した場合のエラー */
+export class LLMFallbackError extends Error {
+  constructor(
+    message: string,
+    public readonly attempts: LLMAttempt[],
+    public readonly cause?: Error,
+  ) {
+    super(message);
+    this.name = "LLMFallbackError";
+  }
+}
+
+/** 構造化出力の呼び出しオプション */
+export interface StructuredCallOptions {
+  /** 構造化出力の名前 */
+  name: string;
+  /** 試行するプロバイダーの順序（省略時は環境変数から取得） */
+  chain?: LLMConfig[];
+  /** 再試行の設定（省略した項目は環境変数・デフォルト値） */
+  retry?: Partial<RetryPolicy>;
+}
+
+/**
+ * 環境変数からフォールバックチェーンを取得
+ * 先頭はLLM_PROVIDERで選択したプロバイダー（重複するプロバイダーは除く）
+ * @throws {Error} LLM_FALLBACK_PROVIDERSに不明なプロバイダーが含まれる場合
+ */
+export function getFallbackChain(): LLMConfig[] {
+  const primary = getLLMConfig();
+  const providers = new Set<LLMProvider>([primary.provider]);
+  const chain = [primary];
+
+  for (const name of (process.env.LLM_FALLBACK_PROVIDERS ?? "").split(",")) {
+    const provider = name.trim();
+    if (!provider) continue;
+    if (!isLLMProvider(provider)) {
+      throw new Error(`Unknown LLM provider in LLM_FALLBACK_PROVIDERS: ${provider}`);
+    }
+    if (!providers.has(provider)) {
+      providers.add(provider);
+      chain.push(getLLMConfig(provider));
+    }
+  }
+  return chain;
+}
+
+/**
+ * 環境変数から再試行の設定を取得
+ */
+export function getRetryPolicy(): RetryPolicy {
+  return {
+    maxRetries: numberFromEnv("LLM_MAX_RETRIES") ?? DEFAULT_RETRY_POLICY.maxRetries,
+    initialDelayMs: numberFromEnv("LLM_RETRY_DELAY_MS") ?? DEFAULT_RETRY_POLICY.initialDelayMs,
+    maxDelayMs: DEFAULT_RETRY_POLICY.maxDelayMs,
+    timeoutMs: numberFromEnv("LLM_TIMEOUT_MS") ?? DEFAULT_RETRY_POLICY.timeoutMs,
+  };
+}
+
+/**
+ * エラーからHTTPステータスを取得（クライアントによって格納先が異なる）
+ */
+function errorStatus(error: unknown): number | undefined {
+  const e = error as { status?: unknown; response?: { status?: unknown } } | undefined;
+  const status = e?.status ?? e?.response?.status;
+  return typeof status === "number" ? status : undefined;
+}
+
+/**
+ * 同じプロバイダーで再試行すべきエラーか
+ * ステータスのないエラー（タイムアウト・通信エラー・出力のパース失敗等）は再試行する
+ * 認証エラー等の4xxは再試行しても結果が変わらないため、すぐに次のプロバイダーに移る
+ */
+function isRetryable(status: number | undefined): boolean {
+  return (
+    status === undefined || status === 408 || status === 409 || status === 429 || status >= 500
+  );
+}
+
+/**
+ * 構造化出力のLLM呼び出しを、再試行・タイムアウト・フォールバック付きで実行
+ *
+ * 予算超過（BudgetExceededError）は再試行・フォールバックせずにそのまま投げる
+ *
+ * @throws {LLMFallbackError} すべてのプロバイダーで失敗した場合
+ * @throws {BudgetExceededError} 予算を超える場合
+ */
+export async function invokeStructuredWithFallback<T extends Record<string, unknown>>(
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  prompt: string,
+  options: StructuredCallOptions,
+): Promise<{ output: T; call: LLMCallRecord }> {
+  const chain = options.chain ?? getFallbackChain();
+  const policy = { ...getRetryPolicy(), ...options.retry };
+  const history: LLMAttempt[] = [];
+  let lastError: Error | undefined;
+
+  for (const config of chain) {
+    const model = getLLMModel(config);
+    let structuredLlm;
+    try {
+      // 再試行はここで制御するため、クライアント内部の再試行は無効にする
+      structuredLlm = getLLM({ ...config, maxRetries: 0 }).withStructuredOutput<T>(schema, {
+        name: options.name,
+      });
+    } catch (e) {
+      // 設定の不備（APIキー・ベースURLの未設定等）は再試行せずに次のプロバイダーに移る
+      lastError = e instanceof Error ? e : new Error(String(e));
+      history.push({
+        provider: config.provider,
+        model,
+        attempt: 1,
+        durationMs: 0,
+        error: lastError.message,
+      });
+      continue;
+    }
+
+    for (let attempt = 1; attempt <= policy.maxRetries + 1; attempt++) {
+      const startTime = Date.now();
+      try {
+        // プロバイダーによっては構造化出力をスキーマで検証しないため、ここで検証する
+        // （列挙値に対応付けられない出力等は、パース失敗として再試行・フォールバックする）
+        const output = schema.parse(
+          await structuredLlm.invoke(prompt, { timeout: policy.timeoutMs }),
+        );
+        history.push({
+          provider: config.provider,
+          model,
+          attempt,
+          durationMs: Date.now() - startTime,
+        });
+        return {
+          output,
+          call: { provider: config.provider, model, attempts: history.length, history },
+        };
+      } catch (e) {
+        if (e instanceof BudgetExceededError) {
+          throw e;
+        }
+        const status = errorStatus(e);
+        lastError = e instanceof Error ? e : new Error(String(e));
+        history.push({
+          provider: config.provider,
+          model,
+          attempt,
+          durationMs: Date.now() - startTime,
+          error: lastError.message,
+          status,
+        });
+        if (!isRetryable(status) || attempt > policy.maxRetries) {
+          break;
+        }
+        await sleep(Math.min(policy.initialDelayMs * 2 ** (attempt - 1), policy.maxDelayMs));
+      }
+    }
+  }
+
+  const tried = chain.map((c) => c.provider).join(" → ");
+  throw new LLMFallbackError(
+    `LLM call "${options.name}" failed after ${history.length} attempts (${tried}): ${lastError?.message ?? "no providers"}`,
+    history,
+    lastError,
+  );
+}
@@ -0,0 +1,69 @@
+/**
+ * 分析結果の出力フォーマット
+ * 機械可読な形式（JSON・SARIF・JUnit XML）とプルリクエストのコメント向けのMarkdownに変換する
+ * （コンソール向けのテキスト形式はformatAnalysisResultを使う）
+ */
+
+import type { AnalysisResult } from "../state.js";
+import { formatJsonReport } from "./json.js";
+import { formatJUnitReport } from "./junit.js";
+import { formatMarkdownReport } from "./markdown.js";
+import type { ReportFormatOptions, ReportMetadata } from "./metadata.js";
+import { formatSarifReport } from "./sarif.js";
+
+/** 出力フォーマットの関数 */
+export type ReportFormatter = (
+  result: AnalysisResult,
+  metadata: ReportMetadata,
+  options?: ReportFormatOptions,
+) => string;
+
+/** 出力フォーマットごとの関数 */
+export const REPORT_FORMATTERS = {
+  json: formatJsonReport,
+  sarif: formatSarifReport,
+  junit: formatJUnitReport,
+  markdown: formatMarkdownReport,
+} satisfies Record<string, ReportFormatter>;
+
+/** 出力フォーマット */
+export type ReportFormat = keyof typeof REPORT_FORMATTERS;
+
+/**
+ * 出力フォーマットかを判定
+ */
+export function isReportFormat(value: string): value is ReportFormat {
+  return Object.hasOwn(REPORT_FORMATTERS, value);
+}
+
+/**
+ * 分析結果を指定した形式の文字列に変換
+ */
+export function formatReport(
+  result: AnalysisResult,
+  format: ReportFormat,
+  metadata: ReportMetadata,
+  options: ReportFormatOptions = {},
+): string {
+  const formatter: ReportFormatter = REPORT_FORMATTERS[format];
+  return formatter(result, metadata, options);
+}
+
+export {
+  buildReportMetadata,
+  TOOL_NAME,
+  type ReportMetadata,
+  type ReportFormatOptions,
+} from "./metadata.js";
+export {
+  formatJsonReport,
+  toJsonReport,
+  ANALYSIS_REPORT_JSON_SCHEMA,
+  REPORT_SCHEMA_VERSION,
+  type JsonReport,
+  type JsonFinding,
+  type JsonCitation,
+} from "./json.js";
+export { formatSarifReport, toSarifLog } from "./sarif.js";
+export { formatJUnitReport } from "./junit.js";
+export { formatMarkdownReport } from "./markdown.js";
@@ -0,0 +1,228 @@
+/**
+ * JSON形式の出力
+ * 分析結果を安定した構造のJSONに変換する（構造はANALYSIS_REPORT_JSON_SCHEMAで公開）
+ *
+ * - 値のない項目は省略せずnullにする（利用側がキーの有無で分岐しなくてよいように）
+ * - 構造を変更する場合はREPORT_SCHEMA_VERSIONを更新する
+ */
+
+import type { AnalysisResult, Citation, RiskAssessment } from "../state.js";
+import { VIOLATION_TAXONOMY } from "../taxonomy.js";
+import { findingId, hasSpan, type ReportMetadata } from "./metadata.js";
+
+/** JSONレポートのスキーマのバージョン */
+export const REPORT_SCHEMA_VERSION = "1";
+
+/** リスクレベルのスキーマ */
+const RISK_LEVEL_SCHEMA = { type: "string", enum: ["high", "medium", "low", "none"] } as const;
+
+/** 引用のスキーマ */
+const CITATION_SCHEMA = {
+  type: "object",
+  required: ["id", "source", "articleNumber", "content", "distance"],
+  properties: {
+    id: { type: "string" },
+    source: { type: "string", enum: ["law", "guideline", "qa"] },
+    articleNumber: { type: ["string", "null"] },
+    content: { type: "string", description: "文書の抜粋" },
+    distance: { type: "number", description: "ベクトル検索の距離（小さいほど近い）" },
+  },
+} as const;
+
+/** JSONレポートのJSON Schema */
+export const ANALYSIS_REPORT_JSON_SCHEMA = {
+  $schema: "https://json-schema.org/draft/2020-12/schema",
+  title: "ad-linter analysis report",
+  type: "object",
+  required: [
+    "schemaVersion",
+    "metadata",
+    "adText",
+    "overallRisk",
+    "score",
+    "llmOverallRisk",
+    "summary",
+    "findings",
+  ],
+  properties: {
+    schemaVersion: { const: REPORT_SCHEMA_VERSION },
+    metadata: {
+      type: "object",
+      required: [
+        "tool",
+        "generatedAt",
+        "provider",
+        "model",
+        "promptVersion",
+        "corpusVersion",
+        "strictness",
+      ],
+      properties: {
+        tool: { type: "string" },
+        generatedAt: { type: "string", format: "date-time" },
+        provider: { type: "string" },
+        model: { type: "string" },
+        promptVersion: { type: "string" },
+        corpusVersion: { type: "string" },
+        strictness: {
+          type: ["string", "null"],
+          enum: ["conservative", "balanced", "permissive", null],
+        },
+      },
+    },
+    adText: { type: "string" },
+    overallRisk: RISK_LEVEL_SCHEMA,
+    score: { type: ["integer", "null"], minimum: 0, maximum: 100 },
+    llmOverallRisk: { anyOf: [RISK_LEVEL_SCHEMA, { type: "null" }] },
+    summary: { type: "string" },
+    findings: {
+      type: "array",
+      items: {
+        type: "object",
+        required: [
+          "id",
+          "expression",
+          "span",
+          "selector",
+          "riskLevel",
+          "violationCode",
+          "violationLabel",
+          "lawArticle",
+          "reasoning",
+          "suggestion",
+          "source",
+          "ruleIds",
+          "claimId",
+          "confidence",
+          "needsHumanJudgment",
+          "citations",
+        ],
+        properties: {
+          id: { type: "string" },
+          expression: { type: "string" },
+          span: {
+            description: "広告文上の位置（文字単位、endは排他的。見つからない表現はnull）",
+            anyOf: [
+              {
+                type: "object",
+                required: ["start", "end"],
+                properties: { start: { type: "integer" }, end: { type: "integer" } },
+              },
+              { type: "null" },
+            ],
+          },
+          selector: { type: ["string", "null"] },
+          riskLevel: RISK_LEVEL_SCHEMA,
+          violationCode: { type: "string", enum: Object.keys(VIOLATION_TAXONOMY) },
+          violationLabel: { type: "string" },
+          lawArticle: { type: "string" },
+          reasoning: { type: "string" },
+          suggestion: { type: "string" },
+          source: { type: ["string", "null"], enum: ["llm", "rule", null] },
+          ruleIds: { type: "array", items: { type: "string" } },
+          claimId: { type: ["string", "null"] },
+          confidence: { type: ["number", "null"], minimum: 0, maximum: 1 },
+          needsHumanJudgment: { type: "boolean" },
+          citations: { type: "array", items: CITATION_SCHEMA },
+        },
+      },
+    },
+  },
+} as const;
+
+/** JSONレポートの引用 */
+export interface JsonCitation {
+  id: string;
+  source: Citation["source"];
+  articleNumber: string | null;
+  content: string;
+  distance: number;
+}
+
+/** JSONレポートの指摘 */
+export interface JsonFinding {
+  id: string;
+  expression: string;
+  span: { start: number; end: number } | null;
+  selector: string | null;
+  riskLevel: RiskAssessment["riskLevel"];
+  violationCode: RiskAssessment["violationCode"];
+  violationLabel: string;
+  lawArticle: string;
+  reasoning: string;
+  suggestion: string;
+  source: RiskAssessment["source"] | null;
+  ruleIds: string[];
+  claimId: string | null;
+  confidence: number | null;
+  needsHumanJudgment: boolean;
+  citations: JsonCitation[];
+}
+
+/** JSONレポート */
+export interface JsonReport {
+  schemaVersion: typeof REPORT_SCHEMA_VERSION;
+  metadata: Omit<ReportMetadata, "strictness"> & {
+    strictness: ReportMetadata["strictness"] | null;
+  };
+  adText: string;
+  overallRisk: AnalysisResult["overallRisk"];
+  score: number | null;
+  llmOverallRisk: AnalysisResult["overallRisk"] | null;
+  summary: string;
+  findings: JsonFinding[];
+}
+
+/**
+ * 評価をJSONレポートの指摘に変換
+ */
+function toJsonFinding(assessment: RiskAssessment, index: number): JsonFinding {
+  const definition = VIOLATION_TAXONOMY[assessment.violationCode];
+  return {
+    id: findingId(index),
+    expression: assessment.expression,
+    span: hasSpan(assessment) ? { start: assessment.start, end: assessment.end } : null,
+    selector: assessment.selector ?? null,
+    riskLevel: assessment.riskLevel,
+    violationCode: assessment.violationCode,
+    violationLabel: definition.label,
+    lawArticle: definition.lawArticle,
+    reasoning: assessment.reasoning,
+    suggestion: assessment.suggestion,
+    source: assessment.source ?? null,
+    ruleIds: assessment.ruleIds ?? [],
+    claimId: assessment.claimId ?? null,
+    confidence: assessment.confidence?.value ?? null,
+    needsHumanJudgment: assessment.confidence?.uncertain ?? false,
+    citations: assessment.citations.map((c) => ({
+      id: c.id,
+      source: c.source,
+      articleNumber: c.articleNumber ?? null,
+      content: c.content,
+      distance: c.relevanceScore,
+    })),
+  };
+}
+
+/**
+ * 分析結果をJSONレポートに変換
+ */
+export function toJsonReport(result: AnalysisResult, metadata: ReportMetadata): JsonReport {
+  return {
+    schemaVersion: REPORT_SCHEMA_VERSION,
+    metadata: { ...metadata, strictness: metadata.strictness ?? null },
+    adText: result.adText,
+    overallRisk: result.overallRisk,
+    score: result.riskScore?.score ?? null,
+    llmOverallRisk: result.llmOverallRisk ?? null,
+    summary: result.summary,
+    findings: result.riskAssessments.map(toJsonFinding),
+  };
+}
+
+/**
+ * 分析結果をJSON文字列に変換
+ */
+export function formatJsonReport(result: AnalysisResult, metadata: ReportMetadata): string {
+  return JSON.stringify(toJsonReport(result, metadata), null, 2);
+}
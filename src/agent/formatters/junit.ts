@@ -0,0 +1,131 @@
+/**
+ * JUnit XML形式の出力
+ * CIのテスト結果画面で指摘を確認できるよう、指摘を1件ずつテストケースとして出力する
+ *
+ * - 総合評価を1つのテストケースとし、failOn以上のリスクレベルの場合は失敗にする
+ * - 指摘はfailOn以上のリスクレベルを失敗、人による判断が必要な指摘をスキップ、それ以外を成功にする
+ */
+
+import { isPageLevel } from "../nodes/spanLocator.js";
+import { RISK_ORDER } from "../scoring.js";
+import type { AnalysisResult, RiskAssessment } from "../state.js";
+import {
+  DEFAULT_ARTIFACT_URI,
+  findingId,
+  hasSpan,
+  toLineColumn,
+  type ReportFormatOptions,
+  type ReportMetadata,
+} from "./metadata.js";
+
+/**
+ * XMLの特殊文字をエスケープ
+ */
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+/**
+ * 指摘の詳細をテストケースの本文に変換
+ */
+function describeFinding(adText: string, assessment: RiskAssessment, artifactUri: string): string {
+  const lines: string[] = [];
+  if (hasSpan(assessment)) {
+    const { line, column } = toLineColumn(adText, assessment.start);
+    lines.push(
+      `位置: ${artifactUri}:${line}:${column}（${assessment.start}〜${assessment.end}文字目）`,
+    );
+  } else if (isPageLevel(assessment)) {
+    lines.push("位置: 広告全体に関する指摘（入力オプションによる判定）");
+  } else {
+    lines.push("位置: 広告文中に見つかりません（未検証）");
+  }
+  if (assessment.selector) {
+    lines.push(`セレクタ: ${assessment.selector}`);
+  }
+  lines.push(`違反類型: ${assessment.violationType}`);
+  if (assessment.confidence) {
+    lines.push(`確信度: ${Math.round(assessment.confidence.value * 100)}%`);
+  }
+  lines.push(`判断理由: ${assessment.reasoning}`);
+  lines.push(`改善提案: ${assessment.suggestion}`);
+  for (const citation of assessment.citations) {
+    lines.push(`根拠: [${citation.id}] ${citation.content}`);
+  }
+  return lines.join("\n");
+}
+
+/**
+ * 分析結果をJUnit XML形式の文字列に変換
+ */
+export function formatJUnitReport(
+  result: AnalysisResult,
+  metadata: ReportMetadata,
+  options: ReportFormatOptions = {},
+): string {
+  const artifactUri = options.artifactUri ?? DEFAULT_ARTIFACT_URI;
+  const failOn = RISK_ORDER[options.failOn ?? "medium"];
+  const testcases: string[] = [];
+  let failures = 0;
+  let skipped = 0;
+
+  const overallFailed = RISK_ORDER[result.overallRisk] >= failOn;
+  if (overallFailed) failures++;
+  const score = result.riskScore ? `（スコア ${result.riskScore.score}/100）` : "";
+  testcases.push(
+    [
+      `    <testcase classname="${escapeXml(metadata.tool)}" name="${escapeXml(`総合評価: ${artifactUri}`)}">`,
+      overallFailed
+        ? `      <failure type="${result.overallRisk}" message="${escapeXml(`総合リスク ${result.overallRisk}${score}`)}">${escapeXml(result.summary)}</failure>`
+        : `      <system-out>${escapeXml(`総合リスク ${result.overallRisk}${score}\n${result.summary}`)}</system-out>`,
+      "    </testcase>",
+    ].join("\n"),
+  );
+
+  result.riskAssessments.forEach((assessment, i) => {
+    const name = `${findingId(i)}: ${assessment.expression}`;
+    const detail = escapeXml(describeFinding(result.adText, assessment, artifactUri));
+    let body: string;
+    if (assessment.confidence?.uncertain) {
+      skipped++;
+      body = `      <skipped message="${escapeXml("確信度が低く、人による判断が必要")}"/>\n      <system-out>${detail}</system-out>`;
+    } else if (RISK_ORDER[assessment.riskLevel] >= failOn) {
+      failures++;
+      body = `      <failure type="${assessment.riskLevel}" message="${escapeXml(assessment.violationType)}">${detail}</failure>`;
+    } else {
+      body = `      <system-out>${detail}</system-out>`;
+    }
+    testcases.push(
+      [
+        `    <testcase classname="${escapeXml(`${metadata.tool}.${assessment.violationCode}`)}" name="${escapeXml(name)}">`,
+        body,
+        "    </testcase>",
+      ].join("\n"),
+    );
+  });
+
+  const properties = Object.entries(metadata)
+    .filter(([, value]) => value !== undefined)
+    .map(
+      ([name, value]) =>
+        `      <property name="${escapeXml(name)}" value="${escapeXml(String(value))}"/>`,
+    );
+  const tests = testcases.length;
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="${escapeXml(metadata.tool)}" tests="${tests}" failures="${failures}" skipped="${skipped}">`,
+    `  <testsuite name="${escapeXml(artifactUri)}" tests="${tests}" failures="${failures}" errors="0" skipped="${skipped}" timestamp="${metadata.generatedAt}" time="${(result.processingTime / 1000).toFixed(3)}">`,
+    "    <properties>",
+    ...properties,
+    "    </properties>",
+    ...testcases,
+    "  </testsuite>",
+    "</testsuites>",
+  ].join("\n");
+}
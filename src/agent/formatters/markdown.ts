@@ -0,0 +1,128 @@
+/**
+ * Markdown形式の出力
+ * プルリクエストのコメントに貼れるよう、指摘を表と折りたたみの詳細にまとめる
+ */
+
+import type { AnalysisResult, RiskAssessment } from "../state.js";
+import { isPageLevel } from "../nodes/spanLocator.js";
+import { findingId, hasSpan, type ReportMetadata } from "./metadata.js";
+
+/** リスクレベルの表示ラベル */
+const RISK_LABELS: Record<RiskAssessment["riskLevel"], string> = {
+  high: "🔴 高リスク",
+  medium: "🟡 中リスク",
+  low: "🟢 低リスク",
+  none: "⚪ リスクなし",
+};
+
+/**
+ * HTMLとして解釈される文字をエスケープ（広告文・参照文書に含まれるタグ等がそのまま表示されるように）
+ */
+function escapeText(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+/**
+ * 表のセルに入れる文字列をエスケープ（区切り文字・改行も置き換える）
+ */
+function escapeCell(text: string): string {
+  return escapeText(text).replace(/\|/g, "\\|").replace(/\r?\n/g, " ");
+}
+
+/**
+ * 評価の位置を表示用文字列に変換
+ */
+function formatSpan(assessment: RiskAssessment): string {
+  if (hasSpan(assessment)) {
+    return `${assessment.start}〜${assessment.end}`;
+  }
+  if (isPageLevel(assessment)) {
+    return "広告全体";
+  }
+  return assessment.verified === false ? "未検証" : "－";
+}
+
+/**
+ * 評価を表の行に変換
+ */
+function toTableRow(assessment: RiskAssessment, index: number): string {
+  const confidence = assessment.confidence
+    ? `${Math.round(assessment.confidence.value * 100)}%`
+    : "－";
+  return `| ${findingId(index)} | ${escapeCell(assessment.expression)} | ${formatSpan(assessment)} | ${RISK_LABELS[assessment.riskLevel]} | ${escapeCell(assessment.violationType)} | ${confidence} |`;
+}
+
+/**
+ * 評価の詳細を折りたたみブロックに変換
+ */
+function toDetails(assessment: RiskAssessment, index: number): string[] {
+  const lines = [
+    "<details>",
+    `<summary>${findingId(index)}: 「${escapeText(assessment.expression)}」</summary>`,
+    "",
+    `- **判断理由**: ${escapeText(assessment.reasoning)}`,
+    `- **改善提案**: ${escapeText(assessment.suggestion)}`,
+  ];
+  if (assessment.selector) {
+    lines.push(`- **セレクタ**: \`${assessment.selector}\``);
+  }
+  if (assessment.ruleIds && assessment.ruleIds.length > 0) {
+    lines.push(`- **検出ルール**: ${assessment.ruleIds.join(", ")}`);
+  }
+  if (assessment.citations.length > 0) {
+    lines.push("- **根拠**:");
+    for (const citation of assessment.citations) {
+      const article = citation.articleNumber ? ` 第${citation.articleNumber}条` : "";
+      lines.push(`  - \`${citation.id}\`${article}: ${escapeCell(citation.content)}`);
+    }
+  }
+  lines.push("", "</details>", "");
+  return lines;
+}
+
+/**
+ * 分析結果をMarkdown形式の文字列に変換
+ */
+export function formatMarkdownReport(result: AnalysisResult, metadata: ReportMetadata): string {
+  const lines: string[] = [];
+  const score = result.riskScore ? `（スコア ${result.riskScore.score}/100）` : "";
+
+  lines.push("## 景品表示法リスク評価レポート", "");
+  lines.push(`**総合評価**: ${RISK_LABELS[result.overallRisk]}${score}`, "");
+  lines.push(escapeText(result.summary), "");
+
+  const indexed = result.riskAssessments.map((assessment, index) => ({ assessment, index }));
+  const sections = [
+    {
+      title: "### 検出されたリスク",
+      items: indexed.filter((x) => !x.assessment.confidence?.uncertain),
+    },
+    {
+      title: "### 要判断：確信度が低く、人による判断が必要な指摘（スコアには含めない）",
+      items: indexed.filter((x) => x.assessment.confidence?.uncertain),
+    },
+  ];
+  for (const section of sections) {
+    if (section.items.length === 0) continue;
+    lines.push(section.title, "");
+    lines.push("| ID | 表現 | 位置 | リスク | 違反類型 | 確信度 |");
+    lines.push("| --- | --- | --- | --- | --- | --- |");
+    for (const { assessment, index } of section.items) {
+      lines.push(toTableRow(assessment, index));
+    }
+    lines.push("");
+    for (const { assessment, index } of section.items) {
+      lines.push(...toDetails(assessment, index));
+    }
+  }
+  if (result.riskAssessments.length === 0) {
+    lines.push("指摘はありません。", "");
+  }
+
+  const strictness = metadata.strictness ? ` / 審査の厳しさ: ${metadata.strictness}` : "";
+  lines.push(
+    `<sub>${metadata.tool} / ${metadata.provider} (${metadata.model}) / プロンプト v${metadata.promptVersion} / コーパス ${metadata.corpusVersion}${strictness} / ${metadata.generatedAt}</sub>`,
+  );
+
+  return lines.join("\n");
+}
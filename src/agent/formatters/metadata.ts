@@ -0,0 +1,84 @@
+/**
+ * 出力フォーマット共通のメタデータと補助関数
+ */
+
+import { getCorpusVersion } from "../../retrieval/vectorStore.js";
+import { PROMPT_VERSION } from "../cache.js";
+import { getLLMConfig, getLLMModel, type LLMProvider } from "../llm.js";
+import type { AnalysisResult, RiskAssessment } from "../state.js";
+import type { StrictnessProfile } from "../strictness.js";
+
+/** ツール名 */
+export const TOOL_NAME = "ad-linter";
+
+/** レポートのメタデータ（分析に使ったモデル・コーパス等） */
+export interface ReportMetadata {
+  /** ツール名 */
+  tool: string;
+  /** レポートの作成日時（ISO 8601） */
+  generatedAt: string;
+  /** リスク評価に応答したLLMプロバイダー */
+  provider: LLMProvider;
+  /** リスク評価に応答したモデル名 */
+  model: string;
+  /** プロンプトのバージョン */
+  promptVersion: string;
+  /** コーパスのバージョン */
+  corpusVersion: string;
+  /** 審査の厳しさ */
+  strictness?: StrictnessProfile;
+}
+
+/** 出力フォーマットのオプション */
+export interface ReportFormatOptions {
+  /** 分析した広告文のファイルパス（SARIF・JUnit XMLの位置情報に使う。デフォルト: "ad.txt"） */
+  artifactUri?: string;
+  /** JUnit XMLで失敗とするリスクレベルの下限（デフォルト: "medium"） */
+  failOn?: Exclude<RiskAssessment["riskLevel"], "none">;
+}
+
+/** デフォルトのファイルパス */
+export const DEFAULT_ARTIFACT_URI = "ad.txt";
+
+/**
+ * 分析結果からレポートのメタデータを作成
+ * モデルはリスク評価に応答したものを使い、記録がない場合（キャッシュ等）は現在の設定から求める
+ */
+export async function buildReportMetadata(result: AnalysisResult): Promise<ReportMetadata> {
+  const config = getLLMConfig();
+  return {
+    tool: TOOL_NAME,
+    generatedAt: new Date().toISOString(),
+    provider: result.riskAnalysisCall?.provider ?? config.provider,
+    model: result.riskAnalysisCall?.model ?? getLLMModel(config),
+    promptVersion: PROMPT_VERSION,
+    corpusVersion: await getCorpusVersion(),
+    strictness: result.strictness,
+  };
+}
+
+/**
+ * 評価に表示順の識別子を付ける（例: "finding-1"）
+ */
+export function findingId(index: number): string {
+  return `finding-${index + 1}`;
+}
+
+/**
+ * 文字位置を行・列（1始まり）に変換
+ */
+export function toLineColumn(text: string, offset: number): { line: number; column: number } {
+  const before = text.slice(0, offset).split("\n");
+  return { line: before.length, column: before[before.length - 1].length + 1 };
+}
+
+/**
+ * 評価が広告文上の位置を持つか
+ */
+export function hasSpan(
+  assessment: RiskAssessment,
+): assessment is RiskAssessment & { start: number; end: number } {
+  return (
+    assessment.verified !== false && assessment.start !== undefined && assessment.end !== undefined
+  );
+}
@@ -0,0 +1,162 @@
+/**
+ * SARIF形式の出力（SARIF 2.1.0）
+ * 広告文をリポジトリで管理している場合に、指摘をコードスキャンの画面に表示できるようにする
+ *
+ * - ルールは違反類型のコード、結果のレベルはリスクレベルに対応付ける
+ * - 位置は広告文上の文字位置を行・列に変換して設定する（見つからない表現はファイル単位の指摘にする）
+ */
+
+import { createHash } from "crypto";
+import type { AnalysisResult, RiskAssessment } from "../state.js";
+import { VIOLATION_TAXONOMY } from "../taxonomy.js";
+import {
+  DEFAULT_ARTIFACT_URI,
+  findingId,
+  hasSpan,
+  toLineColumn,
+  type ReportFormatOptions,
+  type ReportMetadata,
+} from "./metadata.js";
+
+/** SARIFのスキーマ */
+const SARIF_SCHEMA = "https://json.schemastore.org/sarif-2.1.0.json";
+
+/** リスクレベルごとのSARIFのレベル */
+const SARIF_LEVELS: Record<RiskAssessment["riskLevel"], "error" | "warning" | "note" | "none"> = {
+  high: "error",
+  medium: "warning",
+  low: "note",
+  none: "none",
+};
+
+/**
+ * 指摘の同一性を判定するためのフィンガープリント（違反類型と表現から求める）
+ * 広告文の他の箇所を編集して位置がずれても、同じ指摘として扱われるようにする
+ */
+function fingerprint(assessment: RiskAssessment): string {
+  return createHash("sha256")
+    .update(`${assessment.violationCode}\n${assessment.expression}`)
+    .digest("hex")
+    .substring(0, 16);
+}
+
+/**
+ * 評価の位置をSARIFのregionに変換
+ */
+function toRegion(adText: string, assessment: RiskAssessment): Record<string, unknown> | undefined {
+  if (!hasSpan(assessment)) {
+    return undefined;
+  }
+  const start = toLineColumn(adText, assessment.start);
+  const end = toLineColumn(adText, assessment.end);
+  return {
+    startLine: start.line,
+    startColumn: start.column,
+    endLine: end.line,
+    endColumn: end.column,
+    charOffset: assessment.start,
+    charLength: assessment.end - assessment.start,
+    snippet: { text: assessment.expression },
+  };
+}
+
+/**
+ * 評価をSARIFの結果に変換
+ */
+function toResult(
+  result: AnalysisResult,
+  assessment: RiskAssessment,
+  index: number,
+  artifactUri: string,
+): Record<string, unknown> {
+  const region = toRegion(result.adText, assessment);
+  return {
+    ruleId: assessment.violationCode,
+    level: SARIF_LEVELS[assessment.riskLevel],
+    message: {
+      text: `「${assessment.expression}」${assessment.reasoning}${assessment.suggestion ? `\n改善提案: ${assessment.suggestion}` : ""}`,
+    },
+    locations: [
+      {
+        physicalLocation: {
+          artifactLocation: { uri: artifactUri },
+          ...(region ? { region } : {}),
+        },
+      },
+    ],
+    partialFingerprints: { adLinterFinding: fingerprint(assessment) },
+    properties: {
+      id: findingId(index),
+      riskLevel: assessment.riskLevel,
+      source: assessment.source,
+      ruleIds: assessment.ruleIds ?? [],
+      selector: assessment.selector,
+      confidence: assessment.confidence?.value,
+      needsHumanJudgment: assessment.confidence?.uncertain ?? false,
+      citations: assessment.citations.map((c) => ({
+        id: c.id,
+        source: c.source,
+        articleNumber: c.articleNumber,
+        content: c.content,
+        distance: c.relevanceScore,
+      })),
+    },
+  };
+}
+
+/**
+ * 分析結果をSARIFのログに変換
+ */
+export function toSarifLog(
+  result: AnalysisResult,
+  metadata: ReportMetadata,
+  options: ReportFormatOptions = {},
+): Record<string, unknown> {
+  const artifactUri = options.artifactUri ?? DEFAULT_ARTIFACT_URI;
+  const codes = [...new Set(result.riskAssessments.map((a) => a.violationCode))];
+
+  return {
+    $schema: SARIF_SCHEMA,
+    version: "2.1.0",
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: metadata.tool,
+            rules: codes.map((code) => {
+              const definition = VIOLATION_TAXONOMY[code];
+              return {
+                id: code,
+                name: code,
+                shortDescription: { text: definition.label },
+                fullDescription: {
+                  text: `${definition.label}（景品表示法${definition.lawArticle}）`,
+                },
+                properties: { category: definition.category, lawArticle: definition.lawArticle },
+              };
+            }),
+          },
+        },
+        artifacts: [{ location: { uri: artifactUri } }],
+        results: result.riskAssessments.map((a, i) => toResult(result, a, i, artifactUri)),
+        properties: {
+          ...metadata,
+          overallRisk: result.overallRisk,
+          score: result.riskScore?.score,
+          summary: result.summary,
+        },
+      },
+    ],
+  };
+}
+
+/**
+ * 分析結果をSARIF形式の文字列に変換
+ */
+export function formatSarifReport(
+  result: AnalysisResult,
+  metadata: ReportMetadata,
+  options: ReportFormatOptions = {},
+): string {
+  return JSON.stringify(toSarifLog(result, metadata, options), null, 2);
+}
@@ -3,29 +3,96 @@
  * 広告文の景品表示法リスク評価グラフ
  */
 
-import { StateGraph, END } from "@langchain/langgraph";
+import { StateGraph, END, type BaseCheckpointSaver } from "@langchain/langgraph";
 import { AgentState } from "./state.js";
 import { inputParser } from "./nodes/inputParser.js";
+import { ruleChecker } from "./nodes/ruleChecker.js";
+import { claimExtractor } from "./nodes/claimExtractor.js";
 import { retriever } from "./nodes/retriever.js";
 import { riskAnalyzer } from "./nodes/riskAnalyzer.js";
+import { evidenceEvaluator } from "./nodes/evidenceEvaluator.js";
+import { disclaimerAnalyzer } from "./nodes/disclaimerAnalyzer.js";
+import { premiumChecker } from "./nodes/premiumChecker.js";
+import { priceValidator } from "./nodes/priceValidator.js";
+import { disclosureChecker } from "./nodes/disclosureChecker.js";
+import { confidenceEstimator } from "./nodes/confidenceEstimator.js";
+import { riskScorer } from "./nodes/riskScorer.js";
+import { spanLocator } from "./nodes/spanLocator.js";
+import { humanReview } from "./nodes/humanReview.js";
+
+/** グラフ構築オプション */
+export interface AdLinterGraphOptions {
+  /** チェックポインター（レビューで中断・再開する場合に必要） */
+  checkpointer?: BaseCheckpointSaver;
+  /** humanReviewの直前で中断し、法務レビューを待つか */
+  humanReview?: boolean;
+}
 
 /**
  * 広告リンターグラフを構築
  *
  * フロー:
- * __start__ → inputParser → retriever → riskAnalyzer → __end__
+ * __start__ → inputParser → ruleChecker → claimExtractor → retriever → riskAnalyzer
+ *   → evidenceEvaluator → disclaimerAnalyzer → premiumChecker → priceValidator → disclosureChecker
+ *   → confidenceEstimator → spanLocator → riskScorer → humanReview → __end__
+ *
+ * ruleCheckerはLLMに依存しない決定的な検出を行い、その結果はriskAnalyzerでLLMの評価とマージされる
+ * evidenceEvaluatorは効果・性能のクレームが添付された根拠資料で裏付けられているかを評価する
+ * （根拠資料がない場合は何もしない）
+ * disclaimerAnalyzerは※注記の打消し表示を強調表示と対応付け、打消しの適否を評価する
+ * （不整合・矛盾する打消し表示は独立した評価として追加する）
+ * premiumChecker/priceValidatorは景品類の上限額・二重価格表示を機械的に検証し、
+ * LLMの評価に構造化された根拠を付与する
+ * disclosureCheckerはSNS投稿モードの場合のみ、広告である旨の表示（ステマ規制）を検証する
+ * confidenceEstimatorは検証を終えた個別の評価に確信度を付与し、確信度の低い評価を要判断とする
+ * spanLocatorは全ての評価の表現を元の広告文上の位置に対応付ける（見つからない表現は未検証とする）
+ * riskScorerは検証を終えた個別の評価から総合リスクレベルとスコアを決定的に求める
+ * （未検証の評価はスコアに含めない。LLMの総合判定は比較用にllmOverallRiskとして残す）
+ * humanReviewはレビューを有効にした場合のみ直前で中断し、再開時にレビュアーの判断を反映する
+ * （riskAnalyzer後の機械的な検証まで終えた評価結果をレビュー対象とするため、この位置で中断する）
  */
-export function createAdLinterGraph() {
+export function createAdLinterGraph(options: AdLinterGraphOptions = {}) {
+  const { checkpointer, humanReview: enableReview = false } = options;
+
+  if (enableReview && !checkpointer) {
+    throw new Error("A checkpointer is required to enable human review");
+  }
+
   const workflow = new StateGraph(AgentState)
     // ノードを追加
     .addNode("inputParser", inputParser)
+    .addNode("ruleChecker", ruleChecker)
+    .addNode("claimExtractor", claimExtractor)
     .addNode("retriever", retriever)
     .addNode("riskAnalyzer", riskAnalyzer)
+    .addNode("evidenceEvaluator", evidenceEvaluator)
+    .addNode("disclaimerAnalyzer", disclaimerAnalyzer)
+    .addNode("premiumChecker", premiumChecker)
+    .addNode("priceValidator", priceValidator)
+    .addNode("disclosureChecker", disclosureChecker)
+    .addNode("confidenceEstimator", confidenceEstimator)
+    .addNode("riskScorer", riskScorer)
+    .addNode("spanLocator", spanLocator)
+    .addNode("humanReview", humanReview)
     // エッジを定義（シンプルな直線フロー）
     .addEdge("__start__", "inputParser")
-    .addEdge("inputParser", "retriever")
+    .addEdge("inputParser", "ruleChecker")
+    .addEdge("ruleChecker", "claimExtractor")
+    .addEdge("claimExtractor", "retriever")
     .addEdge("retriever", "riskAnalyzer")
-    .addEdge("riskAnalyzer", END);
+    .addEdge("riskAnalyzer", "evidenceEvaluator")
+    .addEdge("evidenceEvaluator", "disclaimerAnalyzer")
+    .addEdge("disclaimerAnalyzer", "premiumChecker")
+    .addEdge("premiumChecker", "priceValidator")
+    .addEdge("priceValidator", "disclosureChecker")
+    .addEdge("disclosureChecker", "confidenceEstimator")
+    .addEdge("confidenceEstimator", "spanLocator")
+    .addEdge("spanLocator", "riskScorer")
+    .addEdge("riskScorer", "humanReview")
+    .addEdge("humanReview", END);
 
-  return workflow.compile();
+  return workflow.compile({
+    checkpointer,
+    interruptBefore: enableReview ? ["humanReview"] : undefined,
+  });
 }
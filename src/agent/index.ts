@@ -2,50 +2,271 @@
  * 広告リンター Agent エクスポート
  */
 
-import { createAdLinterGraph } from "./graph.js";
 import { getLLMProviderName } from "./llm.js";
 import type { AnalysisResult } from "./state.js";
+import type { RewriteResult, RewriteStopReason } from "./rewrite.js";
+import type { FollowUpAnswer } from "./conversation.js";
+import { formatAdContext } from "./context.js";
+import type { LandingPageAnalysisResult } from "./landingPage.js";
+import type { BatchSummary } from "./batch.js";
+import type { TokenUsage } from "./usage.js";
+import { CONSENSUS_POLICY_LABELS, type ModelVote } from "./consensus.js";
+import { formatViolationType, type ViolationCode } from "./taxonomy.js";
+import { STRICTNESS_PROFILES } from "./strictness.js";
+import { isPageLevel } from "./nodes/spanLocator.js";
+import type { AssessmentConfidence, ConfidenceFactor } from "./confidence.js";
 
 // 型のエクスポート
-export type { RiskAssessment, Citation, AnalysisResult } from "./state.js";
-export type { LLMProvider } from "./llm.js";
+export type {
+  RiskAssessment,
+  Citation,
+  Claim,
+  ClaimType,
+  AssessmentEvidence,
+  AnalysisMode,
+  AnalyzeAdOptions,
+  AnalysisResult,
+} from "./state.js";
+export type { LLMProvider, LLMConfig } from "./llm.js";
+export type { ScoringConfig, ScoreContribution, RiskScore } from "./scoring.js";
+export type { ViolationCode, ViolationCategory, ViolationDefinition } from "./taxonomy.js";
+export type { StrictnessProfile, StrictnessSettings } from "./strictness.js";
+export type { AssessmentConfidence, ConfidenceFactor } from "./confidence.js";
+export type {
+  ConsensusPolicy,
+  ConsensusOptions,
+  ModelVote,
+  AssessmentConsensus,
+  ModelRun,
+  ConsensusParticipant,
+  ConsensusReport,
+} from "./consensus.js";
+export type { RetryPolicy, LLMAttempt, LLMCallRecord, StructuredCallOptions } from "./fallback.js";
+export type { ScriptedResponse, ScriptedResponses } from "./fakeLLM.js";
+export type { RiskRule, RuleFinding } from "./rules/index.js";
+export type {
+  PremiumCampaignType,
+  PremiumInput,
+  PremiumLimitCheck,
+  PriceHistoryEntry,
+  PriceHistoryInput,
+  DoublePriceCheck,
+  DisclosureCheck,
+  DisclosureMarker,
+  InvolvementSignal,
+  Disclaimer,
+  DisclaimerCheck,
+  DisclaimerJudgement,
+} from "./validators/index.js";
+export type { AnalysisEvent, AnalyzeAdRunOptions, AnalyzeAdStreamOptions } from "./analyze.js";
+export type { CacheInfo, CacheKeyInput } from "./cache.js";
+export type { ModelPrice, TokenUsage, UsageBudget, UsageReport } from "./usage.js";
+export type {
+  RewriteOptions,
+  RewriteIteration,
+  RewriteResult,
+  RewriteStopReason,
+} from "./rewrite.js";
+export type {
+  ReviewAction,
+  ReviewDecision,
+  ReviewSubmission,
+  ReviewedAssessment,
+  ReviewRecord,
+  ReviewOptions,
+} from "./review.js";
+export type { AdLinterGraphOptions } from "./graph.js";
+export type { AdContext, AdChannel, CampaignPeriod, ProductCategory } from "./context.js";
+export type {
+  EvidenceDocument,
+  EvidenceKind,
+  SubstantiationCheck,
+  SubstantiationCoverage,
+} from "./evidence.js";
+export type { ConversationMessage, ConversationThread, FollowUpAnswer } from "./conversation.js";
+export type {
+  LandingPage,
+  LandingPageAnalysisResult,
+  LpSegment,
+  LpSegmentKind,
+  LpStyleHints,
+} from "./landingPage.js";
+export type { BatchItem, BatchRecord, BatchResult, BatchOptions, BatchSummary } from "./batch.js";
+export type {
+  ReportFormat,
+  ReportFormatter,
+  ReportFormatOptions,
+  ReportMetadata,
+  JsonReport,
+  JsonFinding,
+  JsonCitation,
+} from "./formatters/index.js";
 
 // 関数のエクスポート
-export { getLLM, getLLMProvider, getLLMProviderName } from "./llm.js";
+export {
+  getLLM,
+  getLLMConfig,
+  getLLMModel,
+  getLLMProvider,
+  getLLMProviderName,
+  isLLMProvider,
+} from "./llm.js";
+export {
+  ScriptedChatModel,
+  ScriptedLLMError,
+  loadScriptedResponses,
+  setScriptedResponses,
+} from "./fakeLLM.js";
 export { createAdLinterGraph } from "./graph.js";
+export { analyzeAd, analyzeAdStream } from "./analyze.js";
+export {
+  invokeStructuredWithFallback,
+  getFallbackChain,
+  getRetryPolicy,
+  DEFAULT_RETRY_POLICY,
+  LLMFallbackError,
+} from "./fallback.js";
+export {
+  scoreAssessments,
+  scoreToLevel,
+  getScoringConfig,
+  resolveScoringConfig,
+  DEFAULT_SCORING_CONFIG,
+  RISK_ORDER,
+} from "./scoring.js";
+export {
+  estimateConfidence,
+  CONFIDENCE_WEIGHTS,
+  DEFAULT_CONFIDENCE_THRESHOLD,
+} from "./confidence.js";
+export {
+  STRICTNESS_PROFILES,
+  DEFAULT_STRICTNESS,
+  getStrictnessSettings,
+  isStrictnessProfile,
+} from "./strictness.js";
+export {
+  VIOLATION_CODES,
+  VIOLATION_TAXONOMY,
+  isViolationCode,
+  resolveViolationCode,
+  formatViolationType,
+} from "./taxonomy.js";
+export { buildConsensus, combineRiskLevels, CONSENSUS_POLICY_LABELS } from "./consensus.js";
+export { AnalysisCache, AnalysisCacheError, buildCacheKey, PROMPT_VERSION } from "./cache.js";
+export {
+  UsageTracker,
+  BudgetExceededError,
+  CHAT_MODEL_PRICES,
+  getChatModelPrice,
+  EMBEDDING_MODEL_PRICES,
+  estimateTokens,
+} from "./usage.js";
+export { rewriteAd } from "./rewrite.js";
+export {
+  startReview,
+  getPendingReview,
+  submitReview,
+  applyReviewDecisions,
+  ReviewError,
+} from "./review.js";
+export { FileCheckpointSaver, CheckpointFileError } from "./checkpointer.js";
+export { createConversation, askFollowUp } from "./conversation.js";
+export {
+  PRODUCT_CATEGORY_LABELS,
+  AD_CHANNEL_LABELS,
+  isProductCategory,
+  isAdChannel,
+  getContextGuidelines,
+  formatAdContext,
+} from "./context.js";
+export { loadEvidenceFile, EvidenceLoadError, EVIDENCE_KIND_LABELS } from "./evidence.js";
+export {
+  parseLandingPage,
+  loadLandingPage,
+  analyzeLandingPage,
+  findSegment,
+  LandingPageLoadError,
+} from "./landingPage.js";
+export {
+  parseBatchCsv,
+  parseBatchJsonl,
+  loadBatchFile,
+  runBatch,
+  BatchInputError,
+} from "./batch.js";
+export { RISK_RULES, runRules } from "./rules/index.js";
+export {
+  formatReport,
+  isReportFormat,
+  buildReportMetadata,
+  formatJsonReport,
+  toJsonReport,
+  formatSarifReport,
+  toSarifLog,
+  formatJUnitReport,
+  formatMarkdownReport,
+  REPORT_FORMATTERS,
+  ANALYSIS_REPORT_JSON_SCHEMA,
+  REPORT_SCHEMA_VERSION,
+  TOOL_NAME,
+} from "./formatters/index.js";
+export {
+  evaluatePremiums,
+  checkPremiumLimit,
+  PremiumInputError,
+  validateDoublePrices,
+  parsePriceHistoryCsv,
+  checkDisclosure,
+  extractDisclaimers,
+} from "./validators/index.js";
+
+/** リスクレベルの表示ラベル */
+const RISK_LABELS = {
+  high: "🔴 高リスク",
+  medium: "🟡 中リスク",
+  low: "🟢 低リスク",
+  none: "⚪ リスクなし",
+};
+
+/** 打消し表示の判定の表示ラベル */
+const DISCLAIMER_LABELS = {
+  effective: "✅ 適切",
+  insufficient: "⚠️ 打消しとして不十分",
+  mismatched: "❌ 強調表示と不整合",
+  contradictory: "❌ 強調表示と矛盾",
+};
 
 /**
- * 広告文の景品表示法リスクを分析
- *
- * @param adText - 分析対象の広告文
- * @returns 分析結果
- *
- * @example
- * ```typescript
- * const result = await analyzeAd("業界No.1の効果！今だけ半額！");
- * console.log(result.overallRisk); // "high"
- * console.log(result.summary);
- * ```
+ * モデルごとの判断を1行の表示用文字列に変換
  */
-export async function analyzeAd(adText: string): Promise<AnalysisResult> {
-  const startTime = Date.now();
-
-  // グラフを作成
-  const graph = createAdLinterGraph();
+function formatVotes(votes: ModelVote[]): string {
+  return votes.map((v) => `${v.provider}: ${v.riskLevel}`).join(" / ");
+}
 
-  // 実行
-  const result = await graph.invoke({ adText });
+/**
+ * トークン使用量・コストを1行の表示用文字列に変換
+ */
+function formatTokenUsage(usage: TokenUsage): string {
+  return `入力 ${usage.inputTokens} / 出力 ${usage.outputTokens} / Embedding 約${usage.embeddingTokens}トークン（$${usage.costUsd.toFixed(4)}）`;
+}
 
-  const processingTime = Date.now() - startTime;
+/** 確信度の要素の表示ラベル */
+const CONFIDENCE_FACTOR_LABELS: Record<ConfidenceFactor, string> = {
+  model: "自己申告",
+  rules: "ルール一致",
+  citations: "引用",
+  retrieval: "検索類似度",
+};
 
-  return {
-    adText: result.adText,
-    riskAssessments: result.riskAssessments,
-    overallRisk: result.overallRisk,
-    summary: result.summary,
-    processingTime,
-    retrievedDocsCount: result.retrievedDocs.length,
-  };
+/**
+ * 確信度を表示用文字列に変換（例: "72%（自己申告 80% / ルール一致 100% / 引用 50%）"）
+ */
+function formatConfidence(confidence: AssessmentConfidence): string {
+  const factors = (Object.entries(confidence.factors) as [ConfidenceFactor, number][])
+    .map(([factor, value]) => `${CONFIDENCE_FACTOR_LABELS[factor]} ${Math.round(value * 100)}%`)
+    .join(" / ");
+  return `${Math.round(confidence.value * 100)}%（${factors}）`;
 }
 
 /**
@@ -61,44 +282,415 @@ export function formatAnalysisResult(result: AnalysisResult): string {
   lines.push("");
 
   // 総合評価
-  const riskLabels = {
-    high: "🔴 高リスク",
-    medium: "🟡 中リスク",
-    low: "🟢 低リスク",
-    none: "⚪ リスクなし",
+  const premiumLimitLabels = {
+    pass: "✅ 上限内",
+    fail: "❌ 上限超過",
+    insufficient_data: "❔ 判定不能（情報不足）",
+  };
+  const doublePriceLabels = {
+    valid: "✅ 妥当",
+    invalid: "❌ 不当",
+    needs_evidence: "❔ 根拠確認が必要",
   };
-  lines.push(`【総合評価】${riskLabels[result.overallRisk]}`);
+  const substantiationLabels = {
+    covered: "✅ 裏付けあり",
+    weak: "⚠️ 裏付けが不十分",
+    uncovered: "❌ 裏付けなし",
+  };
+  const score = result.riskScore ? `（スコア ${result.riskScore.score}/100）` : "";
+  lines.push(`【総合評価】${RISK_LABELS[result.overallRisk]}${score}`);
+  if (result.llmOverallRisk && result.llmOverallRisk !== result.overallRisk) {
+    lines.push(
+      `  ※ LLMの総合判定は${RISK_LABELS[result.llmOverallRisk]}（個別の評価から求めた判定と異なります）`,
+    );
+  }
+  if (result.strictness) {
+    const strictness = STRICTNESS_PROFILES[result.strictness];
+    const excluded: string[] = [];
+    if (strictness.minConfidence > 0) {
+      excluded.push(`LLMの自己申告の確信度が${strictness.minConfidence}未満の指摘`);
+    }
+    const excludedSeverities = (["high", "medium", "low"] as const).filter(
+      (level) => !strictness.ruleSeverities.includes(level),
+    );
+    if (excludedSeverities.length > 0) {
+      const labels = excludedSeverities.map((level) => RISK_LABELS[level]).join("・");
+      excluded.push(`${labels}のルールの検出結果`);
+    }
+    if (!strictness.includeUnconfirmedRuleFindings) {
+      excluded.push("LLMが問題と判断しなかったルールのみの検出結果");
+    }
+    const note = excluded.length > 0 ? `（${excluded.join("、")}は除外）` : "";
+    lines.push(`  審査の厳しさ: ${strictness.label}${note}`);
+  }
   lines.push("");
 
+  // 前提条件
+  if (Object.keys(result.context).length > 0) {
+    lines.push("【前提条件】");
+    lines.push(formatAdContext(result.context));
+    lines.push("");
+  }
+
   // サマリー
   lines.push("【サマリー】");
   lines.push(result.summary);
   lines.push("");
 
-  // 詳細評価
-  if (result.riskAssessments.length > 0) {
+  // 詳細評価（確信度の低い評価は確定した指摘と分け、人による判断が必要な評価として表示する）
+  const sections = [
+    {
+      title: "【検出されたリスク】",
+      assessments: result.riskAssessments.filter((a) => !a.confidence?.uncertain),
+    },
+    {
+      title: "【要判断：確信度が低く、人による判断が必要な指摘（スコアには含めない）】",
+      assessments: result.riskAssessments.filter((a) => a.confidence?.uncertain),
+    },
+  ];
+  for (const section of sections) {
+    if (section.assessments.length === 0) continue;
     lines.push("-".repeat(60));
-    lines.push("【検出されたリスク】");
+    lines.push(section.title);
     lines.push("");
 
-    for (const assessment of result.riskAssessments) {
-      lines.push(`▶ 表現: "${assessment.expression}"`);
-      lines.push(`  リスク: ${riskLabels[assessment.riskLevel]}`);
+    for (const assessment of section.assessments) {
+      const claim = result.claims.find((c) => c.id === assessment.claimId);
+      if (isPageLevel(assessment)) {
+        lines.push("▶ 表現: （広告全体）");
+        lines.push("  位置: 広告全体に関する指摘（入力オプションによる判定）");
+      } else {
+        lines.push(`▶ 表現: "${assessment.expression}"`);
+      }
+      if (assessment.verified === false) {
+        lines.push("  位置: ⚠️ 広告文中に見つかりません（未検証）");
+      } else if (assessment.start !== undefined && assessment.end !== undefined) {
+        lines.push(`  位置: ${assessment.start}〜${assessment.end}文字目`);
+      }
+      if (assessment.selector) {
+        lines.push(`  セレクタ: ${assessment.selector}`);
+      }
+      if (claim) {
+        lines.push(`  クレーム: [${claim.id}] (${claim.type}) ${claim.text}`);
+      }
+      lines.push(`  リスク: ${RISK_LABELS[assessment.riskLevel]}`);
+      if (assessment.confidence) {
+        lines.push(`  確信度: ${formatConfidence(assessment.confidence)}`);
+      }
       lines.push(`  違反類型: ${assessment.violationType}`);
+      if (assessment.ruleIds && assessment.ruleIds.length > 0) {
+        lines.push(`  検出ルール: ${assessment.ruleIds.join(", ")}`);
+      }
       lines.push(`  判断理由: ${assessment.reasoning}`);
       lines.push(`  改善提案: ${assessment.suggestion}`);
+      const premiumLimit = assessment.evidence?.premiumLimit;
+      if (premiumLimit) {
+        lines.push(
+          `  景品上限判定: ${premiumLimit.campaignTypeLabel} ${premiumLimitLabels[premiumLimit.status]}`,
+        );
+        for (const note of premiumLimit.notes) {
+          lines.push(`    - ${note}`);
+        }
+      }
+      const substantiation = assessment.evidence?.substantiation;
+      if (substantiation) {
+        lines.push(`  根拠資料判定: ${substantiationLabels[substantiation.coverage]}`);
+        if (substantiation.evidenceIds.length > 0) {
+          lines.push(`    - 対応資料: ${substantiation.evidenceIds.join(", ")}`);
+        }
+        for (const gap of substantiation.gaps) {
+          lines.push(`    - ${gap}`);
+        }
+      }
+      for (const check of assessment.evidence?.disclaimers ?? []) {
+        lines.push(
+          `  打消し表示: ${check.disclaimer.marker} "${check.disclaimer.text}" ${DISCLAIMER_LABELS[check.judgement]}`,
+        );
+      }
+      const doublePrice = assessment.evidence?.doublePrice;
+      if (doublePrice) {
+        lines.push(`  二重価格判定: ${doublePriceLabels[doublePrice.status]}`);
+        for (const note of doublePrice.notes) {
+          lines.push(`    - ${note}`);
+        }
+      }
       if (assessment.citations.length > 0) {
         lines.push(`  根拠: ${assessment.citations.map((c) => c.id).join(", ")}`);
       }
+      if (assessment.consensus) {
+        lines.push(
+          `  モデル間の判断: ${formatVotes(assessment.consensus.votes)}（一致率 ${Math.round(assessment.consensus.agreement * 100)}%）`,
+        );
+      }
       lines.push("");
     }
   }
 
+  // 合議モードで判断が分かれた指摘（法務レビューで優先的に確認する）
+  const disputed = result.riskAssessments.filter((a) => a.consensus?.disagreement);
+  if (disputed.length > 0) {
+    lines.push("-".repeat(60));
+    lines.push("【要レビュー：モデル間で判断が分かれた指摘】");
+    for (const assessment of disputed) {
+      lines.push(
+        `  - "${assessment.expression}" → ${RISK_LABELS[assessment.riskLevel]}（${formatVotes(assessment.consensus?.votes ?? [])}）`,
+      );
+    }
+    lines.push("");
+  }
+
+  // 広告である旨の表示（SNS投稿モード）
+  if (result.disclosureCheck) {
+    const disclosureLabels = {
+      adequate: "✅ 適切",
+      inadequate: "⚠️ 不明瞭・埋没",
+      missing: "❌ 表示なし",
+      not_applicable: "－ 関与・表示なし",
+    };
+    const positionLabels = { beginning: "冒頭", body: "本文中", buried: "ハッシュタグに埋没" };
+    lines.push("-".repeat(60));
+    lines.push(`【広告である旨の表示】${disclosureLabels[result.disclosureCheck.status]}`);
+    for (const marker of result.disclosureCheck.markers) {
+      lines.push(
+        `  - "${marker.text}"（${marker.kind === "clear" ? "明瞭" : "不明瞭"} / ${positionLabels[marker.position]}）`,
+      );
+    }
+    for (const note of result.disclosureCheck.notes) {
+      lines.push(`  ${note}`);
+    }
+    lines.push("");
+  }
+
+  // 根拠資料の評価（裏付けのない表示と不十分な表示を分けて表示）
+  const uncovered = result.substantiationChecks.filter((c) => c.coverage === "uncovered");
+  const weak = result.substantiationChecks.filter((c) => c.coverage === "weak");
+  if (uncovered.length > 0 || weak.length > 0) {
+    lines.push("-".repeat(60));
+    lines.push("【根拠資料の評価】");
+    if (uncovered.length > 0) {
+      lines.push("  根拠資料のない効果・性能の表示:");
+      for (const check of uncovered) {
+        lines.push(`  - "${check.expression}" ${check.reasoning}`);
+      }
+    }
+    if (weak.length > 0) {
+      lines.push("  根拠資料が不十分な効果・性能の表示:");
+      for (const check of weak) {
+        lines.push(`  - "${check.expression}" ${check.reasoning}`);
+      }
+    }
+    lines.push("");
+  }
+
+  // 法務レビュー
+  if (result.review) {
+    const reviewActionLabels = {
+      accept: "承認",
+      downgrade: "引き下げ",
+      upgrade: "引き上げ",
+      dismiss: "指摘取り消し",
+    };
+    lines.push("-".repeat(60));
+    lines.push(`【法務レビュー】${result.review.reviewer}（${result.review.reviewedAt}）`);
+    lines.push(
+      `  総合評価: AI ${RISK_LABELS[result.review.aiOverallRisk]} → 最終 ${RISK_LABELS[result.review.finalOverallRisk]}`,
+    );
+    if (result.review.comment) {
+      lines.push(`  コメント: ${result.review.comment}`);
+    }
+    lines.push("");
+    for (const reviewed of result.review.assessments) {
+      lines.push(`▶ 表現: "${reviewed.assessment.expression}"`);
+      lines.push(
+        `  AI: ${RISK_LABELS[reviewed.assessment.riskLevel]} / レビュー: ${reviewActionLabels[reviewed.decision.action]} → ${RISK_LABELS[reviewed.finalRiskLevel]}`,
+      );
+      if (reviewed.decision.comment) {
+        lines.push(`  コメント: ${reviewed.decision.comment}`);
+      }
+    }
+    lines.push("");
+  }
+
   // メタ情報
   lines.push("-".repeat(60));
   lines.push(`処理時間: ${result.processingTime}ms`);
+  if (result.cache) {
+    lines.push(
+      `キャッシュ: ${result.cache.hit ? `ヒット（${result.cache.cachedAt}に保存）` : "ミス（結果を保存）"}`,
+    );
+  }
   lines.push(`参照文書数: ${result.retrievedDocsCount}`);
+  if (result.usage) {
+    lines.push(`トークン使用量: ${formatTokenUsage(result.usage.total)}`);
+    for (const [node, usage] of Object.entries(result.usage.byNode)) {
+      lines.push(`  - ${node}: ${formatTokenUsage(usage)}`);
+    }
+  }
   lines.push(`LLMプロバイダー: ${getLLMProviderName()}`);
+  if (result.consensus) {
+    const participants = result.consensus.participants.map((p) =>
+      p.error ? `${p.provider}: 失敗（${p.error}）` : `${p.provider}: ${p.overallRisk}`,
+    );
+    lines.push(
+      `合議: ${CONSENSUS_POLICY_LABELS[result.consensus.policy]}（${participants.join(" / ")}）`,
+    );
+  }
+  if (result.riskAnalysisCall) {
+    const call = result.riskAnalysisCall;
+    const fallback = call.history.some((a) => a.provider !== call.provider)
+      ? "、フォールバック"
+      : "";
+    lines.push(
+      `リスク評価: ${getLLMProviderName({ provider: call.provider, model: call.model })}（試行${call.attempts}回${fallback}）`,
+    );
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * LPの分析結果を整形して表示用文字列に変換
+ * 分析結果に加えて、LP上の注記（※印・小さい文字等）の表示位置と文字の大きさを表示する
+ */
+export function formatLandingPageResult(result: LandingPageAnalysisResult): string {
+  const lines: string[] = [formatAnalysisResult(result)];
+
+  const footnotes = result.page.segments.filter((s) => s.kind === "footnote");
+  if (footnotes.length > 0) {
+    lines.push("-".repeat(60));
+    lines.push(`【LP上の注記】${result.page.title}`);
+    for (const segment of footnotes) {
+      const style = [
+        segment.style?.fontSize && `font-size: ${segment.style.fontSize}`,
+        segment.style?.color && `color: ${segment.style.color}`,
+        segment.style?.small && "⚠️ 小さい文字",
+      ].filter(Boolean);
+      lines.push(`  - ${segment.selector}${style.length > 0 ? `（${style.join(" / ")}）` : ""}`);
+      lines.push(`    "${segment.text}"`);
+      for (const check of result.disclaimerChecks) {
+        if (segment.start <= check.disclaimer.start && check.disclaimer.start < segment.end) {
+          lines.push(
+            `    打消し表示 ${check.disclaimer.marker}: ${DISCLAIMER_LABELS[check.judgement]}`,
+          );
+        }
+      }
+    }
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * バッチ分析の集計結果を整形して表示用文字列に変換
+ */
+export function formatBatchSummary(summary: BatchSummary): string {
+  const lines: string[] = [];
+
+  lines.push("=".repeat(60));
+  lines.push("バッチ分析サマリー");
+  lines.push("=".repeat(60));
+  lines.push("");
+  lines.push(
+    `件数: ${summary.total}（成功 ${summary.succeeded} / 失敗 ${summary.failed} / 再開によりスキップ ${summary.skipped}）`,
+  );
+  lines.push("");
+
+  lines.push(`トークン使用量: ${formatTokenUsage(summary.usage)}`);
+  lines.push("");
+
+  lines.push("【総合リスク別】");
+  for (const level of ["high", "medium", "low", "none"] as const) {
+    lines.push(`  ${RISK_LABELS[level]}: ${summary.byRiskLevel[level]}件`);
+  }
+  lines.push("");
+
+  const violationCodes = (
+    Object.entries(summary.byViolationCode) as [ViolationCode, number][]
+  ).sort((a, b) => b[1] - a[1]);
+  if (violationCodes.length > 0) {
+    lines.push("【違反類型別の指摘件数】");
+    for (const [code, count] of violationCodes) {
+      lines.push(`  ${formatViolationType(code)}: ${count}件`);
+    }
+    lines.push("");
+  }
+
+  if (summary.failures.length > 0) {
+    lines.push("【失敗した行】（再実行すると失敗した行のみ再分析します）");
+    for (const failure of summary.failures) {
+      lines.push(`  - ${failure.id}: ${failure.error}`);
+    }
+    lines.push("");
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * フォローアップ質問への回答を整形して表示用文字列に変換
+ */
+export function formatFollowUpAnswer(answer: FollowUpAnswer, result: AnalysisResult): string {
+  const lines: string[] = [answer.answer];
+
+  const related = answer.relatedAssessments
+    .map((i) => result.riskAssessments[i])
+    .filter((a) => a !== undefined);
+  if (related.length > 0) {
+    lines.push("");
+    lines.push(`関連する指摘: ${related.map((a) => `"${a.expression}"`).join(", ")}`);
+  }
+  if (answer.citations.length > 0) {
+    lines.push(`根拠: ${answer.citations.map((c) => c.id).join(", ")}`);
+  }
+
+  return lines.join("\n");
+}
+
+/** リライトの終了理由の表示ラベル */
+const REWRITE_STOP_LABELS: Record<RewriteStopReason, string> = {
+  converged: "✅ 目標リスクに到達",
+  max_iterations: "⚠️ 最大反復回数に到達（要確認）",
+  no_change: "⚠️ リライトで広告文が変化しなかったため終了（要確認）",
+};
+
+/**
+ * リライト結果を整形して表示用文字列に変換
+ */
+export function formatRewriteResult(result: RewriteResult): string {
+  const lines: string[] = [];
+
+  // ヘッダー
+  lines.push("=".repeat(60));
+  lines.push("広告文リライトレポート");
+  lines.push("=".repeat(60));
+  lines.push("");
+
+  // 結果
+  lines.push(`【結果】${REWRITE_STOP_LABELS[result.stopReason]}`);
+  lines.push(`【最終リスク】${RISK_LABELS[result.finalRisk]}`);
+  lines.push("");
+
+  // 各反復の経過
+  for (const it of result.iterations) {
+    lines.push("-".repeat(60));
+    lines.push(
+      `【反復 ${it.iteration}】${RISK_LABELS[it.overallRisk]}（指摘 ${it.result.riskAssessments.length}件）`,
+    );
+    lines.push(it.adText);
+    if (it.changes.length > 0) {
+      lines.push("");
+      lines.push("  変更点:");
+      for (const change of it.changes) {
+        lines.push(`  - ${change}`);
+      }
+    }
+    lines.push("");
+  }
+
+  // 最終版
+  lines.push("=".repeat(60));
+  lines.push("【最終版】");
+  lines.push(result.finalText);
 
   return lines.join("\n");
 }
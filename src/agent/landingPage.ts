@@ -0,0 +1,540 @@
+/**
+ * ランディングページ（LP）のHTML入力
+ * HTMLから表示されるテキストを構造（見出し・価格・注記・代替テキスト）とともに抽出し、
+ * 分析結果の各リスク評価をCSSセレクタに対応付ける
+ */
+
+import { readFile } from "fs/promises";
+import * as cheerio from "cheerio";
+import { analyzeAd, type AnalyzeAdRunOptions } from "./analyze.js";
+import { isPageLevel } from "./nodes/spanLocator.js";
+import type { AnalysisResult, AnalyzeAdOptions, RiskAssessment } from "./state.js";
+
+/** LPの読み込みエラー */
+export class LandingPageLoadError extends Error {
+  constructor(
+    message: string,
+    public readonly filePath?: string,
+    public readonly cause?: Error,
+  ) {
+    super(message);
+    this.name = "LandingPageLoadError";
+  }
+}
+
+/**
+ * LP上のテキストの種類
+ * - heading: 見出し（h1〜h6）
+ * - price: 価格の表示
+ * - footnote: 注記（※印・小さい文字・注記用のクラス）
+ * - alt: 画像の代替テキスト
+ * - text: その他の本文
+ */
+export type LpSegmentKind = "heading" | "price" | "footnote" | "alt" | "text";
+
+/** インラインスタイル等から読み取った表示上のヒント */
+export interface LpStyleHints {
+  /** 文字の大きさ（style属性のfont-sizeの値。例: "10px"） */
+  fontSize?: string;
+  /** 文字色（style属性のcolorの値） */
+  color?: string;
+  /** 周囲より小さい文字で表示されている（smallタグ・小さいfont-size） */
+  small?: boolean;
+}
+
+/** LP上のテキストのまとまり */
+export interface LpSegment {
+  /** 要素のCSSセレクタ */
+  selector: string;
+  /** 種類 */
+  kind: LpSegmentKind;
+  /** 要素のタグ名 */
+  tag: string;
+  /** テキスト */
+  text: string;
+  /** 抽出テキスト（LandingPage.text）上の開始位置 */
+  start: number;
+  /** 抽出テキスト上の終了位置（排他的） */
+  end: number;
+  /** 表示上のヒント（インラインスタイル等がない場合はundefined） */
+  style?: LpStyleHints;
+}
+
+/** HTMLから抽出したLP */
+export interface LandingPage {
+  /** ページタイトル */
+  title: string;
+  /** 表示されるテキスト（セグメントを改行で連結したもの。分析対象の広告文になる） */
+  text: string;
+  /** テキストのまとまり（出現順） */
+  segments: LpSegment[];
+}
+
+/** LPの分析結果 */
+export interface LandingPageAnalysisResult extends AnalysisResult {
+  /** 分析対象のLP */
+  page: LandingPage;
+}
+
+/** cheerioの要素ノード */
+type DomElement = Extract<Parameters<typeof cheerio.contains>[0], { tagName: string }>;
+
+/** テキストを抽出しない要素 */
+const SKIP_TAGS = new Set([
+  "head",
+  "script",
+  "style",
+  "noscript",
+  "template",
+  "svg",
+  "iframe",
+  "object",
+  "canvas",
+]);
+
+/** ブロック要素（この単位でテキストを区切る） */
+const BLOCK_TAGS = new Set([
+  "address",
+  "article",
+  "aside",
+  "blockquote",
+  "body",
+  "caption",
+  "dd",
+  "details",
+  "dialog",
+  "div",
+  "dl",
+  "dt",
+  "fieldset",
+  "figcaption",
+  "figure",
+  "footer",
+  "form",
+  "h1",
+  "h2",
+  "h3",
+  "h4",
+  "h5",
+  "h6",
+  "header",
+  "hr",
+  "li",
+  "main",
+  "nav",
+  "ol",
+  "p",
+  "pre",
+  "section",
+  "summary",
+  "table",
+  "tbody",
+  "td",
+  "tfoot",
+  "th",
+  "thead",
+  "tr",
+  "ul",
+]);
+
+/** 見出しのタグ */
+const HEADING_TAGS = /^h[1-6]$/;
+
+/**
+ * 注記とみなすクラス名・ID
+ * 語の一部に一致しないよう、空白・ハイフン・アンダースコアで区切られた語として照合する（「notebook」等を除く）
+ */
+const FOOTNOTE_CLASS_PATTERN =
+  /(?:^|[\s_-])(?:foot)?(?:notes?|caution|annotation|disclaimer|attention|kome|chui|chuui)(?=$|[\s_-])/i;
+
+/** 価格の表示とみなすクラス名・ID（「coffee-menu」等を除く） */
+const PRICE_CLASS_PATTERN = /(?:^|[\s_-])(?:prices?|costs?|fees?)(?=$|[\s_-])/i;
+
+/** 価格の表示とみなすテキスト */
+const PRICE_TEXT_PATTERN = /[0-9０-９][0-9０-９,，]*\s*円|[¥￥]\s*[0-9０-９]|税込|税抜|税別/;
+
+/** 注記とみなすテキストの先頭 */
+const FOOTNOTE_TEXT_PATTERN = /^[※＊*]/;
+
+/** 小さい文字とみなすfont-sizeのキーワード */
+const SMALL_FONT_KEYWORDS = new Set(["smaller", "small", "x-small", "xx-small"]);
+
+/** 小さい文字とみなすfont-sizeの上限（単位ごと） */
+const SMALL_FONT_THRESHOLDS: Record<string, number> = {
+  px: 12,
+  pt: 9,
+  em: 0.8,
+  rem: 0.8,
+  "%": 80,
+};
+
+/**
+ * style属性を宣言のMapに変換
+ */
+function parseStyle(style: string | undefined): Map<string, string> {
+  const declarations = new Map<string, string>();
+  for (const declaration of (style ?? "").split(";")) {
+    const [property, ...rest] = declaration.split(":");
+    const value = rest.join(":").trim();
+    if (property.trim() && value) {
+      declarations.set(property.trim().toLowerCase(), value.replace(/\s*!important$/i, ""));
+    }
+  }
+  return declarations;
+}
+
+/**
+ * font-sizeの値が小さい文字かを判定
+ */
+function isSmallFontSize(fontSize: string): boolean {
+  const value = fontSize.trim().toLowerCase();
+  if (SMALL_FONT_KEYWORDS.has(value)) {
+    return true;
+  }
+  const match = value.match(/^([0-9.]+)(px|pt|em|rem|%)$/);
+  return match !== null && Number(match[1]) < SMALL_FONT_THRESHOLDS[match[2]];
+}
+
+/**
+ * 要素が非表示かを判定（hidden属性・aria-hidden・display:none・visibility:hidden）
+ */
+function isHidden(el: DomElement): boolean {
+  if (el.attribs.hidden !== undefined || el.attribs["aria-hidden"] === "true") {
+    return true;
+  }
+  const style = parseStyle(el.attribs.style);
+  return style.get("display") === "none" || style.get("visibility") === "hidden";
+}
+
+/**
+ * 要素とその祖先のインラインスタイルから表示上のヒントを取得（近い要素の指定を優先）
+ */
+function styleHints(el: DomElement): LpStyleHints | undefined {
+  const hints: LpStyleHints = {};
+  for (let node: DomElement | null = el; node; node = parentElement(node)) {
+    const style = parseStyle(node.attribs.style);
+    hints.fontSize ??= style.get("font-size");
+    hints.color ??= style.get("color");
+    if (node.tagName === "small") {
+      hints.small = true;
+    }
+  }
+  if (hints.fontSize && isSmallFontSize(hints.fontSize)) {
+    hints.small = true;
+  }
+  return hints.fontSize || hints.color || hints.small ? hints : undefined;
+}
+
+/**
+ * 親要素を取得（ルートの場合はnull）
+ */
+function parentElement(el: DomElement): DomElement | null {
+  const parent = el.parent;
+  return parent && parent.type === "tag" ? (parent as DomElement) : null;
+}
+
+/**
+ * 子要素のうち要素ノードのみを取得
+ */
+function childElements(el: DomElement): DomElement[] {
+  return el.children.filter((c): c is DomElement => c.type === "tag");
+}
+
+/**
+ * 要素がブロック要素を含むかを判定
+ */
+function containsBlock(el: DomElement): boolean {
+  return childElements(el).some(
+    (child) =>
+      !SKIP_TAGS.has(child.tagName) && (BLOCK_TAGS.has(child.tagName) || containsBlock(child)),
+  );
+}
+
+/**
+ * CSSセレクタに使える識別子か
+ */
+function isIdentifier(value: string): boolean {
+  return /^-?[A-Za-z_][\w-]*$/.test(value);
+}
+
+/**
+ * 要素のCSSセレクタを作成
+ * IDを持つ祖先があればそこを起点にし、それ以外はタグ名・クラス名・:nth-of-typeでbodyからの経路を表す
+ */
+function buildSelector(el: DomElement): string {
+  const parts: string[] = [];
+  for (let node: DomElement | null = el; node; node = parentElement(node)) {
+    const id = node.attribs.id;
+    if (id && isIdentifier(id)) {
+      parts.unshift(`#${id}`);
+      break;
+    }
+    if (node.tagName === "body" || node.tagName === "html") {
+      parts.unshift("body");
+      break;
+    }
+    let part = node.tagName;
+    const className = (node.attribs.class ?? "").split(/\s+/).find(isIdentifier);
+    if (className) {
+      part += `.${className}`;
+    }
+    const parent = parentElement(node);
+    if (parent) {
+      const sameTag = childElements(parent).filter((c) => c.tagName === node?.tagName);
+      if (sameTag.length > 1) {
+        part += `:nth-of-type(${sameTag.indexOf(node) + 1})`;
+      }
+    }
+    parts.unshift(part);
+  }
+  return parts.join(" > ");
+}
+
+/**
+ * 要素が注記・価格用のクラス名・IDを持つか（祖先を含む）
+ */
+function hasMarkerClass(el: DomElement, pattern: RegExp): boolean {
+  for (let node: DomElement | null = el; node; node = parentElement(node)) {
+    if (pattern.test(`${node.attribs.class ?? ""} ${node.attribs.id ?? ""}`)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * テキストのまとまりの種類を判定
+ */
+function classifySegment(el: DomElement, text: string, style?: LpStyleHints): LpSegmentKind {
+  for (let node: DomElement | null = el; node; node = parentElement(node)) {
+    if (HEADING_TAGS.test(node.tagName)) {
+      return "heading";
+    }
+  }
+  if (
+    FOOTNOTE_TEXT_PATTERN.test(text) ||
+    style?.small ||
+    hasMarkerClass(el, FOOTNOTE_CLASS_PATTERN)
+  ) {
+    return "footnote";
+  }
+  if (PRICE_TEXT_PATTERN.test(text) || hasMarkerClass(el, PRICE_CLASS_PATTERN)) {
+    return "price";
+  }
+  return "text";
+}
+
+/**
+ * インライン要素・テキストノードから表示されるテキストを取得（brは改行にする）
+ */
+function inlineText(nodes: DomElement["children"]): string {
+  return nodes
+    .map((node) => {
+      if (node.type === "text") {
+        return (node as { data: string }).data.replace(/\s+/g, " ");
+      }
+      if (node.type !== "tag") {
+        return "";
+      }
+      const el = node as DomElement;
+      if (SKIP_TAGS.has(el.tagName) || isHidden(el)) {
+        return "";
+      }
+      if (el.tagName === "br") {
+        return "\n";
+      }
+      if (el.tagName === "img") {
+        return el.attribs.alt ?? "";
+      }
+      return inlineText(el.children);
+    })
+    .join("");
+}
+
+/**
+ * 行ごとに前後の空白を除去し、空行を取り除く
+ */
+function tidyText(text: string): string {
+  return text
+    .split("\n")
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0)
+    .join("\n");
+}
+
+/**
+ * HTMLからLPのテキストと構造を抽出
+ *
+ * - script・style・非表示要素（hidden属性、display:none等）は除外する
+ * - ブロック要素ごとにテキストのまとまり（セグメント）とし、画像のalt属性は独立したセグメントにする
+ * - 各セグメントに要素のCSSセレクタ、種類（見出し・価格・注記等）、font-size等の表示上のヒントを記録する
+ *
+ * @example
+ * ```typescript
+ * const page = parseLandingPage('<h1>シミが消える※1</h1><p style="font-size:10px">※1 メイクアップ効果</p>');
+ * // page.text => "シミが消える※1\n※1 メイクアップ効果"
+ * // page.segments[1] => { selector: "body > p", kind: "footnote", style: { fontSize: "10px", small: true }, ... }
+ * ```
+ */
+export function parseLandingPage(html: string | Buffer): LandingPage {
+  // Bufferの場合はmetaタグ等から文字コードを判定する（Shift_JISで保存されたページに対応）
+  const $ = typeof html === "string" ? cheerio.load(html) : cheerio.loadBuffer(html);
+  const segments: LpSegment[] = [];
+  let offset = 0;
+
+  const pushSegment = (el: DomElement, kind: LpSegmentKind | undefined, rawText: string) => {
+    const text = tidyText(rawText);
+    if (text.length === 0) {
+      return;
+    }
+    const style = styleHints(el);
+    if (segments.length > 0) {
+      offset += 1; // 区切りの改行
+    }
+    segments.push({
+      selector: buildSelector(el),
+      kind: kind ?? classifySegment(el, text, style),
+      tag: el.tagName,
+      text,
+      start: offset,
+      end: offset + text.length,
+      ...(style && { style }),
+    });
+    offset += text.length;
+  };
+
+  const walk = (container: DomElement) => {
+    // ブロック要素に挟まれたインライン要素・テキストをまとめて1つのセグメントにする
+    let run: DomElement["children"] = [];
+    const flush = () => {
+      const elements = run.filter((n): n is DomElement => n.type === "tag");
+      const onlyText = run.every(
+        (n) => n.type !== "text" || !/\S/.test((n as { data: string }).data),
+      );
+      // 1つのインライン要素だけで構成される場合は、その要素をセグメントの要素とする
+      const owner = elements.length === 1 && onlyText ? elements[0] : container;
+      pushSegment(owner, undefined, inlineText(run));
+      run = [];
+    };
+
+    for (const node of container.children) {
+      if (node.type !== "tag") {
+        if (node.type === "text") {
+          run.push(node);
+        }
+        continue;
+      }
+      const el = node as DomElement;
+      if (SKIP_TAGS.has(el.tagName) || isHidden(el)) {
+        continue;
+      }
+      if (el.tagName === "img") {
+        flush();
+        pushSegment(el, "alt", el.attribs.alt ?? "");
+        continue;
+      }
+      if (BLOCK_TAGS.has(el.tagName) || containsBlock(el)) {
+        flush();
+        walk(el);
+        continue;
+      }
+      run.push(el);
+    }
+    flush();
+  };
+
+  const body = $("body").get(0);
+  if (body) {
+    walk(body);
+  }
+
+  return {
+    title: $("title").first().text().trim(),
+    text: segments.map((s) => s.text).join("\n"),
+    segments,
+  };
+}
+
+/**
+ * ローカルのHTMLファイル（保存したWebページを含む）を読み込んでLPを抽出
+ * @throws {LandingPageLoadError} 読み込み失敗時、または表示されるテキストがない場合
+ */
+export async function loadLandingPage(filePath: string): Promise<LandingPage> {
+  let buffer: Buffer;
+  try {
+    buffer = await readFile(filePath);
+  } catch (e) {
+    throw new LandingPageLoadError(
+      `Failed to read HTML file: ${e instanceof Error ? e.message : String(e)}`,
+      filePath,
+      e instanceof Error ? e : undefined,
+    );
+  }
+
+  const page = parseLandingPage(buffer);
+  if (page.text.length === 0) {
+    throw new LandingPageLoadError(`No visible text in HTML file: ${filePath}`, filePath);
+  }
+  return page;
+}
+
+/**
+ * 抽出テキスト上の範囲に対応するセグメントを取得（範囲と最も重なるセグメント）
+ */
+export function findSegment(page: LandingPage, start: number, end: number): LpSegment | undefined {
+  let best: LpSegment | undefined;
+  let bestOverlap = 0;
+  for (const segment of page.segments) {
+    const overlap = Math.min(end, segment.end) - Math.max(start, segment.start);
+    // 長さ0の範囲は開始位置を含むセグメントとする
+    const score = start === end && segment.start <= start && start < segment.end ? 1 : overlap;
+    if (score > bestOverlap) {
+      best = segment;
+      bestOverlap = score;
+    }
+  }
+  return best;
+}
+
+/**
+ * リスク評価の表現をセグメントに対応付け
+ * 位置が特定できていればその範囲で、特定できていなければ表現を含むセグメントを探す
+ * （広告全体に関する評価はどのセグメントにも対応付けない）
+ */
+function locateAssessment(page: LandingPage, assessment: RiskAssessment): LpSegment | undefined {
+  if (assessment.start !== undefined && assessment.end !== undefined) {
+    return findSegment(page, assessment.start, assessment.end);
+  }
+  if (isPageLevel(assessment)) {
+    return undefined;
+  }
+  return page.segments.find((s) => s.text.includes(assessment.expression.trim()));
+}
+
+/**
+ * LPの景品表示法リスクを分析
+ * LPの表示テキストを広告文として分析し、各リスク評価に該当要素のCSSセレクタを付与する
+ *
+ * @example
+ * ```typescript
+ * const page = await loadLandingPage("saved/lp.html");
+ * const result = await analyzeLandingPage(page, { productCategory: "cosmetics", channel: "web" });
+ * for (const a of result.riskAssessments) console.log(a.selector, a.expression);
+ * ```
+ */
+export async function analyzeLandingPage(
+  page: LandingPage,
+  options: AnalyzeAdOptions = {},
+  runOptions: AnalyzeAdRunOptions = {},
+): Promise<LandingPageAnalysisResult> {
+  const result = await analyzeAd(page.text, { channel: "web", ...options }, runOptions);
+
+  return {
+    ...result,
+    riskAssessments: result.riskAssessments.map((assessment) => {
+      const segment = locateAssessment(page, assessment);
+      return segment ? { ...assessment, selector: segment.selector } : assessment;
+    }),
+    page,
+  };
+}
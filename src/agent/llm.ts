@@ -1,71 +1,236 @@
 /**
  * LLM切り替え機構
- * 環境変数LLM_PROVIDERでGemini/Claudeを切り替え
+ * 環境変数LLM_PROVIDERでGemini/Claude/OpenAI/OpenAI互換API（ローカルサーバー等）/フェイクを切り替え
+ * モデル名・temperature・最大トークン数は環境変数で上書きできる
  */
 
 import { ChatGoogleGenerativeAI } from "@langchain/google-genai";
 import { ChatAnthropic } from "@langchain/anthropic";
+import { ChatOpenAI } from "@langchain/openai";
 import type { BaseChatModel } from "@langchain/core/language_models/chat_models";
+import { getScriptedChatModel } from "./fakeLLM.js";
 
-export type LLMProvider = "gemini-flash" | "gemini-pro" | "claude";
+export type LLMProvider =
+  | "gemini-flash"
+  | "gemini-pro"
+  | "claude"
+  | "openai"
+  | "openai-compatible"
+  | "fake";
+
+/** LLMの設定 */
+export interface LLMConfig {
+  /** プロバイダー */
+  provider: LLMProvider;
+  /** モデル名（省略時はプロバイダーのデフォルト） */
+  model?: string;
+  /** temperature（省略時は0） */
+  temperature?: number;
+  /** 最大出力トークン数（省略時はプロバイダーのデフォルト） */
+  maxTokens?: number;
+  /** APIのベースURL（openai-compatibleでは必須） */
+  baseUrl?: string;
+  /** APIキー（省略時は各プロバイダーの環境変数から取得） */
+  apiKey?: string;
+  /** クライアント内部での再試行回数（省略時は各クライアントのデフォルト） */
+  maxRetries?: number;
+}
+
+/** プロバイダーの定義 */
+interface ProviderDefinition {
+  /** 表示名（ログ用） */
+  label: string;
+  /** デフォルトのモデル名 */
+  defaultModel: string;
+  /** デフォルトの最大出力トークン数 */
+  defaultMaxTokens?: number;
+  /** モデルのインスタンスを作成 */
+  create: (config: ResolvedLLMConfig) => BaseChatModel;
+}
+
+/** デフォルト値を適用済みの設定 */
+type ResolvedLLMConfig = LLMConfig & { model: string; temperature: number };
+
+/** LLMプロバイダーのレジストリ */
+const PROVIDERS: Record<LLMProvider, ProviderDefinition> = {
+  "gemini-flash": {
+    label: "Gemini 2.0 Flash",
+    defaultModel: "gemini-2.0-flash",
+    create: (config) =>
+      new ChatGoogleGenerativeAI({
+        model: config.model,
+        temperature: config.temperature,
+        maxOutputTokens: config.maxTokens,
+        apiKey: config.apiKey,
+        maxRetries: config.maxRetries,
+      }),
+  },
+  "gemini-pro": {
+    label: "Gemini 1.5 Pro",
+    defaultModel: "gemini-1.5-pro",
+    create: (config) =>
+      new ChatGoogleGenerativeAI({
+        model: config.model,
+        temperature: config.temperature,
+        maxOutputTokens: config.maxTokens,
+        apiKey: config.apiKey,
+        maxRetries: config.maxRetries,
+      }),
+  },
+  claude: {
+    label: "Claude Sonnet 4",
+    defaultModel: "claude-sonnet-4-20250514",
+    defaultMaxTokens: 4096,
+    create: (config) =>
+      new ChatAnthropic({
+        model: config.model,
+        temperature: config.temperature,
+        maxTokens: config.maxTokens,
+        apiKey: config.apiKey,
+        maxRetries: config.maxRetries,
+      }),
+  },
+  openai: {
+    label: "OpenAI GPT-4o mini",
+    defaultModel: "gpt-4o-mini",
+    create: (config) =>
+      new ChatOpenAI({
+        model: config.model,
+        temperature: config.temperature,
+        maxTokens: config.maxTokens,
+        apiKey: config.apiKey,
+        maxRetries: config.maxRetries,
+        configuration: config.baseUrl ? { baseURL: config.baseUrl } : undefined,
+      }),
+  },
+  "openai-compatible": {
+    label: "OpenAI互換API",
+    defaultModel: "local-model",
+    create: (config) => {
+      if (!config.baseUrl) {
+        throw new Error("LLM_BASE_URL is required for the openai-compatible provider");
+      }
+      return new ChatOpenAI({
+        model: config.model,
+        temperature: config.temperature,
+        maxTokens: config.maxTokens,
+        // ローカルサーバーの多くはAPIキーを検証しないが、クライアントは空のキーを受け付けない
+        apiKey: config.apiKey ?? "not-needed",
+        maxRetries: config.maxRetries,
+        configuration: { baseURL: config.baseUrl },
+      });
+    },
+  },
+  fake: {
+    label: "Scripted (fake)",
+    defaultModel: "scripted",
+    create: () => getScriptedChatModel(),
+  },
+};
+
+/**
+ * LLMプロバイダーかを判定
+ */
+export function isLLMProvider(value: string): value is LLMProvider {
+  return Object.hasOwn(PROVIDERS, value);
+}
 
 /**
  * 環境変数からLLMプロバイダーを取得
  */
 export function getLLMProvider(): LLMProvider {
-  const provider = process.env.LLM_PROVIDER as LLMProvider | undefined;
-  if (provider && ["gemini-flash", "gemini-pro", "claude"].includes(provider)) {
+  const provider = process.env.LLM_PROVIDER;
+  if (provider && isLLMProvider(provider)) {
     return provider;
   }
   return "gemini-flash"; // デフォルト
 }
 
 /**
- * LLMインスタンスを取得
+ * 数値の環境変数を取得（未設定・不正な値の場合はundefined）
+ */
+export function numberFromEnv(name: string): number | undefined {
+  const value = process.env[name];
+  if (value === undefined || value.trim() === "") return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+/**
+ * 環境変数からLLMの設定を取得
+ *
+ * - LLM_TEMPERATURE / LLM_MAX_TOKENS: すべてのプロバイダーに適用
+ * - LLM_MODEL / LLM_BASE_URL / LLM_API_KEY: LLM_PROVIDERで選択したプロバイダーにのみ適用
+ *
  * @param provider - 使用するプロバイダー（省略時は環境変数から取得）
  */
-export function getLLM(provider?: LLMProvider): BaseChatModel {
-  const llmProvider = provider ?? getLLMProvider();
+export function getLLMConfig(provider?: LLMProvider): LLMConfig {
+  const envProvider = getLLMProvider();
+  const llmProvider = provider ?? envProvider;
+  const config: LLMConfig = {
+    provider: llmProvider,
+    temperature: numberFromEnv("LLM_TEMPERATURE"),
+    maxTokens: numberFromEnv("LLM_MAX_TOKENS"),
+  };
+  if (llmProvider === envProvider) {
+    config.model = process.env.LLM_MODEL || undefined;
+    config.baseUrl = process.env.LLM_BASE_URL || undefined;
+    config.apiKey = process.env.LLM_API_KEY || undefined;
+  }
+  return config;
+}
 
-  switch (llmProvider) {
-    case "gemini-flash":
-      return new ChatGoogleGenerativeAI({
-        model: "gemini-2.0-flash",
-        temperature: 0,
-      });
+/**
+ * プロバイダーのデフォルト値を適用
+ */
+function resolveLLMConfig(config: LLMConfig): ResolvedLLMConfig {
+  const definition = PROVIDERS[config.provider];
+  return {
+    ...config,
+    model: config.model ?? definition.defaultModel,
+    temperature: config.temperature ?? 0,
+    maxTokens: config.maxTokens ?? definition.defaultMaxTokens,
+  };
+}
 
-    case "gemini-pro":
-      return new ChatGoogleGenerativeAI({
-        model: "gemini-1.5-pro",
-        temperature: 0,
-      });
+/**
+ * 使用するモデル名を取得
+ * @param provider - プロバイダーまたは設定（省略時は環境変数から取得）
+ */
+export function getLLMModel(provider?: LLMProvider | LLMConfig): string {
+  return resolveLLMConfig(toLLMConfig(provider)).model;
+}
 
-    case "claude":
-      return new ChatAnthropic({
-        model: "claude-sonnet-4-20250514",
-        temperature: 0,
-        maxTokens: 4096,
-      });
+/**
+ * プロバイダーまたは設定をLLMConfigに変換（プロバイダーの場合は環境変数の設定を適用）
+ */
+function toLLMConfig(provider?: LLMProvider | LLMConfig): LLMConfig {
+  return typeof provider === "object" ? provider : getLLMConfig(provider);
+}
 
-    default:
-      throw new Error(`Unknown LLM provider: ${llmProvider}`);
+/**
+ * LLMインスタンスを取得
+ * @param provider - 使用するプロバイダーまたは設定（省略時は環境変数から取得）
+ */
+export function getLLM(provider?: LLMProvider | LLMConfig): BaseChatModel {
+  const config = toLLMConfig(provider);
+  const definition = PROVIDERS[config.provider];
+  if (!definition) {
+    throw new Error(`Unknown LLM provider: ${config.provider}`);
   }
+  return definition.create(resolveLLMConfig(config));
 }
 
 /**
  * LLMプロバイダー名を取得（ログ用）
+ * デフォルト以外のモデルを使う場合はモデル名を併記する
  */
-export function getLLMProviderName(provider?: LLMProvider): string {
-  const llmProvider = provider ?? getLLMProvider();
-
-  switch (llmProvider) {
-    case "gemini-flash":
-      return "Gemini 2.0 Flash";
-    case "gemini-pro":
-      return "Gemini 1.5 Pro";
-    case "claude":
-      return "Claude Sonnet 4";
-    default:
-      return "Unknown";
+export function getLLMProviderName(provider?: LLMProvider | LLMConfig): string {
+  const config = toLLMConfig(provider);
+  const definition = PROVIDERS[config.provider];
+  if (!definition) {
+    return "Unknown";
   }
+  const model = resolveLLMConfig(config).model;
+  return model === definition.defaultModel ? definition.label : `${definition.label} (${model})`;
 }
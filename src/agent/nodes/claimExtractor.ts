@@ -0,0 +1,75 @@
+/**
+ * ClaimExtractor ノード
+ * 広告文を種別付きの個別クレームに分割
+ */
+
+import { z } from "zod";
+import { getLLM } from "../llm.js";
+import type { AgentStateType, Claim } from "../state.js";
+
+/** クレーム抽出の出力スキーマ */
+const ClaimExtractionSchema = z.object({
+  claims: z.array(
+    z.object({
+      text: z.string().describe("主張の本文（広告文からそのまま抜粋）"),
+      type: z
+        .enum(["efficacy", "price", "premium", "comparison", "testimonial"])
+        .describe("クレーム種別"),
+    }),
+  ),
+});
+
+/** クレーム抽出プロンプト */
+const CLAIM_EXTRACTION_PROMPT = `あなたは景品表示法に詳しい広告審査担当者です。
+以下の広告文を、景品表示法の観点で個別に審査すべき「主張（クレーム）」に分割してください。
+
+## クレーム種別
+- efficacy: 効果・効能・品質・性能に関する主張（例: 「1週間で-10kg」「科学的根拠に基づく」）
+- price: 価格・割引・取引条件に関する主張（例: 「通常価格10,000円が半額」「今だけ」）
+- premium: 景品・プレゼント・懸賞に関する主張（例: 「抽選で100万円」「全員もれなく」）
+- comparison: 他社・他商品やランキングとの比較に関する主張（例: 「業界No.1」「当社比2倍」）
+- testimonial: 体験談・満足度・口コミに関する主張（例: 「満足度98%」「お客様の声」）
+
+## 広告文
+{adText}
+
+## 出力ルール
+- textは広告文からそのまま抜粋し、言い換えないでください
+- 1つの文に複数の主張が含まれる場合は、主張ごとに分けてください
+- 上記のいずれの種別にも当たらない文（挨拶・商品名のみ等）は含めないでください`;
+
+/**
+ * ClaimExtractor ノード関数
+ * 正規化された広告文をLLMでクレーム単位に分割する
+ */
+export async function claimExtractor(state: AgentStateType): Promise<Partial<AgentStateType>> {
+  const { normalizedText } = state;
+
+  if (!normalizedText || normalizedText.length === 0) {
+    return {
+      claims: [],
+    };
+  }
+
+  const llm = getLLM();
+  const structuredLlm = llm.withStructuredOutput<z.infer<typeof ClaimExtractionSchema>>(
+    ClaimExtractionSchema,
+    { name: "claim_extraction" },
+  );
+
+  const prompt = CLAIM_EXTRACTION_PROMPT.replace("{adText}", normalizedText);
+  const result = await structuredLlm.invoke(prompt);
+
+  // 空の抜粋を除外してIDを採番
+  const claims: Claim[] = result.claims
+    .filter((c) => c.text.trim().length > 0)
+    .map((c, i) => ({
+      id: `claim-${i + 1}`,
+      text: c.text.trim(),
+      type: c.type,
+    }));
+
+  return {
+    claims,
+  };
+}
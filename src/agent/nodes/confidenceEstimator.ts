@@ -0,0 +1,21 @@
+/**
+ * ConfidenceEstimator ノード
+ * 検証を終えた個別のリスク評価に確信度を付与し、確信度の低い評価を人による判断が必要な評価とする
+ */
+
+import type { AgentStateType } from "../state.js";
+import { estimateConfidence } from "../confidence.js";
+
+/**
+ * ConfidenceEstimator ノード関数
+ */
+export async function confidenceEstimator(state: AgentStateType): Promise<Partial<AgentStateType>> {
+  const { riskAssessments, options } = state;
+
+  return {
+    riskAssessments: riskAssessments.map((assessment) => ({
+      ...assessment,
+      confidence: estimateConfidence(assessment, options.confidenceThreshold),
+    })),
+  };
+}
@@ -0,0 +1,231 @@
+/**
+ * DisclaimerAnalyzer ノード
+ * 強調表示と打消し表示（※注記）を対応付け、打消し表示が強調表示の印象を打ち消しているかを評価
+ */
+
+import { z } from "zod";
+import { getLLM } from "../llm.js";
+import { multiSearch, type SearchResult } from "../../retrieval/vectorStore.js";
+import { RISK_ORDER } from "../scoring.js";
+import type { AgentStateType, Claim, RiskAssessment } from "../state.js";
+import { getStrictnessSettings } from "../strictness.js";
+import { formatViolationType, type ViolationCode } from "../taxonomy.js";
+import { buildCitations, formatDocuments } from "./riskAnalyzer.js";
+import {
+  extractDisclaimers,
+  type Disclaimer,
+  type DisclaimerCheck,
+  type DisclaimerJudgement,
+} from "../validators/index.js";
+
+/** 打消し表示に関する文書の検索設定 */
+const SEARCH_CONFIG = {
+  limitPerSource: 2,
+  sources: ["guideline", "qa"] as const,
+  queryHint: "打消し表示 強調表示 一般消費者の認識 明瞭",
+};
+
+/** 判定ごとの違反類型（打消し表示自体の問題として独立した評価にするもの） */
+const DISCLAIMER_VIOLATION_CODES: Record<
+  Exclude<DisclaimerJudgement, "effective">,
+  ViolationCode
+> = {
+  insufficient: "disclaimer_insufficient",
+  mismatched: "disclaimer_mismatched",
+  contradictory: "disclaimer_contradictory",
+};
+
+/** 判定ごとのリスクレベル */
+const JUDGEMENT_RISK_LEVELS: Record<
+  Exclude<DisclaimerJudgement, "effective">,
+  RiskAssessment["riskLevel"]
+> = {
+  insufficient: "medium",
+  mismatched: "medium",
+  contradictory: "high",
+};
+
+/** 打消し表示評価の出力スキーマ */
+const DisclaimerAnalysisSchema = z.object({
+  checks: z.array(
+    z.object({
+      marker: z.string().describe("打消し表示の識別子（例: ※1）"),
+      claimId: z.string().describe("対応するクレームID（対応するクレームがない場合は空文字列）"),
+      judgement: z
+        .enum(["effective", "insufficient", "mismatched", "contradictory"])
+        .describe("打消し表示の判定"),
+      reasoning: z.string().describe("判定理由（参照文書を踏まえて具体的に）"),
+      citedDocIds: z.array(z.string()).describe("参照した文書のID"),
+      suggestion: z.string().describe("改善提案"),
+      confidence: z.number().min(0).max(1).describe("判定の確信度（0〜1）"),
+    }),
+  ),
+});
+
+/** 打消し表示評価プロンプト */
+const DISCLAIMER_ANALYSIS_PROMPT = `あなたは景品表示法の打消し表示に詳しい広告審査担当者です。
+以下の広告文の打消し表示（※注記）について、対応する強調表示（クレーム）を特定し、強調表示から受ける印象を適切に打ち消しているかを評価してください。
+
+## 判定基準
+- effective: 強調表示と対応しており、一般消費者が強調表示の例外・制約を正しく認識できる
+- insufficient: 強調表示と対応しているが、打消しとして不十分（例: 効果の強調表示に「個人の感想です」「効果には個人差があります」のみを付けても、効果があるとの印象は打ち消されない）
+- mismatched: 対応する強調表示がない、または強調表示と内容が対応していない
+- contradictory: 強調表示の内容と矛盾している（例: 「送料無料」に「※別途配送料がかかります」）
+
+## 考え方
+- 打消し表示は、強調表示の例外・制約を一般消費者が認識できる内容・表示方法である必要があります
+- 体験談の打消し表示は、体験談と異なる結果となる人が相当数いることを正しく認識できる内容である必要があります
+- 強調表示と打消し表示が矛盾する場合、打消し表示の内容を認識できても強調表示の印象が残り、問題となります
+
+## 広告文
+{adText}
+
+## 抽出されたクレーム
+{claims}
+
+## 打消し表示
+{disclaimers}
+
+## 参照可能なガイドライン・Q&A
+{documents}
+
+## 出力ルール
+- 打消し表示ごとに1件ずつ、markerに識別子をそのまま設定してください
+- 「対応候補」は※印の位置から機械的に推定した強調表示です。内容を踏まえて対応するクレームを判断してください
+- confidenceは参照文書による裏付けの強さと、強調表示との対応の明確さに応じて設定してください`;
+
+/**
+ * クレーム一覧をプロンプト用にフォーマット
+ */
+function formatClaims(claims: Claim[]): string {
+  if (claims.length === 0) {
+    return "（クレームなし）";
+  }
+  return claims.map((c) => `[${c.id}] (${c.type}) ${c.text}`).join("\n");
+}
+
+/**
+ * 打消し表示をプロンプト用にフォーマット
+ */
+function formatDisclaimers(disclaimers: Disclaimer[]): string {
+  return disclaimers
+    .map((d) => `[${d.marker}] ${d.text}\n  対応候補: ${d.anchor ?? "（※印の参照元なし）"}`)
+    .join("\n");
+}
+
+/**
+ * 打消し表示に関するガイドライン・Q&Aを検索
+ */
+async function searchDisclaimerDocuments(disclaimers: Disclaimer[]): Promise<SearchResult[]> {
+  const query = `${disclaimers.map((d) => d.text).join(" ")} ${SEARCH_CONFIG.queryHint}`;
+  return multiSearch(query, {
+    limitPerSource: SEARCH_CONFIG.limitPerSource,
+    sources: [...SEARCH_CONFIG.sources],
+  });
+}
+
+/**
+ * DisclaimerAnalyzer ノード関数
+ * 広告文から打消し表示を抽出し、LLMで強調表示との対応と打消しの適否を判定する
+ * - 不整合・矛盾する打消し表示は、強調表示とは別の独立したリスク評価として追加する
+ * - 不十分な打消し表示は対応する強調表示の評価に反映する（評価がなければ独立した評価を追加する）
+ * - 確信度が審査の厳しさの最低確信度に満たない判定は、riskAnalyzerと同じく結果に含めない
+ */
+export async function disclaimerAnalyzer(state: AgentStateType): Promise<Partial<AgentStateType>> {
+  const { adText, normalizedText, claims, riskAssessments, retrievedDocs, overallRisk, options } =
+    state;
+
+  if (!normalizedText || normalizedText.length === 0) {
+    return {
+      disclaimerChecks: [],
+    };
+  }
+
+  // ※注記は行単位で書かれることが多いため、改行が残る元の広告文から抽出する
+  const disclaimers = extractDisclaimers(adText);
+  if (disclaimers.length === 0) {
+    return {
+      disclaimerChecks: [],
+    };
+  }
+
+  const docs = await searchDisclaimerDocuments(disclaimers);
+
+  const llm = getLLM();
+  const structuredLlm = llm.withStructuredOutput<z.infer<typeof DisclaimerAnalysisSchema>>(
+    DisclaimerAnalysisSchema,
+    { name: "disclaimer_analysis" },
+  );
+
+  const prompt = DISCLAIMER_ANALYSIS_PROMPT.replace("{adText}", adText)
+    .replace("{claims}", formatClaims(claims))
+    .replace("{disclaimers}", formatDisclaimers(disclaimers))
+    .replace("{documents}", formatDocuments(docs));
+  const result = await structuredLlm.invoke(prompt);
+
+  const { minConfidence } = getStrictnessSettings(options.strictness);
+  const claimIds = new Set(claims.map((c) => c.id));
+  const updated = riskAssessments.map((a) => ({ ...a }));
+  const disclaimerChecks: DisclaimerCheck[] = [];
+  let updatedOverallRisk = overallRisk;
+
+  for (const disclaimer of disclaimers) {
+    // LLMが評価しなかった打消し表示と、確信度の低い判定は結果に含めない
+    const judged = result.checks.find((c) => c.marker === disclaimer.marker);
+    if (!judged || judged.confidence < minConfidence) continue;
+
+    const check: DisclaimerCheck = {
+      disclaimer,
+      claimId: claimIds.has(judged.claimId) ? judged.claimId : undefined,
+      judgement: judged.judgement,
+      reasoning: judged.reasoning,
+    };
+    disclaimerChecks.push(check);
+
+    // 対応する強調表示の評価に判定結果を付与
+    const target = check.claimId ? updated.find((a) => a.claimId === check.claimId) : undefined;
+    if (target) {
+      target.evidence = {
+        ...target.evidence,
+        disclaimers: [...(target.evidence?.disclaimers ?? []), check],
+      };
+    }
+
+    if (check.judgement === "effective") continue;
+
+    const level = JUDGEMENT_RISK_LEVELS[check.judgement];
+    if (RISK_ORDER[level] > RISK_ORDER[updatedOverallRisk]) {
+      updatedOverallRisk = level;
+    }
+
+    // 不十分な打消し表示は強調表示側の問題として扱う
+    if (check.judgement === "insufficient" && target) {
+      if (RISK_ORDER[level] > RISK_ORDER[target.riskLevel]) {
+        target.riskLevel = level;
+      }
+      continue;
+    }
+
+    updated.push({
+      expression: adText.slice(disclaimer.start, disclaimer.end).trim(),
+      riskLevel: level,
+      violationCode: DISCLAIMER_VIOLATION_CODES[check.judgement],
+      violationType: formatViolationType(DISCLAIMER_VIOLATION_CODES[check.judgement]),
+      reasoning: check.reasoning,
+      citations: buildCitations(judged.citedDocIds, docs),
+      suggestion: judged.suggestion,
+      claimId: check.claimId,
+      source: "llm",
+      modelConfidence: judged.confidence,
+      evidence: { disclaimers: [check] },
+    });
+  }
+
+  const knownIds = new Set(retrievedDocs.map((d) => d.id));
+  return {
+    disclaimerChecks,
+    riskAssessments: updated,
+    retrievedDocs: [...retrievedDocs, ...docs.filter((d) => !knownIds.has(d.id))],
+    overallRisk: updatedOverallRisk,
+  };
+}
@@ -0,0 +1,141 @@
+/**
+ * DisclosureChecker ノード
+ * SNS投稿モードで、広告である旨の表示（ステルスマーケティング規制）を検証
+ */
+
+import { search, type SearchResult } from "../../retrieval/vectorStore.js";
+import type { AgentStateType, Citation, RiskAssessment } from "../state.js";
+import { formatViolationType } from "../taxonomy.js";
+import { checkDisclosure, type DisclosureCheck } from "../validators/index.js";
+
+/** ステルスマーケティング告示の運用基準のファイル名 */
+const STEALTH_GUIDELINE_FILE = "15-stealth-marketing.pdf";
+
+/** ステルスマーケティングQ&Aのソース名 */
+const STEALTH_QA_SOURCE = "stealth_marketing";
+
+/** 検索設定 */
+const SEARCH_CONFIG = {
+  /** 運用基準の取得件数 */
+  guidelineLimit: 3,
+  /** Q&Aの取得件数（ステマQ&A以外を除外するため多めに取得） */
+  qaLimit: 10,
+  /** 採用するQ&Aの件数 */
+  qaKeep: 3,
+  /** 検索クエリに付与する観点キーワード */
+  queryHint: "ステルスマーケティング 広告であることを明瞭にする表示 事業者の表示",
+};
+
+/**
+ * ステルスマーケティングの運用基準・Q&Aを検索
+ */
+async function searchStealthDocuments(text: string): Promise<SearchResult[]> {
+  const query = `${text} ${SEARCH_CONFIG.queryHint}`;
+  const [guidelines, qa] = await Promise.all([
+    search(query, {
+      limit: SEARCH_CONFIG.guidelineLimit,
+      source: "guideline",
+      filenames: [STEALTH_GUIDELINE_FILE],
+    }),
+    search(query, { limit: SEARCH_CONFIG.qaLimit, source: "qa" }),
+  ]);
+
+  return [
+    ...guidelines,
+    ...qa
+      .filter((doc) => doc.metadata.qaSource === STEALTH_QA_SOURCE)
+      .slice(0, SEARCH_CONFIG.qaKeep),
+  ];
+}
+
+/**
+ * 運用基準・Q&Aを引用情報に変換
+ */
+function buildStealthCitations(docs: SearchResult[]): Citation[] {
+  return docs.map((doc) => ({
+    source: doc.source as Citation["source"],
+    id: doc.id,
+    content: doc.content.substring(0, 200),
+    relevanceScore: doc.score,
+  }));
+}
+
+/**
+ * 検証結果からリスク評価を作成
+ */
+function checkToAssessments(check: DisclosureCheck, citations: Citation[]): RiskAssessment[] {
+  const base = {
+    violationCode: "stealth_marketing" as const,
+    violationType: formatViolationType("stealth_marketing"),
+    citations,
+    source: "rule" as const,
+    evidence: { disclosure: check },
+  };
+
+  switch (check.status) {
+    case "missing":
+      return [
+        {
+          ...base,
+          expression: check.signals[0].text,
+          riskLevel: "high",
+          reasoning: check.notes.join(""),
+          suggestion:
+            "投稿の冒頭に「広告」「PR」「プロモーション」等、広告であることが明瞭に分かる表示を追加してください。",
+        },
+      ];
+    case "inadequate":
+      return check.markers
+        .filter((m) => m.kind === "ambiguous" || m.position === "buried")
+        .map((m) => ({
+          ...base,
+          expression: m.text,
+          riskLevel: "medium",
+          reasoning:
+            m.kind === "ambiguous"
+              ? `「${m.text}」は広告であることが明瞭でない表示です。${check.notes.join("")}`
+              : `「${m.text}」が多数のハッシュタグの中に埋もれています。${check.notes.join("")}`,
+          suggestion:
+            "「広告」「PR」「プロモーション」等の明瞭な表示を、ハッシュタグに埋もれない投稿の冒頭に表示してください。",
+        }));
+    default:
+      return [];
+  }
+}
+
+/**
+ * DisclosureChecker ノード関数
+ * SNS投稿モード（mode: "social"）の場合のみ、広告主の関与と広告である旨の表示を検証する
+ * - 関与がうかがわれるのに表示がない場合は高リスク
+ * - 表示が分かりにくい・埋もれている場合は中リスク
+ * - 指摘にはステマ告示の運用基準・Q&Aを引用する
+ */
+export async function disclosureChecker(state: AgentStateType): Promise<Partial<AgentStateType>> {
+  const { adText, normalizedText, options, riskAssessments, retrievedDocs, overallRisk } = state;
+
+  if (options.mode !== "social" || !normalizedText || normalizedText.length === 0) {
+    return {};
+  }
+
+  // 正規化で【】等の括弧が置き換わるため、表示の検出は元の投稿文で行う
+  const disclosureCheck = checkDisclosure(adText);
+  if (disclosureCheck.status === "adequate" || disclosureCheck.status === "not_applicable") {
+    return { disclosureCheck };
+  }
+
+  const stealthDocs = await searchStealthDocuments(normalizedText);
+  const added = checkToAssessments(disclosureCheck, buildStealthCitations(stealthDocs));
+
+  const knownIds = new Set(retrievedDocs.map((d) => d.id));
+  return {
+    disclosureCheck,
+    riskAssessments: [...riskAssessments, ...added],
+    retrievedDocs: [...retrievedDocs, ...stealthDocs.filter((d) => !knownIds.has(d.id))],
+    overallRisk:
+      disclosureCheck.status === "missing"
+        ? "high"
+        : overallRisk === "low" || overallRisk === "none"
+          ? "medium"
+          : overallRisk,
+  };
+}
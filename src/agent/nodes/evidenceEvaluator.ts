@@ -0,0 +1,223 @@
+/**
+ * EvidenceEvaluator ノード
+ * 効果・性能の表示が、添付された根拠資料で裏付けられているかを評価（不実証広告規制）
+ */
+
+import { z } from "zod";
+import { getLLM } from "../llm.js";
+import type { SearchResult } from "../../retrieval/vectorStore.js";
+import { RISK_ORDER } from "../scoring.js";
+import type { AgentStateType, Citation, Claim, RiskAssessment } from "../state.js";
+import { formatViolationType } from "../taxonomy.js";
+import {
+  assignEvidenceIds,
+  EVIDENCE_KIND_LABELS,
+  type EvidenceDocument,
+  type SubstantiationCheck,
+} from "../evidence.js";
+
+/** 不実証広告規制の指針のファイル名 */
+const SUBSTANTIATION_GUIDELINE_FILE = "16-unsubstantiated-claims.pdf";
+
+/** プロンプトに含める資料1件あたりの最大文字数 */
+const MAX_EVIDENCE_CHARS = 3000;
+
+/** 判定ごとのリスクレベル（covered はリスク評価を変更しない） */
+const COVERAGE_RISK_LEVELS: Record<
+  Exclude<SubstantiationCheck["coverage"], "covered">,
+  RiskAssessment["riskLevel"]
+> = {
+  uncovered: "high",
+  weak: "medium",
+};
+
+/** 根拠資料評価の出力スキーマ */
+const EvidenceEvaluationSchema = z.object({
+  checks: z.array(
+    z.object({
+      claimId: z.string().describe("評価対象のクレームID"),
+      coverage: z.enum(["covered", "weak", "uncovered"]).describe("根拠資料による裏付けの判定"),
+      evidenceIds: z.array(z.string()).describe("裏付けとなった資料のID"),
+      reasoning: z.string().describe("判定理由（資料のどの記載が対応するか）"),
+      gaps: z.array(z.string()).describe("不足している点（十分な場合は空配列）"),
+    }),
+  ),
+});
+
+/** 根拠資料評価プロンプト */
+const EVIDENCE_EVALUATION_PROMPT = `あなたは景品表示法の不実証広告規制（第7条第2項）に詳しい広告審査担当者です。
+以下の効果・性能に関する表示について、提出された根拠資料が「表示の裏付けとなる合理的な根拠を示す資料」に当たるかを評価してください。
+
+## 判定基準
+- covered: 資料が客観的に実証された内容であり、表示された効果・性能と適切に対応している
+- weak: 対応する資料はあるが、試験条件・対象・被験者数・数値が表示と一致しない等、裏付けとして不十分
+- uncovered: 表示に対応する資料がない
+
+## 合理的な根拠の考え方
+- 試験・調査によって得られた結果は、関連する学術界・産業界で一般的に認められた方法で実施されている必要があります
+- 表示された効果・性能と、資料によって実証された内容が適切に対応している必要があります
+- 体験談やモニターの意見のみ、統計的に客観性が確保されていない調査は、それだけでは合理的な根拠になりません
+
+## 評価対象の表示
+{claims}
+
+## 根拠資料
+{evidence}
+
+## 出力ルール
+- 評価対象の表示ごとに1件ずつ、対応するクレームIDを設定してください
+- evidenceIdsには根拠資料のIDのみを設定してください`;
+
+/**
+ * 評価対象の表示をプロンプト用にフォーマット
+ */
+function formatClaims(claims: Claim[]): string {
+  return claims.map((c) => `[${c.id}] ${c.text}`).join("\n");
+}
+
+/**
+ * 根拠資料をプロンプト用にフォーマット
+ */
+function formatEvidence(documents: (EvidenceDocument & { id: string })[]): string {
+  return documents
+    .map((doc) => {
+      const text =
+        doc.text.length > MAX_EVIDENCE_CHARS
+          ? `${doc.text.substring(0, MAX_EVIDENCE_CHARS)}...`
+          : doc.text;
+      return `[${doc.id}] 【${EVIDENCE_KIND_LABELS[doc.kind]}】${doc.title}\n${text}`;
+    })
+    .join("\n\n---\n\n");
+}
+
+/**
+ * 不実証広告規制の根拠文書を引用情報に変換
+ */
+function buildSubstantiationCitations(docs: SearchResult[]): Citation[] {
+  return docs
+    .filter(
+      (doc) =>
+        (doc.source === "law" && doc.articleNumber === "7") ||
+        (doc.source === "guideline" && doc.filename === SUBSTANTIATION_GUIDELINE_FILE),
+    )
+    .map((doc) => ({
+      source: doc.source as Citation["source"],
+      id: doc.id,
+      articleNumber: doc.articleNumber || undefined,
+      content: doc.content.substring(0, 200),
+      relevanceScore: doc.score,
+    }));
+}
+
+/**
+ * 評価結果からリスク評価を作成
+ */
+function checkToAssessment(
+  check: SubstantiationCheck,
+  riskLevel: RiskAssessment["riskLevel"],
+  docs: SearchResult[],
+): RiskAssessment {
+  return {
+    expression: check.expression,
+    riskLevel,
+    violationCode: "unsubstantiated",
+    violationType: formatViolationType("unsubstantiated"),
+    reasoning: check.reasoning,
+    citations: buildSubstantiationCitations(docs),
+    suggestion:
+      check.coverage === "uncovered"
+        ? "表示の裏付けとなる試験・調査の資料を用意するか、資料で実証された範囲の表現に修正してください。"
+        : `根拠資料の不足点（${check.gaps.join("、")}）を補うか、資料で実証された範囲の表現に修正してください。`,
+    claimId: check.claimId,
+    source: "llm",
+    evidence: { substantiation: check },
+  };
+}
+
+/**
+ * EvidenceEvaluator ノード関数
+ * 効果・性能のクレームごとに、添付された根拠資料で裏付けられているかをLLMで判定する
+ * - 根拠資料が添付されていない場合は評価しない
+ * - 裏付けのない表示は高リスク、裏付けが不十分な表示は中リスクとしてリスク評価に反映する
+ */
+export async function evidenceEvaluator(state: AgentStateType): Promise<Partial<AgentStateType>> {
+  const { options, claims, riskAssessments, retrievedDocs, overallRisk } = state;
+
+  const efficacyClaims = claims.filter((c) => c.type === "efficacy");
+  if (!options.evidence || options.evidence.length === 0 || efficacyClaims.length === 0) {
+    return {
+      substantiationChecks: [],
+    };
+  }
+
+  const documents = assignEvidenceIds(options.evidence);
+  const evidenceIds = new Set(documents.map((d) => d.id));
+
+  const llm = getLLM();
+  const structuredLlm = llm.withStructuredOutput<z.infer<typeof EvidenceEvaluationSchema>>(
+    EvidenceEvaluationSchema,
+    { name: "evidence_evaluation" },
+  );
+
+  const prompt = EVIDENCE_EVALUATION_PROMPT.replace(
+    "{claims}",
+    formatClaims(efficacyClaims),
+  ).replace("{evidence}", formatEvidence(documents));
+  const result = await structuredLlm.invoke(prompt);
+
+  // クレームごとに1件の評価結果にそろえる（LLMが評価しなかったクレームは裏付けなしとする）
+  const substantiationChecks: SubstantiationCheck[] = efficacyClaims.map((claim) => {
+    const check = result.checks.find((c) => c.claimId === claim.id);
+    if (!check) {
+      return {
+        claimId: claim.id,
+        expression: claim.text,
+        coverage: "uncovered",
+        evidenceIds: [],
+        reasoning: "提出された根拠資料に、この表示に対応する記載が確認できませんでした。",
+        gaps: [],
+      };
+    }
+    return {
+      claimId: claim.id,
+      expression: claim.text,
+      coverage: check.coverage,
+      evidenceIds: check.evidenceIds.filter((id) => evidenceIds.has(id)),
+      reasoning: check.reasoning,
+      gaps: check.gaps,
+    };
+  });
+
+  const updated = riskAssessments.map((a) => ({ ...a }));
+
+  for (const check of substantiationChecks) {
+    const target = updated.find((a) => a.claimId === check.claimId);
+    if (target) {
+      target.evidence = { ...target.evidence, substantiation: check };
+      if (check.coverage !== "covered") {
+        const level = COVERAGE_RISK_LEVELS[check.coverage];
+        if (RISK_ORDER[level] > RISK_ORDER[target.riskLevel]) {
+          target.riskLevel = level;
+        }
+      }
+    } else if (check.coverage !== "covered") {
+      updated.push(checkToAssessment(check, COVERAGE_RISK_LEVELS[check.coverage], retrievedDocs));
+    }
+  }
+
+  // 総合リスクは裏付けのない・不十分な表示のリスクレベルを下回らないようにする
+  const updatedOverallRisk = substantiationChecks.reduce<RiskAssessment["riskLevel"]>(
+    (max, check) => {
+      if (check.coverage === "covered") return max;
+      const level = COVERAGE_RISK_LEVELS[check.coverage];
+      return RISK_ORDER[level] > RISK_ORDER[max] ? level : max;
+    },
+    overallRisk,
+  );
+
+  return {
+    substantiationChecks,
+    riskAssessments: updated,
+    overallRisk: updatedOverallRisk,
+  };
+}
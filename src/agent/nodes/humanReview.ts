@@ -0,0 +1,26 @@
+/**
+ * HumanReview ノード
+ * レビュアーの判断をAIの評価結果に反映し、承認済みのレビュー記録を作成
+ */
+
+import { applyReviewDecisions } from "../review.js";
+import type { AgentStateType } from "../state.js";
+
+/**
+ * HumanReview ノード関数
+ * レビューを有効にしたグラフでは、このノードの直前で中断し、
+ * reviewSubmissionが設定された状態で再開される
+ * Note: AIの評価結果（riskAssessments/overallRisk）は変更せず、レビュー記録を別に保持する
+ */
+export async function humanReview(state: AgentStateType): Promise<Partial<AgentStateType>> {
+  const { reviewSubmission, riskAssessments, overallRisk, options } = state;
+
+  // レビューなしで実行された場合は何もしない
+  if (!reviewSubmission) {
+    return {};
+  }
+
+  return {
+    review: applyReviewDecisions(riskAssessments, overallRisk, reviewSubmission, options),
+  };
+}
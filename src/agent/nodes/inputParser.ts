@@ -5,38 +5,111 @@
 
 import type { AgentStateType } from "../state.js";
 
+/** 正規化結果 */
+export interface NormalizedText {
+  /** 正規化されたテキスト */
+  text: string;
+  /**
+   * オフセットマップ
+   * offsets[i]は正規化後のi文字目に対応する元テキスト上の位置
+   * 末尾にテキスト長+1番目の要素として元テキスト上の終端位置を持つ
+   */
+  offsets: number[];
+}
+
+/** 1文字単位の置換表（全角記号→半角） */
+const CHAR_REPLACEMENTS: Record<string, string> = {
+  "！": "!",
+  "？": "?",
+  "％": "%",
+  "＆": "&",
+  "（": "(",
+  "）": ")",
+  "「": '"',
+  "」": '"',
+  "『": '"',
+  "』": '"',
+  "【": '"',
+  "】": '"',
+  // 全角スペースを半角に
+  "　": " ",
+};
+
 /**
- * テキストを正規化
+ * 1文字を正規化
+ */
+function normalizeChar(char: string): string {
+  // 全角英数字を半角に
+  if (/[Ａ-Ｚａ-ｚ０-９]/.test(char)) {
+    return String.fromCharCode(char.charCodeAt(0) - 0xfee0);
+  }
+  return CHAR_REPLACEMENTS[char] ?? char;
+}
+
+/**
+ * テキストを正規化し、元テキストへのオフセットマップを作成
  * - 全角英数字を半角に
  * - 全角記号を半角に
  * - 連続する空白を単一に
  * - 前後の空白を削除
+ *
+ * 置換はすべて1文字→1文字のため、空白の圧縮・削除以外で位置はずれない
+ */
+export function normalizeTextWithOffsets(text: string): NormalizedText {
+  const chars: string[] = [];
+  const offsets: number[] = [];
+
+  for (let i = 0; i < text.length; i++) {
+    const char = normalizeChar(text[i]);
+
+    if (/\s/.test(char)) {
+      // 先頭の空白と連続する空白は捨てる
+      if (chars.length === 0 || chars[chars.length - 1] === " ") continue;
+      chars.push(" ");
+    } else {
+      chars.push(char);
+    }
+    offsets.push(i);
+  }
+
+  // 末尾の空白を削除
+  while (chars.length > 0 && chars[chars.length - 1] === " ") {
+    chars.pop();
+    offsets.pop();
+  }
+
+  // 終端位置（最後の文字の直後）
+  offsets.push(offsets.length > 0 ? offsets[offsets.length - 1] + 1 : 0);
+
+  return { text: chars.join(""), offsets };
+}
+
+/**
+ * テキストを正規化
+ */
+export function normalizeText(text: string): string {
+  return normalizeTextWithOffsets(text).text;
+}
+
+/**
+ * 正規化後のテキスト上の範囲を元テキスト上の範囲に変換
+ * @param start - 正規化後の開始位置
+ * @param end - 正規化後の終了位置（排他的）
  */
-function normalizeText(text: string): string {
-  return (
-    text
-      // 全角英数字を半角に
-      .replace(/[Ａ-Ｚａ-ｚ０-９]/g, (char) => String.fromCharCode(char.charCodeAt(0) - 0xfee0))
-      // 全角記号を半角に
-      .replace(/[！]/g, "!")
-      .replace(/[？]/g, "?")
-      .replace(/[％]/g, "%")
-      .replace(/[＆]/g, "&")
-      .replace(/[（]/g, "(")
-      .replace(/[）]/g, ")")
-      .replace(/[「」『』【】]/g, '"')
-      // 全角スペースを半角に
-      .replace(/　/g, " ")
-      // 連続する空白を単一に
-      .replace(/\s+/g, " ")
-      // 前後の空白を削除
-      .trim()
-  );
+export function toRawSpan(
+  offsets: number[],
+  start: number,
+  end: number,
+): { start: number; end: number } {
+  const rawStart = offsets[start];
+  // 終了位置は最後の文字の直後（空白の圧縮があっても最後の文字の位置から求める）
+  const rawEnd = end > start ? offsets[end - 1] + 1 : rawStart;
+  return { start: rawStart, end: rawEnd };
 }
 
 /**
  * InputParser ノード関数
- * 広告文テキストを正規化する
+ * 広告文テキストを正規化し、オフセットマップを作成する
  */
 export async function inputParser(state: AgentStateType): Promise<Partial<AgentStateType>> {
   const { adText } = state;
@@ -44,12 +117,14 @@ export async function inputParser(state: AgentStateType): Promise<Partial<AgentS
   if (!adText || adText.trim().length === 0) {
     return {
       normalizedText: "",
+      offsetMap: [],
     };
   }
 
-  const normalizedText = normalizeText(adText);
+  const { text, offsets } = normalizeTextWithOffsets(adText);
 
   return {
-    normalizedText,
+    normalizedText: text,
+    offsetMap: offsets,
   };
 }
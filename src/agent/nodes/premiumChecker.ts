@@ -0,0 +1,124 @@
+/**
+ * PremiumChecker ノード
+ * 景品類の上限額を計算し、関連するリスク評価に構造化された根拠として付与
+ */
+
+import type { SearchResult } from "../../retrieval/vectorStore.js";
+import type { AgentStateType, Citation, RiskAssessment } from "../state.js";
+import { formatViolationType, VIOLATION_TAXONOMY, type ViolationCode } from "../taxonomy.js";
+import { evaluatePremiums, type PremiumLimitCheck } from "../validators/index.js";
+
+/** 景品規制の根拠となるガイドラインのファイル名 */
+const PREMIUM_GUIDELINE_FILES = [
+  "03-general-premium-restriction.pdf",
+  "04-lottery-premium-restriction.pdf",
+];
+
+/** 景品類の提供方法ごとの違反類型 */
+const CAMPAIGN_VIOLATION_CODES: Record<PremiumLimitCheck["campaignType"], ViolationCode> = {
+  general_lottery: "premium_open_sweepstakes",
+  joint_lottery: "premium_joint_sweepstakes",
+  total_premium: "premium_total",
+};
+
+/**
+ * 判定結果に対応するリスク評価を探す
+ * 景品規制の評価のうち、判定根拠の文と表現が重なるものを優先する
+ */
+function findRelatedAssessment(
+  assessments: RiskAssessment[],
+  check: PremiumLimitCheck,
+): RiskAssessment | undefined {
+  const premiumAssessments = assessments.filter(
+    (a) => VIOLATION_TAXONOMY[a.violationCode].category === "premium",
+  );
+  const sourceText = check.sourceText ?? "";
+
+  return (
+    premiumAssessments.find(
+      (a) =>
+        a.expression.length > 0 &&
+        (sourceText.includes(a.expression) || a.expression.includes(sourceText)),
+    ) ??
+    premiumAssessments.find((a) => a.violationCode === CAMPAIGN_VIOLATION_CODES[check.campaignType])
+  );
+}
+
+/**
+ * 景品規制の根拠文書を引用情報に変換
+ */
+function buildPremiumCitations(docs: SearchResult[]): Citation[] {
+  return docs
+    .filter(
+      (doc) =>
+        (doc.source === "law" && doc.articleNumber === "4") ||
+        (doc.source === "guideline" && PREMIUM_GUIDELINE_FILES.includes(doc.filename)),
+    )
+    .map((doc) => ({
+      source: doc.source as Citation["source"],
+      id: doc.id,
+      articleNumber: doc.articleNumber || undefined,
+      content: doc.content.substring(0, 200),
+      relevanceScore: doc.score,
+    }));
+}
+
+/**
+ * 上限超過の判定結果からリスク評価を作成
+ */
+function checkToAssessment(check: PremiumLimitCheck, docs: SearchResult[]): RiskAssessment {
+  return {
+    expression: check.sourceText ?? "",
+    riskLevel: "high",
+    violationCode: CAMPAIGN_VIOLATION_CODES[check.campaignType],
+    violationType: formatViolationType(CAMPAIGN_VIOLATION_CODES[check.campaignType]),
+    reasoning: check.notes.join(""),
+    citations: buildPremiumCitations(docs),
+    suggestion: "景品類の価額を上限額以内に見直すか、提供方法（懸賞・総付）を再検討してください。",
+    source: "rule",
+    evidence: { premiumLimit: check },
+  };
+}
+
+/**
+ * PremiumChecker ノード関数
+ * 広告文とオプションから景品類の上限額を判定し、リスク評価に反映する
+ * - 上限超過の場合、関連する評価を高リスクに引き上げる
+ * - 関連する評価がない上限超過は新しい評価として追加する
+ */
+export async function premiumChecker(state: AgentStateType): Promise<Partial<AgentStateType>> {
+  const { normalizedText, options, riskAssessments, retrievedDocs, overallRisk } = state;
+
+  if (!normalizedText || normalizedText.length === 0) {
+    return {
+      premiumChecks: [],
+    };
+  }
+
+  const premiumChecks = evaluatePremiums(normalizedText, options.premium);
+  if (premiumChecks.length === 0) {
+    return {
+      premiumChecks,
+    };
+  }
+
+  const updated = riskAssessments.map((a) => ({ ...a }));
+
+  for (const check of premiumChecks) {
+    const target = findRelatedAssessment(updated, check);
+    if (target) {
+      target.evidence = { ...target.evidence, premiumLimit: check };
+      if (check.status === "fail") {
+        target.riskLevel = "high";
+      }
+    } else if (check.status === "fail") {
+      updated.push(checkToAssessment(check, retrievedDocs));
+    }
+  }
+
+  return {
+    premiumChecks,
+    riskAssessments: updated,
+    overallRisk: premiumChecks.some((c) => c.status === "fail") ? "high" : overallRisk,
+  };
+}
@@ -0,0 +1,122 @@
+/**
+ * PriceValidator ノード
+ * 二重価格表示を検証し、関連するリスク評価に構造化された根拠として付与
+ */
+
+import type { SearchResult } from "../../retrieval/vectorStore.js";
+import type { AgentStateType, Citation, RiskAssessment } from "../state.js";
+import { formatViolationType } from "../taxonomy.js";
+import { validateDoublePrices, type DoublePriceCheck } from "../validators/index.js";
+
+/** 価格表示ガイドラインのファイル名 */
+const PRICE_GUIDELINE_FILES = ["17-price-display.pdf", "18-future-price-comparison.pdf"];
+
+/** 検証結果ごとのリスクレベル */
+const STATUS_RISK_LEVELS: Record<
+  Exclude<DoublePriceCheck["status"], "valid">,
+  RiskAssessment["riskLevel"]
+> = {
+  invalid: "high",
+  needs_evidence: "medium",
+};
+
+/**
+ * 検証結果に対応するリスク評価を探す
+ * 二重価格表示の評価と、LLMによる有利誤認の評価のうち、表現が重なり、まだ二重価格表示の検証結果を持たないものを対象とする
+ * （ルールエンジンの有利誤認の評価は「今だけ」「数量限定」等の語に対するもので、価格の検証結果とは対応しない。
+ *   対応する評価がない検証結果は、呼び出し側で別の評価として追加する）
+ */
+function findRelatedAssessment(
+  assessments: RiskAssessment[],
+  check: DoublePriceCheck,
+): RiskAssessment | undefined {
+  return assessments.find(
+    (a) =>
+      (a.violationCode === "double_pricing" ||
+        (a.violationCode === "misleading_terms" && a.source === "llm")) &&
+      !a.evidence?.doublePrice &&
+      a.expression.length > 0 &&
+      (check.expression.includes(a.expression) || a.expression.includes(check.expression)),
+  );
+}
+
+/**
+ * 価格表示ガイドラインを引用情報に変換
+ */
+function buildPriceCitations(docs: SearchResult[]): Citation[] {
+  return docs
+    .filter((doc) => doc.source === "guideline" && PRICE_GUIDELINE_FILES.includes(doc.filename))
+    .map((doc) => ({
+      source: "guideline",
+      id: doc.id,
+      content: doc.content.substring(0, 200),
+      relevanceScore: doc.score,
+    }));
+}
+
+/**
+ * 検証結果からリスク評価を作成
+ */
+function checkToAssessment(
+  check: DoublePriceCheck,
+  riskLevel: RiskAssessment["riskLevel"],
+  docs: SearchResult[],
+): RiskAssessment {
+  return {
+    expression: check.expression,
+    riskLevel,
+    violationCode: "double_pricing",
+    violationType: formatViolationType("double_pricing"),
+    reasoning: check.notes.join(""),
+    citations: buildPriceCitations(docs),
+    suggestion:
+      check.status === "invalid"
+        ? "比較対照価格・販売価格・割引率を実際の販売実績に合わせて修正してください。"
+        : "比較対照価格の根拠（最近相当期間の販売実績等）を確認し、比較対照価格の内容を明示してください。",
+    source: "rule",
+    evidence: { doublePrice: check },
+  };
+}
+
+/**
+ * PriceValidator ノード関数
+ * 広告文の二重価格表示を検証し、リスク評価に反映する
+ * - 価格の不整合や販売実績の不足は高リスクとして扱う
+ * - 最近相当期間の根拠が必要な表示は、関連する評価がなければ中リスクの評価を追加する
+ */
+export async function priceValidator(state: AgentStateType): Promise<Partial<AgentStateType>> {
+  const { normalizedText, options, riskAssessments, retrievedDocs, overallRisk } = state;
+
+  if (!normalizedText || normalizedText.length === 0) {
+    return {
+      doublePriceChecks: [],
+    };
+  }
+
+  const doublePriceChecks = validateDoublePrices(normalizedText, options.priceHistory);
+  if (doublePriceChecks.length === 0) {
+    return {
+      doublePriceChecks,
+    };
+  }
+
+  const updated = riskAssessments.map((a) => ({ ...a }));
+
+  for (const check of doublePriceChecks) {
+    const target = findRelatedAssessment(updated, check);
+    if (target) {
+      target.evidence = { ...target.evidence, doublePrice: check };
+      if (check.status === "invalid") {
+        target.riskLevel = "high";
+      }
+    } else if (check.status !== "valid") {
+      updated.push(checkToAssessment(check, STATUS_RISK_LEVELS[check.status], retrievedDocs));
+    }
+  }
+
+  return {
+    doublePriceChecks,
+    riskAssessments: updated,
+    overallRisk: doublePriceChecks.some((c) => c.status === "invalid") ? "high" : overallRisk,
+  };
+}
@@ -3,37 +3,116 @@
  * RAG検索を実行して関連法令・ガイドライン・Q&Aを取得
  */
 
-import { multiSearch } from "../../retrieval/vectorStore.js";
-import type { AgentStateType } from "../state.js";
+import { multiSearch, search, type SearchResult } from "../../retrieval/vectorStore.js";
+import { contextQueryHint, getContextGuidelines, type AdContext } from "../context.js";
+import type { AgentStateType, ClaimType } from "../state.js";
 
 /** 検索設定 */
 const SEARCH_CONFIG = {
-  /** 各ソースからの取得件数 */
+  /** 各ソースからの取得件数（全文検索時） */
   limitPerSource: 5,
+  /** 各ソースからの取得件数（クレーム単位の検索時） */
+  limitPerSourcePerClaim: 3,
+  /** 前提条件に応じたガイドラインの取得件数 */
+  limitContextGuidelines: 3,
   /** 検索対象ソース */
   sources: ["law", "guideline", "qa"] as const,
 };
 
+/** クレーム種別ごとに検索クエリへ付与する観点キーワード */
+const CLAIM_QUERY_HINTS: Record<ClaimType, string> = {
+  efficacy: "優良誤認 効果 性能 合理的な根拠",
+  price: "有利誤認 価格表示 二重価格",
+  premium: "景品類 懸賞 総付景品 上限",
+  comparison: "比較広告 No.1表示 優良誤認",
+  testimonial: "体験談 口コミ 満足度 表示",
+};
+
+/**
+ * 検索結果を統合
+ * 同一文書は距離が最も小さいものを残し、距離順（昇順）でソート
+ */
+function mergeResults(resultSets: SearchResult[][]): SearchResult[] {
+  const byId = new Map<string, SearchResult>();
+
+  for (const doc of resultSets.flat()) {
+    const existing = byId.get(doc.id);
+    if (!existing || doc.score < existing.score) {
+      byId.set(doc.id, doc);
+    }
+  }
+
+  return [...byId.values()].sort((a, b) => a.score - b.score);
+}
+
+/**
+ * 前提条件（商品カテゴリ・掲載媒体）に対応するガイドラインを検索
+ * 該当するガイドラインがない場合は検索しない
+ */
+async function searchContextGuidelines(text: string, context: AdContext): Promise<SearchResult[]> {
+  const filenames = getContextGuidelines(context);
+  if (filenames.length === 0) {
+    return [];
+  }
+
+  return search(`${text} ${contextQueryHint(context)}`, {
+    limit: SEARCH_CONFIG.limitContextGuidelines,
+    source: "guideline",
+    filenames,
+  });
+}
+
 /**
  * Retriever ノード関数
- * 正規化されたテキスト全文でRAG検索を実行
+ * クレームごとにRAG検索を実行（クレームがない場合は全文で検索）
+ * 前提条件が指定されている場合は、対応するガイドラインの検索結果も加える
  */
 export async function retriever(state: AgentStateType): Promise<Partial<AgentStateType>> {
-  const { normalizedText } = state;
+  const { normalizedText, claims, options } = state;
 
   if (!normalizedText || normalizedText.length === 0) {
     return {
       retrievedDocs: [],
+      claimDocIds: {},
     };
   }
 
-  // 全文で検索（multiSearchは各ソースから並列で検索）
-  const results = await multiSearch(normalizedText, {
-    limitPerSource: SEARCH_CONFIG.limitPerSource,
-    sources: [...SEARCH_CONFIG.sources],
+  // クレームが抽出できなかった場合は全文で検索（multiSearchは各ソースから並列で検索）
+  if (claims.length === 0) {
+    const [results, contextDocs] = await Promise.all([
+      multiSearch(normalizedText, {
+        limitPerSource: SEARCH_CONFIG.limitPerSource,
+        sources: [...SEARCH_CONFIG.sources],
+      }),
+      searchContextGuidelines(normalizedText, options),
+    ]);
+
+    return {
+      retrievedDocs: mergeResults([results, contextDocs]),
+      claimDocIds: {},
+    };
+  }
+
+  // クレームごとに並列検索
+  const [perClaimResults, contextDocs] = await Promise.all([
+    Promise.all(
+      claims.map((claim) =>
+        multiSearch(`${claim.text} ${CLAIM_QUERY_HINTS[claim.type]}`, {
+          limitPerSource: SEARCH_CONFIG.limitPerSourcePerClaim,
+          sources: [...SEARCH_CONFIG.sources],
+        }),
+      ),
+    ),
+    searchContextGuidelines(normalizedText, options),
+  ]);
+
+  const claimDocIds: Record<string, string[]> = {};
+  claims.forEach((claim, i) => {
+    claimDocIds[claim.id] = perClaimResults[i].map((doc) => doc.id);
   });
 
   return {
-    retrievedDocs: results,
+    retrievedDocs: mergeResults([...perClaimResults, contextDocs]),
+    claimDocIds,
   };
 }
@@ -4,21 +4,42 @@
  */
 
 import { z } from "zod";
-import { getLLM } from "../llm.js";
-import type { AgentStateType, RiskAssessment, Citation } from "../state.js";
+import { invokeStructuredWithFallback } from "../fallback.js";
+import { getLLMConfig, getLLMModel } from "../llm.js";
+import {
+  buildConsensus,
+  type ConsensusOptions,
+  type ConsensusParticipant,
+  type ModelRun,
+} from "../consensus.js";
+import type { AgentStateType, RiskAssessment, Citation, Claim } from "../state.js";
 import type { SearchResult } from "../../retrieval/vectorStore.js";
+import { mergeRuleFindings, type RuleFinding } from "../rules/index.js";
+import { formatAdContext } from "../context.js";
+import { formatViolationCodes, formatViolationType, violationCodeSchema } from "../taxonomy.js";
+import { getStrictnessSettings } from "../strictness.js";
+import { BudgetExceededError } from "../usage.js";
+
+/** 個別の評価の出力スキーマ */
+const AssessmentOutputSchema = z.object({
+  expression: z.string().describe("問題のある表現（広告文からの抜粋）"),
+  riskLevel: z.enum(["high", "medium", "low", "none"]).describe("リスクレベル"),
+  violationCode: violationCodeSchema.describe("違反類型のコード"),
+  reasoning: z.string().describe("判断理由（具体的な法令やガイドラインを引用）"),
+  citedDocIds: z.array(z.string()).describe("参照した文書のID"),
+  suggestion: z.string().describe("改善提案"),
+  claimId: z.string().describe("評価対象のクレームID（該当なしの場合は空文字列）"),
+  confidence: z.number().min(0).max(1).describe("違反リスクがあるという判断の確信度（0〜1）"),
+});
+
+type AssessmentOutput = z.infer<typeof AssessmentOutputSchema>;
 
 /** リスク評価の出力スキーマ */
 const RiskAnalysisSchema = z.object({
+  // 違反類型のコードに対応付けられない等、スキーマに合わない評価はnullにして後で除外する
+  // （1件の不正な評価で出力全体を失敗させない。LLMに渡すJSON Schemaは元の評価のスキーマのまま）
   assessments: z.array(
-    z.object({
-      expression: z.string().describe("問題のある表現（広告文からの抜粋）"),
-      riskLevel: z.enum(["high", "medium", "low", "none"]).describe("リスクレベル"),
-      violationType: z.string().describe("違反類型（例: 優良誤認（第5条1項1号））"),
-      reasoning: z.string().describe("判断理由（具体的な法令やガイドラインを引用）"),
-      citedDocIds: z.array(z.string()).describe("参照した文書のID"),
-      suggestion: z.string().describe("改善提案"),
-    }),
+    AssessmentOutputSchema.transform((a): AssessmentOutput | null => a).catch(null),
   ),
   overallRisk: z.enum(["high", "medium", "low", "none"]).describe("総合リスクレベル"),
   summary: z.string().describe("日本語のサマリーレポート（広告担当者向け）"),
@@ -43,6 +64,10 @@ const RISK_ANALYSIS_PROMPT = `あなたは景品表示法の専門家です。
 - 懸賞: 取引価額の20倍または10万円のいずれか低い方が上限
 - 総付: 取引価額の20%または200円のいずれか高い方が上限
 
+### 違反類型のコード
+violationCodeには次のいずれかのコードを設定してください（指定告示・不実証広告・ステマに当たる場合はそのコードを優先）
+{violationCodes}
+
 ## リスクレベルの基準
 
 ### high（高リスク）
@@ -63,14 +88,28 @@ const RISK_ANALYSIS_PROMPT = `あなたは景品表示法の専門家です。
 ### none（リスクなし）
 - 景品表示法上の問題は見られない
 
+{riskLevelInstruction}
+
 ## 広告文
 {adText}
 
+## 広告の前提条件
+商品カテゴリ・掲載媒体・対象者に特有の規制やガイドラインがあれば、それを踏まえて評価してください。
+キャンペーン期間が指定されている場合は、期間限定の表示が実際の期間と整合しているかも確認してください。
+{context}
+
+## 抽出されたクレーム
+{claims}
+
+## ルールエンジンの検出結果
+以下は定型的なリスク表現のルールによる機械的な検出結果です。評価の参考にしてください。
+{ruleFindings}
+
 ## 参照可能な法令・ガイドライン・Q&A
 {documents}
 
 ## 出力形式
-以下のJSON形式で出力してください。**必ず問題のある表現を1つ以上検出してください。**
+以下のJSON形式で出力してください。**{detectionInstruction}**
 
 \`\`\`json
 {
@@ -78,10 +117,12 @@ const RISK_ANALYSIS_PROMPT = `あなたは景品表示法の専門家です。
     {
       "expression": "問題のある表現（広告文からそのまま抜粋）",
       "riskLevel": "high" | "medium" | "low" | "none",
-      "violationType": "違反類型（例: 優良誤認（第5条1項1号））",
+      "violationCode": "違反類型のコード（例: misleading_quality）",
       "reasoning": "判断理由（参照文書を引用して具体的に）",
       "citedDocIds": ["参照した文書のID"],
-      "suggestion": "改善提案（具体的な修正案）"
+      "suggestion": "改善提案（具体的な修正案）",
+      "claimId": "評価対象のクレームID（該当なしの場合は空文字列）",
+      "confidence": 0.0〜1.0（違反リスクがあるという判断の確信度）
     }
   ],
   "overallRisk": "high" | "medium" | "low" | "none",
@@ -92,13 +133,14 @@ const RISK_ANALYSIS_PROMPT = `あなたは景品表示法の専門家です。
 **重要:**
 - 「業界No.1」「最高」「最安」などの最上級表現は、根拠がない限り優良誤認リスクがあります
 - 「今だけ」「限定」などの表現は、有利誤認リスクがあります
-- assessmentsが空になることは稀です。少しでも疑わしい表現があれば検出してください
-- 問題が全く見つからない場合のみ、assessmentsを空配列にしてください`;
+- ルールエンジンの検出結果は文脈を踏まえて評価し、問題がある場合は同じ表現を抜粋してください
+- confidenceは参照文書による裏付けの強さと表現の明確さに応じて設定してください
+- 各評価はクレーム単位で行い、対応するクレームIDをclaimIdに設定してください`;
 
 /**
  * 検索結果をプロンプト用にフォーマット
  */
-function formatDocuments(docs: SearchResult[]): string {
+export function formatDocuments(docs: SearchResult[]): string {
   if (docs.length === 0) {
     return "（参照文書なし）";
   }
@@ -121,10 +163,43 @@ function formatDocuments(docs: SearchResult[]): string {
     .join("\n\n---\n\n");
 }
 
+/**
+ * クレーム一覧をプロンプト用にフォーマット
+ */
+function formatClaims(claims: Claim[], claimDocIds: Record<string, string[]>): string {
+  if (claims.length === 0) {
+    return "（クレームなし。広告文全体を評価してください）";
+  }
+
+  return claims
+    .map((claim) => {
+      const docIds = claimDocIds[claim.id] ?? [];
+      const related = docIds.length > 0 ? `\n  関連文書: ${docIds.join(", ")}` : "";
+      return `[${claim.id}] (${claim.type}) ${claim.text}${related}`;
+    })
+    .join("\n");
+}
+
+/**
+ * ルール検出結果をプロンプト用にフォーマット
+ */
+function formatRuleFindings(findings: RuleFinding[]): string {
+  if (findings.length === 0) {
+    return "（検出なし）";
+  }
+
+  return findings
+    .map(
+      (f) =>
+        `- [${f.ruleId}] "${f.expression}" ${f.ruleName} / ${f.violationCode}（${f.lawArticle}）`,
+    )
+    .join("\n");
+}
+
 /**
  * 引用情報を構築
  */
-function buildCitations(citedDocIds: string[], docs: SearchResult[]): Citation[] {
+export function buildCitations(citedDocIds: string[], docs: SearchResult[]): Citation[] {
   return citedDocIds
     .map((id) => {
       const doc = docs.find((d) => d.id === id);
@@ -145,7 +220,7 @@ function buildCitations(citedDocIds: string[], docs: SearchResult[]): Citation[]
  * 広告文と検索結果をLLMに渡してリスク評価を実行
  */
 export async function riskAnalyzer(state: AgentStateType): Promise<Partial<AgentStateType>> {
-  const { normalizedText, retrievedDocs } = state;
+  const { normalizedText, options, retrievedDocs, claims, claimDocIds, ruleFindings } = state;
 
   // 広告文がない場合は評価をスキップ
   if (!normalizedText || normalizedText.length === 0) {
@@ -156,34 +231,161 @@ export async function riskAnalyzer(state: AgentStateType): Promise<Partial<Agent
     };
   }
 
-  // LLMを取得
-  const llm = getLLM();
-
-  // 構造化出力を設定
-  const structuredLlm = llm.withStructuredOutput(RiskAnalysisSchema);
+  // プロンプトを構築（検出方針・リスクレベルの選び方は審査の厳しさによって変える）
+  const strictness = getStrictnessSettings(options.strictness);
+  const prompt = RISK_ANALYSIS_PROMPT.replace(
+    "{riskLevelInstruction}",
+    strictness.riskLevelInstruction,
+  )
+    .replace("{detectionInstruction}", strictness.detectionInstruction)
+    .replace("{adText}", normalizedText)
+    .replace("{context}", formatAdContext(options))
+    .replace("{claims}", formatClaims(claims, claimDocIds))
+    .replace("{ruleFindings}", formatRuleFindings(ruleFindings))
+    .replace("{documents}", formatDocuments(retrievedDocs))
+    .replace("{violationCodes}", formatViolationCodes());
 
-  // プロンプトを構築
-  const prompt = RISK_ANALYSIS_PROMPT.replace("{adText}", normalizedText).replace(
-    "{documents}",
-    formatDocuments(retrievedDocs),
-  );
+  // 合議モードの場合は複数のプロバイダーで並列に評価してまとめる
+  if (options.consensus) {
+    return analyzeWithConsensus(prompt, options.consensus, state);
+  }
 
-  // LLMを実行
-  const result = await structuredLlm.invoke(prompt);
+  // LLMを実行（失敗時は再試行し、それでも失敗した場合は次のプロバイダーにフォールバック）
+  const { output: result, call } = await invokeStructuredWithFallback(RiskAnalysisSchema, prompt, {
+    name: "risk_analysis",
+  });
+  const llmAssessments = toAssessments(result, claims, retrievedDocs, strictness.minConfidence);
 
-  // RiskAssessmentに変換
-  const riskAssessments: RiskAssessment[] = result.assessments.map((a) => ({
-    expression: a.expression,
-    riskLevel: a.riskLevel,
-    violationType: a.violationType,
-    reasoning: a.reasoning,
-    citations: buildCitations(a.citedDocIds, retrievedDocs),
-    suggestion: a.suggestion,
-  }));
+  // ルールエンジンの検出結果をマージ（LLMが拾わなかった検出結果を残すかは審査の厳しさによる）
+  const riskAssessments = mergeRuleFindings(
+    llmAssessments,
+    ruleFindings,
+    retrievedDocs,
+    strictness.includeUnconfirmedRuleFindings,
+  );
 
   return {
     riskAssessments,
     overallRisk: result.overallRisk,
+    llmOverallRisk: result.overallRisk,
     summary: result.summary,
+    riskAnalysisCall: call,
+  };
+}
+
+/**
+ * LLMの出力をRiskAssessmentに変換（存在しないクレームIDは無視）
+ * スキーマに合わなかった評価と、確信度が審査の厳しさの最低確信度に満たない評価は指摘として報告しない
+ */
+function toAssessments(
+  result: z.infer<typeof RiskAnalysisSchema>,
+  claims: Claim[],
+  retrievedDocs: SearchResult[],
+  minConfidence: number,
+): RiskAssessment[] {
+  const claimIds = new Set(claims.map((c) => c.id));
+  return result.assessments
+    .filter((a): a is NonNullable<typeof a> => a !== null && a.confidence >= minConfidence)
+    .map((a) => ({
+      expression: a.expression,
+      riskLevel: a.riskLevel,
+      violationCode: a.violationCode,
+      violationType: formatViolationType(a.violationCode),
+      reasoning: a.reasoning,
+      citations: buildCitations(a.citedDocIds, retrievedDocs),
+      suggestion: a.suggestion,
+      claimId: claimIds.has(a.claimId) ? a.claimId : undefined,
+      source: "llm",
+      modelConfidence: a.confidence,
+    }));
+}
+
+/**
+ * 複数のプロバイダーで並列にリスク評価を実行し、合議の結果にまとめる
+ * 各プロバイダーは再試行のみ行い、他のプロバイダーへのフォールバックはしない
+ * （一部のプロバイダーが失敗した場合は、成功したプロバイダーだけで合議する）
+ * @throws {Error} プロバイダーが指定されていない場合
+ * @throws {BudgetExceededError} いずれかのプロバイダーで予算を超えた場合
+ * @throws {LLMFallbackError} すべてのプロバイダーで失敗した場合
+ */
+async function analyzeWithConsensus(
+  prompt: string,
+  consensus: ConsensusOptions,
+  state: AgentStateType,
+): Promise<Partial<AgentStateType>> {
+  const { claims, retrievedDocs, ruleFindings, options } = state;
+  const { minConfidence, includeUnconfirmedRuleFindings } = getStrictnessSettings(
+    options.strictness,
+  );
+  if (consensus.providers.length === 0) {
+    throw new Error("Consensus mode requires at least one provider");
+  }
+
+  const configs = consensus.providers.map((provider) => getLLMConfig(provider));
+  const settled = await Promise.allSettled(
+    configs.map((config) =>
+      invokeStructuredWithFallback(RiskAnalysisSchema, prompt, {
+        name: "risk_analysis",
+        chain: [config],
+      }),
+    ),
+  );
+
+  // 予算超過は一部のプロバイダーの失敗として扱わず、分析を中断する
+  const budgetExceeded = settled.find(
+    (o): o is PromiseRejectedResult =>
+      o.status === "rejected" && o.reason instanceof BudgetExceededError,
+  );
+  if (budgetExceeded) {
+    throw budgetExceeded.reason;
+  }
+
+  const runs: ModelRun[] = [];
+  const participants: ConsensusParticipant[] = settled.map((outcome, i) => {
+    const config = configs[i];
+    const model = getLLMModel(config);
+    if (outcome.status === "rejected") {
+      const reason = outcome.reason as unknown;
+      return {
+        provider: config.provider,
+        model,
+        error: reason instanceof Error ? reason.message : String(reason),
+      };
+    }
+    const { output, call } = outcome.value;
+    runs.push({
+      provider: config.provider,
+      model,
+      assessments: toAssessments(output, claims, retrievedDocs, minConfidence),
+      overallRisk: output.overallRisk,
+      summary: output.summary,
+      call,
+    });
+    return { provider: config.provider, model, overallRisk: output.overallRisk, call };
+  });
+
+  if (runs.length === 0) {
+    const failure = settled.find((o): o is PromiseRejectedResult => o.status === "rejected");
+    throw failure?.reason;
+  }
+
+  const { assessments, overallRisk, summary, overall } = buildConsensus(runs, consensus);
+
+  return {
+    riskAssessments: mergeRuleFindings(
+      assessments,
+      ruleFindings,
+      retrievedDocs,
+      includeUnconfirmedRuleFindings,
+    ),
+    overallRisk,
+    llmOverallRisk: overallRisk,
+    summary,
+    consensus: {
+      policy: overall.policy,
+      participants,
+      overall,
+      disagreements: assessments.filter((a) => a.consensus?.disagreement).length,
+    },
   };
 }
@@ -0,0 +1,26 @@
+/**
+ * RiskScorer ノード
+ * 検証を終えた個別のリスク評価から、総合リスクレベルとスコアを決定的に求める
+ */
+
+import type { AgentStateType } from "../state.js";
+import { getScoringConfig, scoreAssessments } from "../scoring.js";
+
+/**
+ * RiskScorer ノード関数
+ * LLM・各検証ノードが設定した総合リスクレベルを、個別の評価から求めたレベルで置き換える
+ * （LLM自身の総合判定はllmOverallRiskに保持されている）
+ * しきい値は審査の厳しさから取得し、スコアリング設定で指定した場合はそちらを優先する
+ * confidenceEstimator・spanLocatorの後に実行し、確信度が低く人による判断が必要な評価と、
+ * 広告文中に見つからなかった表現の評価はスコアに含めない
+ */
+export async function riskScorer(state: AgentStateType): Promise<Partial<AgentStateType>> {
+  const { riskAssessments, options } = state;
+
+  const riskScore = scoreAssessments(riskAssessments, getScoringConfig(options));
+
+  return {
+    riskScore,
+    overallRisk: riskScore.level,
+  };
+}
@@ -0,0 +1,34 @@
+/**
+ * RuleChecker ノード
+ * ルールエンジンで定型的なリスク表現を検出（LLM非依存）
+ */
+
+import { runRules, findingToAssessment } from "../rules/index.js";
+import type { AgentStateType } from "../state.js";
+import { getStrictnessSettings } from "../strictness.js";
+
+/**
+ * RuleChecker ノード関数
+ * 正規化されたテキストにルールを適用し、検出結果をriskAssessmentsに反映する
+ * 審査の厳しさで報告しないリスクレベルのルールの検出結果は除外する
+ * Note: LLM評価後はriskAnalyzerがLLMの評価結果とマージする
+ */
+export async function ruleChecker(state: AgentStateType): Promise<Partial<AgentStateType>> {
+  const { normalizedText, options } = state;
+
+  if (!normalizedText || normalizedText.length === 0) {
+    return {
+      ruleFindings: [],
+    };
+  }
+
+  const { ruleSeverities } = getStrictnessSettings(options.strictness);
+  const ruleFindings = runRules(normalizedText).filter((finding) =>
+    ruleSeverities.includes(finding.severity),
+  );
+
+  return {
+    ruleFindings,
+    riskAssessments: ruleFindings.map((finding) => findingToAssessment(finding)),
+  };
+}
@@ -0,0 +1,115 @@
+/**
+ * SpanLocator ノード
+ * 各リスク評価の表現を元の広告文上の位置（文字オフセット）に対応付け
+ */
+
+import type { AgentStateType, RiskAssessment } from "../state.js";
+import { normalizeText, toRawSpan } from "./inputParser.js";
+
+/**
+ * 表現の検索候補を作成
+ * LLMが抜粋時に付けた括弧・引用符や、正規化前の表記で返した場合にも対応する
+ */
+function searchCandidates(expression: string): string[] {
+  const trimmed = expression.trim();
+  const unquoted = trimmed.replace(/^["'「『【]+|["'」』】]+$/g, "").trim();
+  return [...new Set([trimmed, normalizeText(trimmed), unquoted, normalizeText(unquoted)])].filter(
+    (c) => c.length > 0,
+  );
+}
+
+/**
+ * 広告全体に関する評価か（入力オプションから判定した景品類の上限超過等、広告文上の表現を持たない評価）
+ */
+export function isPageLevel(assessment: RiskAssessment): boolean {
+  return assessment.expression.trim().length === 0;
+}
+
+/** 元の広告文上の範囲 */
+type Span = { start: number; end: number };
+
+/**
+ * テキスト中の出現位置を元の広告文上の範囲として探す
+ * 使用済みの範囲と一致しない最初の出現位置を優先し、なければ最初の出現位置を返す
+ */
+function findSpan(
+  text: string,
+  needle: string,
+  toSpan: (index: number) => Span,
+  used: Span[],
+): Span | undefined {
+  let first: Span | undefined;
+  let index = text.indexOf(needle);
+  while (index !== -1) {
+    const span = toSpan(index);
+    first ??= span;
+    if (!used.some((u) => u.start === span.start && u.end === span.end)) {
+      return span;
+    }
+    index = text.indexOf(needle, index + 1);
+  }
+  return first;
+}
+
+/**
+ * 各リスク評価の表現を元の広告文上の位置に対応付け
+ * 表現を正規化済みテキストから検索し、オフセットマップで元の広告文上の位置に変換する
+ * - 同じ表現が複数回出現する場合は、まだ割り当てていない出現位置を優先する
+ * - 広告文中に見つからない表現はverified=falseとする
+ * - 表現が空の評価（入力オプションから判定した広告全体に関する指摘）は位置を持たず、verifiedも設定しない
+ */
+export function locateSpans(
+  adText: string,
+  normalizedText: string,
+  offsetMap: number[],
+  riskAssessments: RiskAssessment[],
+): RiskAssessment[] {
+  const used: Span[] = [];
+
+  return riskAssessments.map((assessment) => {
+    if (isPageLevel(assessment)) {
+      return { ...assessment, start: undefined, end: undefined, verified: undefined };
+    }
+
+    for (const candidate of searchCandidates(assessment.expression)) {
+      // 正規化済みテキストから検索してオフセットマップで変換し、
+      // 見つからなければ正規化前の表記のまま返された可能性を考えて元テキストから直接検索
+      const span =
+        findSpan(
+          normalizedText,
+          candidate,
+          (index) => toRawSpan(offsetMap, index, index + candidate.length),
+          used,
+        ) ??
+        findSpan(
+          adText,
+          candidate,
+          (index) => ({ start: index, end: index + candidate.length }),
+          used,
+        );
+
+      if (span) {
+        used.push(span);
+        return { ...assessment, ...span, verified: true };
+      }
+    }
+
+    return { ...assessment, start: undefined, end: undefined, verified: false };
+  });
+}
+
+/**
+ * SpanLocator ノード関数
+ * 各リスク評価の表現を元の広告文上の位置（文字オフセット）に対応付ける
+ */
+export async function spanLocator(state: AgentStateType): Promise<Partial<AgentStateType>> {
+  const { adText, normalizedText, offsetMap, riskAssessments } = state;
+
+  if (!normalizedText || normalizedText.length === 0) {
+    return {};
+  }
+
+  return {
+    riskAssessments: locateSpans(adText, normalizedText, offsetMap, riskAssessments),
+  };
+}
@@ -0,0 +1,240 @@
+/**
+ * 法務レビュー（ヒューマンレビュー）
+ * AIの評価結果でグラフを中断し、レビュアーの承認・修正を反映して再開する
+ *
+ * 中断中の状態はチェックポイントファイルに保存されるため、分析とレビューは別プロセスで実行できる
+ */
+
+import { randomUUID } from "crypto";
+import { join } from "path";
+import { FileCheckpointSaver } from "./checkpointer.js";
+import { createAdLinterGraph } from "./graph.js";
+import { toAnalysisResult } from "./analyze.js";
+import { getScoringConfig, RISK_ORDER, scoreAssessments } from "./scoring.js";
+import { UsageTracker } from "./usage.js";
+import { withEmbeddingListener } from "../retrieval/embeddings.js";
+import type { AgentStateType, AnalysisResult, AnalyzeAdOptions, RiskAssessment } from "./state.js";
+
+type RiskLevel = RiskAssessment["riskLevel"];
+
+/** レビュー関連のエラー */
+export class ReviewError extends Error {
+  constructor(
+    message: string,
+    public readonly threadId?: string,
+  ) {
+    super(message);
+    this.name = "ReviewError";
+  }
+}
+
+/** レビュー判断の種類 */
+export type ReviewAction = "accept" | "downgrade" | "upgrade" | "dismiss";
+
+/** 個別のリスク評価に対するレビュー判断 */
+export interface ReviewDecision {
+  /** 対象のリスク評価のインデックス（riskAssessments内の位置） */
+  assessmentIndex: number;
+  /** 判断 */
+  action: ReviewAction;
+  /** 変更後のリスクレベル（downgrade/upgradeの場合は必須） */
+  riskLevel?: RiskLevel;
+  /** コメント */
+  comment?: string;
+}
+
+/** レビュー結果の提出内容 */
+export interface ReviewSubmission {
+  /** レビュアー名 */
+  reviewer: string;
+  /** 個別の判断（すべてのリスク評価に対して必要） */
+  decisions: ReviewDecision[];
+  /** 全体コメント */
+  comment?: string;
+}
+
+/** レビュー後のリスク評価（AIの判定と人の判断の両方を保持） */
+export interface ReviewedAssessment {
+  /** AIの評価結果 */
+  assessment: RiskAssessment;
+  /** レビュアーの判断 */
+  decision: ReviewDecision;
+  /** 最終的なリスクレベル（dismissの場合は"none"） */
+  finalRiskLevel: RiskLevel;
+}
+
+/** 承認済みのレビュー記録 */
+export interface ReviewRecord {
+  /** レビュアー名 */
+  reviewer: string;
+  /** レビュー日時（ISO 8601） */
+  reviewedAt: string;
+  /** 全体コメント */
+  comment?: string;
+  /** AIの総合リスクレベル */
+  aiOverallRisk: RiskLevel;
+  /** レビュー後の総合リスクレベル（レビュー後のリスクレベルから分析時と同じ設定で求める） */
+  finalOverallRisk: RiskLevel;
+  /** 個別のリスク評価 */
+  assessments: ReviewedAssessment[];
+}
+
+/** レビュー操作のオプション */
+export interface ReviewOptions {
+  /** チェックポイントファイルのパス（デフォルト: data/checkpoints/review.json） */
+  checkpointPath?: string;
+}
+
+/** デフォルトのチェックポイントファイル */
+const DEFAULT_CHECKPOINT_PATH = join(process.cwd(), "data", "checkpoints", "review.json");
+
+/**
+ * レビュー判断を検証し、リスク評価に反映
+ * 総合リスクレベルはriskScorerと同じく、審査の厳しさ・スコアリング設定に従ってスコアから求める
+ * @throws {ReviewError} 判断が不足・重複している場合、またはリスクレベルの変更方向が不正な場合
+ */
+export function applyReviewDecisions(
+  assessments: RiskAssessment[],
+  aiOverallRisk: RiskLevel,
+  submission: ReviewSubmission,
+  options: Pick<AnalyzeAdOptions, "strictness" | "scoring"> = {},
+): ReviewRecord {
+  if (!submission.reviewer || submission.reviewer.trim().length === 0) {
+    throw new ReviewError("Reviewer name is required");
+  }
+
+  const byIndex = new Map<number, ReviewDecision>();
+  for (const decision of submission.decisions) {
+    if (decision.assessmentIndex < 0 || decision.assessmentIndex >= assessments.length) {
+      throw new ReviewError(`Assessment index out of range: ${decision.assessmentIndex}`);
+    }
+    if (byIndex.has(decision.assessmentIndex)) {
+      throw new ReviewError(`Duplicate decision for assessment ${decision.assessmentIndex}`);
+    }
+    byIndex.set(decision.assessmentIndex, decision);
+  }
+
+  const reviewed = assessments.map((assessment, i): ReviewedAssessment => {
+    const decision = byIndex.get(i);
+    if (!decision) {
+      throw new ReviewError(`Missing decision for assessment ${i}: "${assessment.expression}"`);
+    }
+
+    switch (decision.action) {
+      case "accept":
+        return { assessment, decision, finalRiskLevel: assessment.riskLevel };
+      case "dismiss":
+        return { assessment, decision, finalRiskLevel: "none" };
+      case "downgrade":
+      case "upgrade": {
+        const level = decision.riskLevel;
+        const direction = decision.action === "upgrade" ? 1 : -1;
+        if (
+          !level ||
+          Math.sign(RISK_ORDER[level] - RISK_ORDER[assessment.riskLevel]) !== direction
+        ) {
+          throw new ReviewError(
+            `Invalid risk level for ${decision.action} of assessment ${i}: ${assessment.riskLevel} -> ${level ?? "(none)"}`,
+          );
+        }
+        return { assessment, decision, finalRiskLevel: level };
+      }
+    }
+  });
+
+  // 人が判断した評価は確信度に関わらずスコアに含める
+  const finalOverallRisk = scoreAssessments(
+    reviewed.map((r) => ({ ...r.assessment, riskLevel: r.finalRiskLevel, confidence: undefined })),
+    getScoringConfig(options),
+  ).level;
+
+  return {
+    reviewer: submission.reviewer,
+    reviewedAt: new Date().toISOString(),
+    comment: submission.comment,
+    aiOverallRisk,
+    finalOverallRisk,
+    assessments: reviewed,
+  };
+}
+
+/**
+ * レビュー用のグラフとスレッド設定を作成
+ */
+function createReviewGraph(threadId: string, options: ReviewOptions) {
+  const checkpointer = new FileCheckpointSaver(options.checkpointPath ?? DEFAULT_CHECKPOINT_PATH);
+  const graph = createAdLinterGraph({ checkpointer, humanReview: true });
+  return { graph, config: { configurable: { thread_id: threadId } } };
+}
+
+/**
+ * 広告文を分析し、レビュー待ちの状態で中断
+ *
+ * @returns スレッドIDとAIの分析結果（submitReviewでスレッドIDを指定して再開する）
+ */
+export async function startReview(
+  adText: string,
+  options: AnalyzeAdOptions = {},
+  reviewOptions: ReviewOptions & { threadId?: string } = {},
+): Promise<{ threadId: string; result: AnalysisResult }> {
+  const startTime = Date.now();
+  const threadId = reviewOptions.threadId ?? randomUUID();
+  const { graph, config } = createReviewGraph(threadId, reviewOptions);
+
+  const tracker = new UsageTracker();
+  const state = await withEmbeddingListener(tracker.recordEmbedding, () =>
+    graph.invoke({ adText, options }, { ...config, callbacks: [tracker] }),
+  );
+
+  return {
+    threadId,
+    result: toAnalysisResult(state, Date.now() - startTime, tracker.report()),
+  };
+}
+
+/**
+ * レビュー待ちのAIの分析結果を取得
+ * @throws {ReviewError} スレッドが存在しない、またはレビュー待ちでない場合
+ */
+export async function getPendingReview(
+  threadId: string,
+  reviewOptions: ReviewOptions = {},
+): Promise<AnalysisResult> {
+  const { graph, config } = createReviewGraph(threadId, reviewOptions);
+  const snapshot = await graph.getState(config);
+
+  if (!snapshot.next.includes("humanReview")) {
+    throw new ReviewError(`Thread is not waiting for review: ${threadId}`, threadId);
+  }
+
+  return toAnalysisResult(snapshot.values as AgentStateType, 0);
+}
+
+/**
+ * レビュー結果を提出してグラフを再開し、承認済みの分析結果を返す
+ * 結果にはAIの判定（riskAssessments/overallRisk）とレビュアーの判断（review）の両方が含まれる
+ *
+ * @throws {ReviewError} スレッドがレビュー待ちでない場合、または判断が不正な場合
+ */
+export async function submitReview(
+  threadId: string,
+  submission: ReviewSubmission,
+  reviewOptions: ReviewOptions = {},
+): Promise<AnalysisResult> {
+  const startTime = Date.now();
+  const { graph, config } = createReviewGraph(threadId, reviewOptions);
+  const snapshot = await graph.getState(config);
+
+  if (!snapshot.next.includes("humanReview")) {
+    throw new ReviewError(`Thread is not waiting for review: ${threadId}`, threadId);
+  }
+
+  // 再開前に検証して、不正な判断でスレッドを進めないようにする
+  const values = snapshot.values as AgentStateType;
+  applyReviewDecisions(values.riskAssessments, values.overallRisk, submission, values.options);
+
+  await graph.updateState(config, { reviewSubmission: submission });
+  const state = await graph.invoke(null, config);
+
+  return toAnalysisResult(state, Date.now() - startTime);
+}
@@ -0,0 +1,193 @@
+/**
+ * 広告文の自動リライト
+ * 改善提案を反映した修正版の広告文を生成し、リスクが下がるまで再評価を繰り返す
+ */
+
+import { z } from "zod";
+import { analyzeAd } from "./analyze.js";
+import { getLLM } from "./llm.js";
+import type { AnalysisResult, AnalyzeAdOptions, RiskAssessment } from "./state.js";
+
+/** リライトのオプション */
+export interface RewriteOptions extends AnalyzeAdOptions {
+  /** 最大反復回数（分析回数。デフォルト: 3） */
+  maxIterations?: number;
+}
+
+/** リライトの各反復の結果 */
+export interface RewriteIteration {
+  /** 反復番号（1始まり。1は元の広告文） */
+  iteration: number;
+  /** この反復で評価した広告文 */
+  adText: string;
+  /** 総合リスクレベル */
+  overallRisk: AnalysisResult["overallRisk"];
+  /** 前の反復からの変更点（1回目は空） */
+  changes: string[];
+  /** 分析結果 */
+  result: AnalysisResult;
+}
+
+/**
+ * リライトの終了理由
+ * - converged: 目標のリスクレベル（low/none）に到達
+ * - max_iterations: 最大反復回数に到達
+ * - no_change: リライトで広告文が変化しなかった
+ */
+export type RewriteStopReason = "converged" | "max_iterations" | "no_change";
+
+/** リライト結果 */
+export interface RewriteResult {
+  /** 元の広告文 */
+  originalText: string;
+  /** 最終的な広告文 */
+  finalText: string;
+  /** 最終的な総合リスクレベル */
+  finalRisk: AnalysisResult["overallRisk"];
+  /** 目標のリスクレベル（low/none）に到達したか */
+  converged: boolean;
+  /** 終了理由 */
+  stopReason: RewriteStopReason;
+  /** 全反復の結果 */
+  iterations: RewriteIteration[];
+}
+
+/** デフォルトの最大反復回数 */
+const DEFAULT_MAX_ITERATIONS = 3;
+
+/** 収束とみなすリスクレベル */
+const ACCEPTABLE_RISKS: AnalysisResult["overallRisk"][] = ["low", "none"];
+
+/** リライトの出力スキーマ */
+const RewriteSchema = z.object({
+  rewrittenText: z.string().describe("修正後の広告文全文"),
+  changes: z.array(z.string()).describe("主な変更点（箇条書き）"),
+});
+
+/** リライトプロンプト */
+const REWRITE_PROMPT = `あなたは景品表示法に詳しい広告コピーライターです。
+以下の広告文には景品表示法上のリスクが指摘されています。
+指摘と改善提案を反映し、景品表示法に適合する広告文の修正版を作成してください。
+
+## 元の広告文（訴求意図の参考）
+{originalText}
+
+## 現在の広告文
+{currentText}
+
+## 指摘されたリスク
+{assessments}
+
+## 作成ルール
+- 広告文全体を書き直し、修正版の全文をrewrittenTextに出力してください
+- 商品の魅力や訴求意図（誰に何を伝えたいか）はできる限り維持してください
+- 根拠が確認できない最上級表現・効果の断定・期間や数量の限定は、事実に基づく表現に置き換えるか削除してください
+- 価格・景品の金額や条件は、元の広告文にない数値を新たに作らないでください
+- 打消し表示に頼らず、強調表示そのものを適正にしてください`;
+
+/**
+ * 指摘されたリスクをプロンプト用にフォーマット
+ */
+function formatAssessments(assessments: RiskAssessment[]): string {
+  if (assessments.length === 0) {
+    return "（個別の指摘なし）";
+  }
+
+  return assessments
+    .map(
+      (a) =>
+        `- "${a.expression}"（${a.riskLevel} / ${a.violationType}）\n  理由: ${a.reasoning}\n  改善提案: ${a.suggestion}`,
+    )
+    .join("\n");
+}
+
+/**
+ * 分析結果に基づいて広告文をリライト
+ */
+async function generateRewrite(
+  originalText: string,
+  result: AnalysisResult,
+): Promise<z.infer<typeof RewriteSchema>> {
+  const llm = getLLM();
+  const structuredLlm = llm.withStructuredOutput<z.infer<typeof RewriteSchema>>(RewriteSchema, {
+    name: "rewrite",
+  });
+
+  const prompt = REWRITE_PROMPT.replace("{originalText}", originalText)
+    .replace("{currentText}", result.adText)
+    .replace("{assessments}", formatAssessments(result.riskAssessments));
+
+  return structuredLlm.invoke(prompt);
+}
+
+/**
+ * 広告文をリライトし、総合リスクがlow/noneになるか最大反復回数に達するまで再評価を繰り返す
+ *
+ * @param adText - 元の広告文
+ * @param options - 分析オプションと最大反復回数
+ * @returns 全反復の広告文とリスクを含むリライト結果
+ *
+ * @example
+ * ```typescript
+ * const result = await rewriteAd("業界No.1の効果！今だけ半額！", { maxIterations: 3 });
+ * console.log(result.finalText);
+ * for (const it of result.iterations) console.log(it.iteration, it.overallRisk);
+ * ```
+ */
+export async function rewriteAd(
+  adText: string,
+  options: RewriteOptions = {},
+): Promise<RewriteResult> {
+  const { maxIterations = DEFAULT_MAX_ITERATIONS, ...analyzeOptions } = options;
+  if (!Number.isInteger(maxIterations) || maxIterations < 1) {
+    throw new Error(`maxIterations must be an integer of at least 1: ${maxIterations}`);
+  }
+
+  const iterations: RewriteIteration[] = [];
+  let currentText = adText;
+  let changes: string[] = [];
+  let stopReason: RewriteStopReason = "max_iterations";
+
+  for (let i = 1; i <= maxIterations; i++) {
+    const result = await analyzeAd(currentText, analyzeOptions);
+    iterations.push({
+      iteration: i,
+      adText: currentText,
+      overallRisk: result.overallRisk,
+      changes,
+      result,
+    });
+
+    // 目標のリスクレベルに到達、または最後の反復なら終了
+    if (ACCEPTABLE_RISKS.includes(result.overallRisk)) {
+      stopReason = "converged";
+      break;
+    }
+    if (i === maxIterations) {
+      break;
+    }
+
+    const rewrite = await generateRewrite(adText, result);
+    const rewrittenText = rewrite.rewrittenText.trim();
+
+    // リライトで変化がなければそれ以上の改善は見込めない
+    if (rewrittenText.length === 0 || rewrittenText === currentText) {
+      stopReason = "no_change";
+      break;
+    }
+
+    currentText = rewrittenText;
+    changes = rewrite.changes;
+  }
+
+  const last = iterations[iterations.length - 1];
+
+  return {
+    originalText: adText,
+    finalText: last.adText,
+    finalRisk: last.overallRisk,
+    converged: stopReason === "converged",
+    stopReason,
+    iterations,
+  };
+}
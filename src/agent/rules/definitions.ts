@@ -0,0 +1,113 @@
+/**
+ * リスク表現ルール定義
+ * 審査で繰り返し指摘される定型表現を決定的に検出する
+ */
+
+import type { RiskAssessment } from "../state.js";
+import type { ViolationCode } from "../taxonomy.js";
+
+export interface RiskRule {
+  /** ルールID（安定した識別子。変更しないこと） */
+  id: string;
+  /** ルール名称 */
+  name: string;
+  /** 検出パターン（正規化済みテキストに適用。gフラグ必須） */
+  pattern: RegExp;
+  /** デフォルトのリスクレベル */
+  severity: Exclude<RiskAssessment["riskLevel"], "none">;
+  /** 違反類型のコード */
+  violationCode: ViolationCode;
+  /** 関連条文（表示用） */
+  lawArticle: string;
+  /** 関連条番号（ベクトルストアのarticleNumberと対応） */
+  articleNumber: string;
+  /** 判断理由 */
+  reasoning: string;
+  /** 改善提案 */
+  suggestion: string;
+}
+
+/**
+ * ルール一覧
+ * Note: パターンはinputParserで正規化済み（全角英数字→半角）のテキストを前提とする
+ * Note: 数字や語の一部に一致しないよう前後の境界を指定する（「21位」「No.10」「最高裁判所」等）
+ *       パターンを変更した場合は scripts/test-rules.ts のケースを追加すること
+ */
+export const RISK_RULES: RiskRule[] = [
+  {
+    id: "superlative-no1",
+    name: "No.1表示",
+    pattern:
+      /(?:業界|日本|世界|国内|地域)?(?:No[.．]?\s?1(?!\d)|ナンバーワン|ナンバー1(?!\d)|(?<!\d)1位)/gi,
+    severity: "medium",
+    violationCode: "misleading_quality",
+    lawArticle: "第5条第1号",
+    articleNumber: "5",
+    reasoning:
+      "No.1表示は、客観的な調査に基づく根拠と、比較対象・調査期間・調査機関等の明示がない場合、優良誤認表示となるおそれがあります。",
+    suggestion:
+      "調査機関・調査期間・比較対象を併記するか、根拠がない場合は表現を削除してください。",
+  },
+  {
+    id: "superlative-best",
+    name: "最上級表現",
+    pattern: /最高(?!裁)(?:品質|級|峰|の)?|最上級|究極/g,
+    severity: "medium",
+    violationCode: "misleading_quality",
+    lawArticle: "第5条第1号",
+    articleNumber: "5",
+    reasoning:
+      "「最高」等の最上級表現は、客観的な根拠がない場合、実際のものより著しく優良であると示す表示となるおそれがあります。",
+    suggestion: "客観的な根拠を示せる具体的な表現（成分・仕様等の事実）に置き換えてください。",
+  },
+  {
+    id: "lowest-price",
+    name: "最安表示",
+    pattern: /(?:業界|日本|地域)?最安(?:値)?|日本一安い/g,
+    severity: "medium",
+    violationCode: "misleading_terms",
+    lawArticle: "第5条第2号",
+    articleNumber: "5",
+    reasoning:
+      "「最安」表示は、比較対象となる範囲の価格を網羅的に調査した根拠がない場合、有利誤認表示となるおそれがあります。",
+    suggestion: "比較対象の範囲と調査日を明示するか、根拠がない場合は表現を削除してください。",
+  },
+  {
+    id: "limited-time",
+    name: "期間限定表示",
+    pattern: /今だけ|今なら|期間限定|本日限り/g,
+    severity: "medium",
+    violationCode: "misleading_terms",
+    lawArticle: "第5条第2号",
+    articleNumber: "5",
+    reasoning:
+      "「今だけ」等の表示は、実際には期間経過後も同一条件で販売している場合、有利誤認表示となるおそれがあります。",
+    suggestion:
+      "具体的な期間（開始日・終了日）を明示し、期間経過後は同一条件で販売しないでください。",
+  },
+  {
+    id: "limited-quantity",
+    name: "限定表示",
+    pattern: /(?<!期間)(?:数量|個数|人数)?限定|先着\d+(?:名|人|個)/g,
+    severity: "low",
+    violationCode: "misleading_terms",
+    lawArticle: "第5条第2号",
+    articleNumber: "5",
+    reasoning:
+      "「限定」表示は、実際には数量・期間の限定がない場合、有利誤認表示となるおそれがあります。",
+    suggestion: "限定の内容（数量・期間・対象者）を具体的に明示してください。",
+  },
+  {
+    id: "premium-all-applicants",
+    name: "総付景品表示",
+    pattern:
+      /(?:購入者|申込者|来店者)?全員(?:に)?もれなく|もれなく全員|(?:購入者|申込者|来店者)全員/g,
+    severity: "medium",
+    violationCode: "premium_total",
+    lawArticle: "第4条",
+    articleNumber: "4",
+    reasoning:
+      "取引に付随してもれなく提供する景品類は総付景品に当たり、取引価額に応じた上限（取引価額の20%または200円のいずれか高い方）を超えると景品規制違反となります。",
+    suggestion: "景品類の価額と取引価額を確認し、総付景品の上限内であることを確認してください。",
+  },
+];
@@ -0,0 +1,138 @@
+/**
+ * ルールエンジン
+ * ルール定義を広告文に適用し、LLMの評価結果とマージする
+ */
+
+import type { SearchResult } from "../../retrieval/vectorStore.js";
+import type { Citation, RiskAssessment } from "../state.js";
+import { formatViolationType, type ViolationCode } from "../taxonomy.js";
+import { RISK_RULES, type RiskRule } from "./definitions.js";
+
+/** ルールによる検出結果 */
+export interface RuleFinding {
+  /** ルールID */
+  ruleId: string;
+  /** ルール名称 */
+  ruleName: string;
+  /** 検出された表現 */
+  expression: string;
+  /** 正規化済みテキスト上の開始位置 */
+  start: number;
+  /** 正規化済みテキスト上の終了位置（排他的） */
+  end: number;
+  /** リスクレベル */
+  severity: RiskRule["severity"];
+  /** 違反類型のコード */
+  violationCode: ViolationCode;
+  /** 関連条文 */
+  lawArticle: string;
+}
+
+/**
+ * ルールを適用して検出結果を返す
+ * 結果は出現位置順にソートされる
+ */
+export function runRules(text: string, rules: RiskRule[] = RISK_RULES): RuleFinding[] {
+  const findings: RuleFinding[] = [];
+
+  for (const rule of rules) {
+    // lastIndexを共有しないようにルールごとに複製
+    const pattern = new RegExp(rule.pattern.source, rule.pattern.flags);
+    for (const match of text.matchAll(pattern)) {
+      if (match[0].length === 0) continue;
+      const start = match.index ?? 0;
+      findings.push({
+        ruleId: rule.id,
+        ruleName: rule.name,
+        expression: match[0],
+        start,
+        end: start + match[0].length,
+        severity: rule.severity,
+        violationCode: rule.violationCode,
+        lawArticle: rule.lawArticle,
+      });
+    }
+  }
+
+  return findings.sort((a, b) => a.start - b.start || a.ruleId.localeCompare(b.ruleId));
+}
+
+/**
+ * ルールIDからルール定義を取得
+ */
+export function getRule(ruleId: string): RiskRule | undefined {
+  return RISK_RULES.find((rule) => rule.id === ruleId);
+}
+
+/**
+ * 関連条文の法令文書を引用情報に変換
+ */
+function buildRuleCitations(rule: RiskRule, docs: SearchResult[]): Citation[] {
+  return docs
+    .filter((doc) => doc.source === "law" && doc.articleNumber === rule.articleNumber)
+    .map((doc) => ({
+      source: "law",
+      id: doc.id,
+      articleNumber: doc.articleNumber,
+      content: doc.content.substring(0, 200),
+      relevanceScore: doc.score,
+    }));
+}
+
+/**
+ * ルール検出結果をRiskAssessmentに変換
+ */
+export function findingToAssessment(
+  finding: RuleFinding,
+  docs: SearchResult[] = [],
+): RiskAssessment {
+  const rule = getRule(finding.ruleId);
+
+  return {
+    expression: finding.expression,
+    riskLevel: finding.severity,
+    violationCode: finding.violationCode,
+    violationType: formatViolationType(finding.violationCode),
+    reasoning: rule?.reasoning ?? "",
+    citations: rule ? buildRuleCitations(rule, docs) : [],
+    suggestion: rule?.suggestion ?? "",
+    source: "rule",
+    ruleIds: [finding.ruleId],
+  };
+}
+
+/**
+ * LLMの評価結果にルール検出結果をマージ
+ * - 表現が重なるLLM評価にはルールIDを付与
+ * - どのLLM評価にも含まれない検出結果はルール由来の評価として追加（includeUnmatchedがfalseの場合は追加しない）
+ */
+export function mergeRuleFindings(
+  assessments: RiskAssessment[],
+  findings: RuleFinding[],
+  docs: SearchResult[] = [],
+  includeUnmatched = true,
+): RiskAssessment[] {
+  const merged = assessments.map((a) => ({ ...a }));
+  const unmatched: RuleFinding[] = [];
+
+  for (const finding of findings) {
+    const target = merged.find(
+      (a) =>
+        a.expression.length > 0 &&
+        (a.expression.includes(finding.expression) || finding.expression.includes(a.expression)),
+    );
+    if (target) {
+      const ruleIds = target.ruleIds ?? [];
+      if (!ruleIds.includes(finding.ruleId)) {
+        target.ruleIds = [...ruleIds, finding.ruleId];
+      }
+    } else {
+      unmatched.push(finding);
+    }
+  }
+
+  if (!includeUnmatched) {
+    return merged;
+  }
+  return [...merged, ...unmatched.map((finding) => findingToAssessment(finding, docs))];
+}
@@ -0,0 +1,9 @@
+export { RISK_RULES, type RiskRule } from "./definitions.js";
+
+export {
+  runRules,
+  getRule,
+  findingToAssessment,
+  mergeRuleFindings,
+  type RuleFinding,
+} from "./engine.js";
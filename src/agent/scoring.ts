@@ -0,0 +1,163 @@
+/**
+ * リスクスコアリング
+ * 個別のリスク評価から総合リスクレベルと0〜100のスコアを決定的に求める
+ * （LLMが返す総合リスクレベルは個別の評価と食い違うことがあるため、比較用に別途保持する）
+ *
+ * スコアの計算:
+ * 1. 各評価の点数 = リスクレベルの点数 × 違反類型の重み
+ * 2. 点数の高い順に並べ、件数の重み（2件目以降は逓減）を掛けて合計する
+ * 3. 100を上限として四捨五入し、しきい値で総合リスクレベルに変換する
+ *
+ * 広告文中に見つからなかった表現の評価（verified === false）と、
+ * 確信度が低く人による判断が必要な評価（confidence.uncertain）はスコアに含めない
+ * （入力オプションから判定した広告全体に関する評価は、表現を持たなくてもスコアに含める）
+ */
+
+import { isPageLevel } from "./nodes/spanLocator.js";
+import type { AnalyzeAdOptions, RiskAssessment } from "./state.js";
+import { getStrictnessSettings } from "./strictness.js";
+import type { ViolationCode } from "./taxonomy.js";
+
+type RiskLevel = RiskAssessment["riskLevel"];
+
+/** リスクレベルの順序（値が大きいほど高リスク） */
+export const RISK_ORDER: Record<RiskLevel, number> = { none: 0, low: 1, medium: 2, high: 3 };
+
+/** スコアリングの設定 */
+export interface ScoringConfig {
+  /** リスクレベルごとの点数 */
+  levelPoints: Record<RiskLevel, number>;
+  /**
+   * 違反類型のコードごとの重み
+   * 例: { misleading_terms: 1.2, disclaimer_insufficient: 0.8 }
+   */
+  violationWeights: Partial<Record<ViolationCode, number>>;
+  /** どの違反類型にも当てはまらない場合の重み */
+  defaultViolationWeight: number;
+  /** 点数の高い順にn件目の評価に掛ける重み（件数が多い場合は最後の値を繰り返す） */
+  countWeights: number[];
+  /** 総合リスクレベルのしきい値（スコアがこの値以上の場合にそのレベル） */
+  thresholds: { high: number; medium: number; low: number };
+}
+
+/**
+ * デフォルトのスコアリング設定
+ * 高リスク1件で高リスク、中リスク1件で中リスクとなる
+ * 中リスクだけで高リスクに達するのは5件以上重なった場合（30 + 15 + 7.5 + 3.75 + 3.75 = 60）
+ */
+export const DEFAULT_SCORING_CONFIG: ScoringConfig = {
+  levelPoints: { high: 60, medium: 30, low: 10, none: 0 },
+  violationWeights: {},
+  defaultViolationWeight: 1,
+  countWeights: [1, 0.5, 0.25, 0.125],
+  thresholds: { high: 60, medium: 30, low: 1 },
+};
+
+/** 1件の評価のスコアへの寄与 */
+export interface ScoreContribution {
+  /** 評価の表現 */
+  expression: string;
+  /** リスクレベル */
+  riskLevel: RiskLevel;
+  /** 違反類型のコード */
+  violationCode: ViolationCode;
+  /** 違反類型 */
+  violationType: string;
+  /** 違反類型の重み */
+  violationWeight: number;
+  /** 件数の重み */
+  countWeight: number;
+  /** スコアへの寄与（点数 × 違反類型の重み × 件数の重み） */
+  points: number;
+}
+
+/** スコアリングの結果 */
+export interface RiskScore {
+  /** スコア（0〜100） */
+  score: number;
+  /** スコアから求めた総合リスクレベル */
+  level: RiskLevel;
+  /** 評価ごとの寄与（寄与の大きい順） */
+  contributions: ScoreContribution[];
+}
+
+/**
+ * 部分的な設定をデフォルト値で補う（違反類型の重みはデフォルトに追加する）
+ */
+export function resolveScoringConfig(config: Partial<ScoringConfig> = {}): ScoringConfig {
+  return {
+    ...DEFAULT_SCORING_CONFIG,
+    ...config,
+    levelPoints: { ...DEFAULT_SCORING_CONFIG.levelPoints, ...config.levelPoints },
+    violationWeights: { ...DEFAULT_SCORING_CONFIG.violationWeights, ...config.violationWeights },
+    thresholds: { ...DEFAULT_SCORING_CONFIG.thresholds, ...config.thresholds },
+  };
+}
+
+/**
+ * 分析オプションからスコアリング設定を求める
+ * しきい値は審査の厳しさから取得し、スコアリング設定で指定した場合はそちらを優先する
+ */
+export function getScoringConfig(
+  options: Pick<AnalyzeAdOptions, "strictness" | "scoring">,
+): Partial<ScoringConfig> {
+  const { thresholds } = getStrictnessSettings(options.strictness);
+  return { thresholds, ...options.scoring };
+}
+
+/**
+ * 違反類型の重みを取得
+ */
+function violationWeight(violationCode: ViolationCode, config: ScoringConfig): number {
+  return config.violationWeights[violationCode] ?? config.defaultViolationWeight;
+}
+
+/**
+ * スコアを総合リスクレベルに変換
+ */
+export function scoreToLevel(score: number, thresholds: ScoringConfig["thresholds"]): RiskLevel {
+  if (score >= thresholds.high) return "high";
+  if (score >= thresholds.medium) return "medium";
+  if (score >= thresholds.low) return "low";
+  return "none";
+}
+
+/**
+ * 個別のリスク評価からスコアと総合リスクレベルを求める
+ */
+export function scoreAssessments(
+  assessments: RiskAssessment[],
+  config: Partial<ScoringConfig> = {},
+): RiskScore {
+  const resolved = resolveScoringConfig(config);
+  const { countWeights } = resolved;
+
+  const contributions = assessments
+    .filter(
+      (a) =>
+        (a.verified !== false || isPageLevel(a)) &&
+        !a.confidence?.uncertain &&
+        resolved.levelPoints[a.riskLevel] > 0,
+    )
+    .map((a) => {
+      const weight = violationWeight(a.violationCode, resolved);
+      return { assessment: a, weight, base: resolved.levelPoints[a.riskLevel] * weight };
+    })
+    .sort((a, b) => b.base - a.base)
+    .map(({ assessment, weight, base }, i): ScoreContribution => {
+      const countWeight = countWeights[Math.min(i, countWeights.length - 1)] ?? 1;
+      return {
+        expression: assessment.expression,
+        riskLevel: assessment.riskLevel,
+        violationCode: assessment.violationCode,
+        violationType: assessment.violationType,
+        violationWeight: weight,
+        countWeight,
+        points: base * countWeight,
+      };
+    });
+
+  const total = contributions.reduce((sum, c) => sum + c.points, 0);
+  const score = Math.round(Math.min(100, Math.max(0, total)));
+  return { score, level: scoreToLevel(score, resolved.thresholds), contributions };
+}
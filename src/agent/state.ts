@@ -5,6 +5,22 @@
 
 import { Annotation } from "@langchain/langgraph";
 import type { SearchResult } from "../retrieval/vectorStore.js";
+import type { RuleFinding } from "./rules/engine.js";
+import type { PremiumInput, PremiumLimitCheck } from "./validators/premium.js";
+import type { DoublePriceCheck, PriceHistoryInput } from "./validators/doublePrice.js";
+import type { DisclosureCheck } from "./validators/disclosure.js";
+import type { DisclaimerCheck } from "./validators/disclaimer.js";
+import type { ReviewRecord, ReviewSubmission } from "./review.js";
+import type { AdContext } from "./context.js";
+import type { EvidenceDocument, SubstantiationCheck } from "./evidence.js";
+import type { CacheInfo } from "./cache.js";
+import type { UsageReport } from "./usage.js";
+import type { LLMCallRecord } from "./fallback.js";
+import type { RiskScore, ScoringConfig } from "./scoring.js";
+import type { ViolationCode } from "./taxonomy.js";
+import type { StrictnessProfile } from "./strictness.js";
+import type { AssessmentConfidence } from "./confidence.js";
+import type { AssessmentConsensus, ConsensusOptions, ConsensusReport } from "./consensus.js";
 
 /** 引用情報 */
 export interface Citation {
@@ -15,13 +31,45 @@ export interface Citation {
   relevanceScore: number;
 }
 
+/** クレーム種別 */
+export type ClaimType = "efficacy" | "price" | "premium" | "comparison" | "testimonial";
+
+/** 広告文から抽出された個別の主張 */
+export interface Claim {
+  /** クレームID（例: "claim-1"） */
+  id: string;
+  /** 主張の本文（広告文からの抜粋） */
+  text: string;
+  /** クレーム種別 */
+  type: ClaimType;
+}
+
+/** 評価を裏付ける構造化された検証結果 */
+export interface AssessmentEvidence {
+  /** 景品類の上限額の判定結果 */
+  premiumLimit?: PremiumLimitCheck;
+  /** 二重価格表示の検証結果 */
+  doublePrice?: DoublePriceCheck;
+  /** 根拠資料による裏付けの評価結果 */
+  substantiation?: SubstantiationCheck;
+  /** 広告である旨の表示（ステマ規制）の検証結果 */
+  disclosure?: DisclosureCheck;
+  /** 対応する打消し表示の判定結果 */
+  disclaimers?: DisclaimerCheck[];
+}
+
+/** 分析モード（ad: 広告文 / social: インフルエンサー等のSNS投稿） */
+export type AnalysisMode = "ad" | "social";
+
 /** リスク評価結果 */
 export interface RiskAssessment {
   /** 問題のある表現 */
   expression: string;
   /** リスクレベル */
   riskLevel: "high" | "medium" | "low" | "none";
-  /** 違反類型（例: "優良誤認（第5条1項1号）"） */
+  /** 違反類型のコード */
+  violationCode: ViolationCode;
+  /** 違反類型の表示用文字列（コードから生成。例: "優良誤認（第5条第1号）"） */
   violationType: string;
   /** 判断理由 */
   reasoning: string;
@@ -29,6 +77,48 @@ export interface RiskAssessment {
   citations: Citation[];
   /** 改善提案 */
   suggestion: string;
+  /** 評価対象となったクレームのID */
+  claimId?: string;
+  /** 評価の出所（LLM評価 / ルールエンジン） */
+  source?: "llm" | "rule";
+  /** LLMが自己申告した確信度（0〜1、LLMによる評価のみ） */
+  modelConfidence?: number;
+  /** 評価の確信度（自己申告・ルールとの一致・引用・検索距離から求める） */
+  confidence?: AssessmentConfidence;
+  /** 該当したルールのID */
+  ruleIds?: string[];
+  /** 構造化された検証結果 */
+  evidence?: AssessmentEvidence;
+  /** 元の広告文（adText）上の開始位置 */
+  start?: number;
+  /** 元の広告文（adText）上の終了位置（排他的） */
+  end?: number;
+  /** 表現が広告文中に見つかったか（falseの場合は未検証の表現） */
+  verified?: boolean;
+  /** LP入力の場合、表現を含む要素のCSSセレクタ */
+  selector?: string;
+  /** 合議モードの場合、モデル間の合意状況 */
+  consensus?: AssessmentConsensus;
+}
+
+/** analyzeAdのオプション（広告の前提条件を含む） */
+export interface AnalyzeAdOptions extends AdContext {
+  /** 分析モード（デフォルト: "ad"。"social"の場合は広告である旨の表示も検証する） */
+  mode?: AnalysisMode;
+  /** 景品類の上限額計算の入力（広告文から抽出した値より優先） */
+  premium?: PremiumInput;
+  /** 比較対照価格の妥当性判定に使う価格履歴 */
+  priceHistory?: PriceHistoryInput;
+  /** 効果・性能の表示の根拠資料（試験報告書・調査結果等） */
+  evidence?: EvidenceDocument[];
+  /** 複数モデルの合議でリスク評価する場合の設定 */
+  consensus?: ConsensusOptions;
+  /** 総合リスクレベル・スコアの計算設定（省略した項目はデフォルト値） */
+  scoring?: Partial<ScoringConfig>;
+  /** 審査の厳しさ（デフォルト: "balanced"） */
+  strictness?: StrictnessProfile;
+  /** 確信度のしきい値（これを下回る評価は人による判断が必要とする。デフォルト: 0.5） */
+  confidenceThreshold?: number;
 }
 
 /** LangGraph State Annotation */
@@ -36,12 +126,42 @@ export const AgentState = Annotation.Root({
   /** 入力: 広告文テキスト */
   adText: Annotation<string>,
 
+  /** 入力: 分析オプション */
+  options: Annotation<AnalyzeAdOptions>({
+    reducer: (_, update) => update,
+    default: () => ({}),
+  }),
+
   /** 処理中: 正規化されたテキスト */
   normalizedText: Annotation<string>({
     reducer: (_, update) => update,
     default: () => "",
   }),
 
+  /** 処理中: 正規化後の位置から元の広告文上の位置へのオフセットマップ */
+  offsetMap: Annotation<number[]>({
+    reducer: (_, update) => update,
+    default: () => [],
+  }),
+
+  /** 処理中: ルールエンジンの検出結果 */
+  ruleFindings: Annotation<RuleFinding[]>({
+    reducer: (_, update) => update,
+    default: () => [],
+  }),
+
+  /** 処理中: 広告文から抽出したクレーム */
+  claims: Annotation<Claim[]>({
+    reducer: (_, update) => update,
+    default: () => [],
+  }),
+
+  /** 処理中: クレームIDごとの検索結果ID */
+  claimDocIds: Annotation<Record<string, string[]>>({
+    reducer: (_, update) => update,
+    default: () => ({}),
+  }),
+
   /** 処理中: RAG検索結果 */
   retrievedDocs: Annotation<SearchResult[]>({
     reducer: (_, update) => update,
@@ -54,7 +174,49 @@ export const AgentState = Annotation.Root({
     default: () => [],
   }),
 
-  /** 出力: 総合リスクレベル */
+  /** 出力: 景品類の上限額の判定結果 */
+  premiumChecks: Annotation<PremiumLimitCheck[]>({
+    reducer: (_, update) => update,
+    default: () => [],
+  }),
+
+  /** 出力: 二重価格表示の検証結果 */
+  doublePriceChecks: Annotation<DoublePriceCheck[]>({
+    reducer: (_, update) => update,
+    default: () => [],
+  }),
+
+  /** 出力: 根拠資料による裏付けの評価結果 */
+  substantiationChecks: Annotation<SubstantiationCheck[]>({
+    reducer: (_, update) => update,
+    default: () => [],
+  }),
+
+  /** 出力: 打消し表示の判定結果 */
+  disclaimerChecks: Annotation<DisclaimerCheck[]>({
+    reducer: (_, update) => update,
+    default: () => [],
+  }),
+
+  /** 出力: 広告である旨の表示の検証結果（SNS投稿モードのみ） */
+  disclosureCheck: Annotation<DisclosureCheck | undefined>({
+    reducer: (_, update) => update,
+    default: () => undefined,
+  }),
+
+  /** 処理中: LLMが判定した総合リスクレベル（比較用、合議モードでは合議の結果） */
+  llmOverallRisk: Annotation<"high" | "medium" | "low" | "none" | undefined>({
+    reducer: (_, update) => update,
+    default: () => undefined,
+  }),
+
+  /** 出力: 個別の評価から求めたスコア */
+  riskScore: Annotation<RiskScore | undefined>({
+    reducer: (_, update) => update,
+    default: () => undefined,
+  }),
+
+  /** 出力: 総合リスクレベル（個別の評価から求めたレベル） */
   overallRisk: Annotation<"high" | "medium" | "low" | "none">({
     reducer: (_, update) => update,
     default: () => "none",
@@ -66,6 +228,30 @@ export const AgentState = Annotation.Root({
     default: () => "",
   }),
 
+  /** 入力: 法務レビューの提出内容（レビュー再開時に設定） */
+  reviewSubmission: Annotation<ReviewSubmission | undefined>({
+    reducer: (_, update) => update,
+    default: () => undefined,
+  }),
+
+  /** 出力: 承認済みのレビュー記録 */
+  review: Annotation<ReviewRecord | undefined>({
+    reducer: (_, update) => update,
+    default: () => undefined,
+  }),
+
+  /** メタデータ: リスク評価のLLM呼び出し（応答したプロバイダー・試行回数） */
+  riskAnalysisCall: Annotation<LLMCallRecord | undefined>({
+    reducer: (_, update) => update,
+    default: () => undefined,
+  }),
+
+  /** メタデータ: 合議モードの結果（合議モードのみ） */
+  consensus: Annotation<ConsensusReport | undefined>({
+    reducer: (_, update) => update,
+    default: () => undefined,
+  }),
+
   /** メタデータ: 処理時間（ms） */
   processingTime: Annotation<number>({
     reducer: (_, update) => update,
@@ -79,9 +265,37 @@ export type AgentStateType = typeof AgentState.State;
 /** 分析結果の出力型 */
 export interface AnalysisResult {
   adText: string;
+  claims: Claim[];
   riskAssessments: RiskAssessment[];
+  premiumChecks: PremiumLimitCheck[];
+  doublePriceChecks: DoublePriceCheck[];
+  substantiationChecks: SubstantiationCheck[];
+  disclaimerChecks: DisclaimerCheck[];
+  /** 広告である旨の表示の検証結果（SNS投稿モードのみ） */
+  disclosureCheck?: DisclosureCheck;
+  /** 総合リスクレベル（個別の評価から求めたレベル） */
   overallRisk: "high" | "medium" | "low" | "none";
+  /** 個別の評価から求めたスコア */
+  riskScore?: RiskScore;
+  /** LLMが判定した総合リスクレベル（比較用） */
+  llmOverallRisk?: "high" | "medium" | "low" | "none";
+  /** 分析に使用した審査の厳しさ */
+  strictness?: StrictnessProfile;
   summary: string;
+  /** 分析時に指定された広告の前提条件 */
+  context: AdContext;
   processingTime: number;
   retrievedDocsCount: number;
+  /** RAG検索で取得した文書（フォローアップ質問の文脈として使用） */
+  retrievedDocs: SearchResult[];
+  /** 法務レビューの記録（レビュー済みの場合のみ） */
+  review?: ReviewRecord;
+  /** 分析結果キャッシュの利用状況（キャッシュを指定して分析した場合のみ） */
+  cache?: CacheInfo;
+  /** トークン使用量・コスト（キャッシュから返した場合は0） */
+  usage?: UsageReport;
+  /** リスク評価のLLM呼び出し（応答したプロバイダー・試行回数、合議モードではconsensusを参照） */
+  riskAnalysisCall?: LLMCallRecord;
+  /** 合議モードの結果（合議モードのみ） */
+  consensus?: ConsensusReport;
 }
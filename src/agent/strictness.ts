@@ -0,0 +1,86 @@
+/**
+ * 審査の厳しさ（ストリクトネス）プロファイル
+ * リスク評価の検出方針・総合リスクレベルのしきい値・指摘として報告する最低確信度・ルール検出結果の扱いをまとめて切り替える
+ *
+ * - conservative: 見逃しを避けることを優先し、少しでも疑わしい表現は指摘する
+ * - balanced: 根拠をもって問題があると判断できる表現を指摘する（デフォルト）
+ * - permissive: 明確に問題がある表現のみ指摘し、誤検出を抑える
+ *   （低リスクのルールと、LLMが問題と判断しなかったルールのみの検出結果は指摘しない）
+ */
+
+import type { RiskRule } from "./rules/definitions.js";
+import type { ScoringConfig } from "./scoring.js";
+
+/** 審査の厳しさ */
+export type StrictnessProfile = "conservative" | "balanced" | "permissive";
+
+/** 審査の厳しさごとの設定 */
+export interface StrictnessSettings {
+  /** 表示名 */
+  label: string;
+  /** リスク評価プロンプトの検出方針 */
+  detectionInstruction: string;
+  /** リスク評価プロンプトのリスクレベルの選び方 */
+  riskLevelInstruction: string;
+  /** 総合リスクレベルのしきい値（スコアリング設定で指定した場合はそちらを優先） */
+  thresholds: ScoringConfig["thresholds"];
+  /** 指摘として報告する最低確信度（LLMの自己申告、0〜1） */
+  minConfidence: number;
+  /** 指摘として報告するルール検出結果のリスクレベル */
+  ruleSeverities: RiskRule["severity"][];
+  /** LLMの評価と重ならないルール検出結果（ルールのみの指摘）も報告するか */
+  includeUnconfirmedRuleFindings: boolean;
+}
+
+/** デフォルトの審査の厳しさ */
+export const DEFAULT_STRICTNESS: StrictnessProfile = "balanced";
+
+/** 審査の厳しさごとの設定 */
+export const STRICTNESS_PROFILES: Record<StrictnessProfile, StrictnessSettings> = {
+  conservative: {
+    label: "厳格",
+    detectionInstruction:
+      "見逃しを避けることを優先し、少しでも疑わしい表現があれば検出してください。問題が全く見つからない場合のみ、assessmentsを空配列にしてください。",
+    riskLevelInstruction: "判断に迷う場合は、高い方のリスクレベルを選んでください。",
+    thresholds: { high: 45, medium: 20, low: 1 },
+    minConfidence: 0,
+    ruleSeverities: ["high", "medium", "low"],
+    includeUnconfirmedRuleFindings: true,
+  },
+  balanced: {
+    label: "標準",
+    detectionInstruction:
+      "参照文書に照らして問題があると判断できる表現を検出してください。問題のある表現が見つからない場合は、無理に検出せずassessmentsを空配列にしてください。",
+    riskLevelInstruction: "参照文書と表現の具体性に基づいてリスクレベルを選んでください。",
+    thresholds: { high: 60, medium: 30, low: 1 },
+    minConfidence: 0.5,
+    ruleSeverities: ["high", "medium", "low"],
+    includeUnconfirmedRuleFindings: true,
+  },
+  permissive: {
+    label: "寛容",
+    detectionInstruction:
+      "明確に問題がある表現のみ検出してください。一般的な宣伝表現や、根拠・条件が併記されている表現は検出しないでください。問題のある表現が見つからない場合は、assessmentsを空配列にしてください。",
+    riskLevelInstruction: "判断に迷う場合は、低い方のリスクレベルを選んでください。",
+    thresholds: { high: 60, medium: 40, low: 10 },
+    minConfidence: 0.7,
+    ruleSeverities: ["high", "medium"],
+    includeUnconfirmedRuleFindings: false,
+  },
+};
+
+/**
+ * 審査の厳しさかを判定
+ */
+export function isStrictnessProfile(value: string): value is StrictnessProfile {
+  return Object.hasOwn(STRICTNESS_PROFILES, value);
+}
+
+/**
+ * 審査の厳しさの設定を取得（省略時はデフォルト）
+ */
+export function getStrictnessSettings(
+  profile: StrictnessProfile = DEFAULT_STRICTNESS,
+): StrictnessSettings {
+  return STRICTNESS_PROFILES[profile];
+}
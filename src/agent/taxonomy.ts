@@ -0,0 +1,235 @@
+/**
+ * 違反類型の分類
+ * リスク評価の違反類型を安定したコードで表し、集計・絞り込みに使えるようにする
+ * 表示用の文字列（RiskAssessment.violationType）はコードから生成する
+ */
+
+import { z } from "zod";
+
+/** 違反類型のコード（安定した識別子。変更しないこと） */
+export const VIOLATION_CODES = [
+  "misleading_quality",
+  "misleading_terms",
+  "double_pricing",
+  "unsubstantiated",
+  "disclaimer_insufficient",
+  "disclaimer_mismatched",
+  "disclaimer_contradictory",
+  "designated_no_juice",
+  "designated_country_of_origin",
+  "designated_consumer_credit",
+  "designated_real_estate_decoy",
+  "designated_decoy",
+  "designated_nursing_home",
+  "stealth_marketing",
+  "premium_open_sweepstakes",
+  "premium_joint_sweepstakes",
+  "premium_total",
+  "premium_general",
+] as const;
+
+export type ViolationCode = (typeof VIOLATION_CODES)[number];
+
+/** 違反類型の分類 */
+export type ViolationCategory = "misleading" | "designated" | "premium";
+
+/** 違反類型の定義 */
+export interface ViolationDefinition {
+  /** コード */
+  code: ViolationCode;
+  /** 表示名 */
+  label: string;
+  /** 根拠条文 */
+  lawArticle: string;
+  /** 分類（不当表示 / 指定告示 / 景品規制） */
+  category: ViolationCategory;
+  /** 自由記述の違反類型をコードに対応付けるための別表記 */
+  aliases: string[];
+}
+
+/** 違反類型の一覧 */
+export const VIOLATION_TAXONOMY: Record<ViolationCode, ViolationDefinition> = {
+  misleading_quality: {
+    code: "misleading_quality",
+    label: "優良誤認",
+    lawArticle: "第5条第1号",
+    category: "misleading",
+    aliases: ["優良誤認"],
+  },
+  misleading_terms: {
+    code: "misleading_terms",
+    label: "有利誤認",
+    lawArticle: "第5条第2号",
+    category: "misleading",
+    aliases: ["有利誤認"],
+  },
+  double_pricing: {
+    code: "double_pricing",
+    label: "有利誤認・二重価格表示",
+    lawArticle: "第5条第2号",
+    category: "misleading",
+    aliases: ["二重価格", "比較対照価格"],
+  },
+  unsubstantiated: {
+    code: "unsubstantiated",
+    label: "不実証広告規制",
+    lawArticle: "第7条第2項",
+    category: "misleading",
+    aliases: ["不実証広告", "合理的な根拠"],
+  },
+  disclaimer_insufficient: {
+    code: "disclaimer_insufficient",
+    label: "打消し表示の不足",
+    lawArticle: "第5条",
+    category: "misleading",
+    aliases: ["打消し表示の不足"],
+  },
+  disclaimer_mismatched: {
+    code: "disclaimer_mismatched",
+    label: "打消し表示の不整合",
+    lawArticle: "第5条",
+    category: "misleading",
+    aliases: ["打消し表示の不整合"],
+  },
+  disclaimer_contradictory: {
+    code: "disclaimer_contradictory",
+    label: "打消し表示と強調表示の矛盾",
+    lawArticle: "第5条",
+    category: "misleading",
+    aliases: ["打消し表示と強調表示の矛盾", "打消し表示の矛盾"],
+  },
+  designated_no_juice: {
+    code: "designated_no_juice",
+    label: "無果汁の清涼飲料水等についての表示",
+    lawArticle: "第5条第3号・告示",
+    category: "designated",
+    aliases: ["無果汁"],
+  },
+  designated_country_of_origin: {
+    code: "designated_country_of_origin",
+    label: "商品の原産国に関する不当な表示",
+    lawArticle: "第5条第3号・告示",
+    category: "designated",
+    aliases: ["原産国"],
+  },
+  designated_consumer_credit: {
+    code: "designated_consumer_credit",
+    label: "消費者信用の融資費用に関する不当な表示",
+    lawArticle: "第5条第3号・告示",
+    category: "designated",
+    aliases: ["融資費用", "消費者信用"],
+  },
+  designated_real_estate_decoy: {
+    code: "designated_real_estate_decoy",
+    label: "不動産のおとり広告に関する表示",
+    lawArticle: "第5条第3号・告示",
+    category: "designated",
+    aliases: ["不動産のおとり広告"],
+  },
+  designated_decoy: {
+    code: "designated_decoy",
+    label: "おとり広告に関する表示",
+    lawArticle: "第5条第3号・告示",
+    category: "designated",
+    aliases: ["おとり広告"],
+  },
+  designated_nursing_home: {
+    code: "designated_nursing_home",
+    label: "有料老人ホームに関する不当な表示",
+    lawArticle: "第5条第3号・告示",
+    category: "designated",
+    aliases: ["有料老人ホーム"],
+  },
+  stealth_marketing: {
+    code: "stealth_marketing",
+    label: "ステルスマーケティング",
+    lawArticle: "第5条第3号・告示",
+    category: "designated",
+    aliases: ["ステルスマーケティング", "ステマ", "広告である旨"],
+  },
+  premium_open_sweepstakes: {
+    code: "premium_open_sweepstakes",
+    label: "景品規制（一般懸賞）",
+    lawArticle: "第4条",
+    category: "premium",
+    aliases: ["一般懸賞"],
+  },
+  premium_joint_sweepstakes: {
+    code: "premium_joint_sweepstakes",
+    label: "景品規制（共同懸賞）",
+    lawArticle: "第4条",
+    category: "premium",
+    aliases: ["共同懸賞"],
+  },
+  premium_total: {
+    code: "premium_total",
+    label: "景品規制（総付景品）",
+    lawArticle: "第4条",
+    category: "premium",
+    aliases: ["総付"],
+  },
+  premium_general: {
+    code: "premium_general",
+    label: "景品規制",
+    lawArticle: "第4条",
+    category: "premium",
+    // 「景品表示法違反」等に一致しないよう、「景品」単独は別表記にしない
+    aliases: ["景品類の提供", "景品類の制限", "懸賞"],
+  },
+};
+
+/**
+ * コードかを判定
+ */
+export function isViolationCode(value: string): value is ViolationCode {
+  return (VIOLATION_CODES as readonly string[]).includes(value);
+}
+
+/**
+ * 自由記述の違反類型をコードに対応付ける（対応付けられない場合はundefined）
+ * コードそのもの・表示名・別表記のうち、最も長く一致するものを採用する
+ * （「有利誤認・二重価格表示」は有利誤認ではなく二重価格表示に対応付く）
+ */
+export function resolveViolationCode(value: string): ViolationCode | undefined {
+  const trimmed = value.trim();
+  if (isViolationCode(trimmed)) {
+    return trimmed;
+  }
+
+  let best: { code: ViolationCode; length: number } | undefined;
+  for (const definition of Object.values(VIOLATION_TAXONOMY)) {
+    for (const alias of [definition.label, ...definition.aliases]) {
+      if (trimmed.includes(alias) && (!best || alias.length > best.length)) {
+        best = { code: definition.code, length: alias.length };
+      }
+    }
+  }
+  return best?.code;
+}
+
+/**
+ * 違反類型の表示用文字列を取得（例: "優良誤認（第5条第1号）"）
+ */
+export function formatViolationType(code: ViolationCode): string {
+  const definition = VIOLATION_TAXONOMY[code];
+  return `${definition.label}（${definition.lawArticle}）`;
+}
+
+/**
+ * LLMの出力スキーマ用の違反類型コード
+ * コード以外の値（表示名・自由記述）は対応付けてから検証し、対応付けられない値は拒否する
+ * （riskAnalyzerでは拒否された評価のみを除外する）
+ */
+export const violationCodeSchema = z.preprocess(
+  (value) => (typeof value === "string" ? (resolveViolationCode(value) ?? value) : value),
+  z.enum(VIOLATION_CODES),
+);
+
+/**
+ * プロンプト用に違反類型コードの一覧をフォーマット
+ */
+export function formatViolationCodes(): string {
+  return Object.values(VIOLATION_TAXONOMY)
+    .map((d) => `- ${d.code}: ${d.label}（${d.lawArticle}）`)
+    .join("\n");
+}
@@ -0,0 +1,305 @@
+/**
+ * トークン使用量・コストの集計
+ * チャットモデルはコールバックでAPIが返す使用量を、Embeddingは入力テキストからの推定値を、ノードごとに集計する
+ * 予算を指定した場合は、超過する時点で分析を中断する
+ */
+
+import { BaseCallbackHandler } from "@langchain/core/callbacks/base";
+import type { Serialized } from "@langchain/core/load/serializable";
+import { isAIMessage, type BaseMessage } from "@langchain/core/messages";
+import type { ChatGeneration, LLMResult } from "@langchain/core/outputs";
+import { getConfig } from "@langchain/langgraph";
+import type { EmbeddingRequest } from "../retrieval/embeddings.js";
+import { getLLMConfig, getLLMModel, type LLMConfig, type LLMProvider } from "./llm.js";
+
+/** 100万トークンあたりの料金（USD） */
+export interface ModelPrice {
+  /** モデル名 */
+  model: string;
+  /** 入力トークンの料金 */
+  inputPerMTok: number;
+  /** 出力トークンの料金 */
+  outputPerMTok: number;
+}
+
+/**
+ * モデル名ごとのチャットモデルの料金
+ * 登録されていないモデル（ローカルサーバー・フェイク等）のコストは0として扱う
+ */
+export const CHAT_MODEL_PRICES: Record<string, ModelPrice> = {
+  "gemini-2.0-flash": { model: "gemini-2.0-flash", inputPerMTok: 0.1, outputPerMTok: 0.4 },
+  "gemini-1.5-pro": { model: "gemini-1.5-pro", inputPerMTok: 1.25, outputPerMTok: 5 },
+  "claude-sonnet-4-20250514": {
+    model: "claude-sonnet-4-20250514",
+    inputPerMTok: 3,
+    outputPerMTok: 15,
+  },
+  "gpt-4o": { model: "gpt-4o", inputPerMTok: 2.5, outputPerMTok: 10 },
+  "gpt-4o-mini": { model: "gpt-4o-mini", inputPerMTok: 0.15, outputPerMTok: 0.6 },
+  "gpt-4.1": { model: "gpt-4.1", inputPerMTok: 2, outputPerMTok: 8 },
+  "gpt-4.1-mini": { model: "gpt-4.1-mini", inputPerMTok: 0.4, outputPerMTok: 1.6 },
+};
+
+/**
+ * チャットモデルの料金を取得（登録されていないモデルは0）
+ */
+export function getChatModelPrice(model: string): ModelPrice {
+  return CHAT_MODEL_PRICES[model] ?? { model, inputPerMTok: 0, outputPerMTok: 0 };
+}
+
+/** Embeddingモデルごとの料金（100万トークンあたり、USD） */
+export const EMBEDDING_MODEL_PRICES: Record<string, number> = {
+  "text-embedding-3-large": 0.13,
+  "text-embedding-3-small": 0.02,
+};
+
+/** トークン使用量とコスト */
+export interface TokenUsage {
+  /** チャットモデルの入力トークン数 */
+  inputTokens: number;
+  /** チャットモデルの出力トークン数 */
+  outputTokens: number;
+  /** Embeddingのトークン数（推定値） */
+  embeddingTokens: number;
+  /** チャットモデルの呼び出し回数 */
+  chatCalls: number;
+  /** Embeddingの呼び出し回数 */
+  embeddingCalls: number;
+  /** コスト（USD） */
+  costUsd: number;
+}
+
+/** 分析1回分の使用量 */
+export interface UsageReport {
+  /** LLMプロバイダー */
+  provider: LLMProvider;
+  /** チャットモデル名 */
+  model: string;
+  /** ノードごとの使用量 */
+  byNode: Record<string, TokenUsage>;
+  /** 合計 */
+  total: TokenUsage;
+}
+
+/** 分析1回あたりの予算（いずれかを超える時点で分析を中断する） */
+export interface UsageBudget {
+  /** コストの上限（USD） */
+  maxCostUsd?: number;
+  /** トークン数（入力・出力・Embeddingの合計）の上限 */
+  maxTokens?: number;
+}
+
+/** 予算超過エラー */
+export class BudgetExceededError extends Error {
+  constructor(
+    message: string,
+    public readonly budget: UsageBudget,
+    public readonly usage: UsageReport,
+  ) {
+    super(message);
+    this.name = "BudgetExceededError";
+  }
+}
+
+/** ノード外（グラフ実行外）での呼び出しの集計先 */
+const UNKNOWN_NODE = "(unknown)";
+
+/**
+ * 空の使用量を作成
+ */
+export function emptyTokenUsage(): TokenUsage {
+  return {
+    inputTokens: 0,
+    outputTokens: 0,
+    embeddingTokens: 0,
+    chatCalls: 0,
+    embeddingCalls: 0,
+    costUsd: 0,
+  };
+}
+
+/**
+ * 使用量を合算
+ */
+export function addTokenUsage(a: TokenUsage, b: TokenUsage): TokenUsage {
+  return {
+    inputTokens: a.inputTokens + b.inputTokens,
+    outputTokens: a.outputTokens + b.outputTokens,
+    embeddingTokens: a.embeddingTokens + b.embeddingTokens,
+    chatCalls: a.chatCalls + b.chatCalls,
+    embeddingCalls: a.embeddingCalls + b.embeddingCalls,
+    costUsd: a.costUsd + b.costUsd,
+  };
+}
+
+/**
+ * テキストのトークン数を推定
+ * 日本語は1文字あたり約1トークン、英数字は4文字あたり約1トークンとして数える
+ */
+export function estimateTokens(text: string): number {
+  let ascii = 0;
+  let other = 0;
+  for (const char of text) {
+    if (char.charCodeAt(0) < 0x80) {
+      ascii++;
+    } else {
+      other++;
+    }
+  }
+  return other + Math.ceil(ascii / 4);
+}
+
+/**
+ * 実行中のLangGraphノード名を取得（ノード外の場合はundefined）
+ */
+function currentNode(): string | undefined {
+  try {
+    return getConfig().metadata?.langgraph_node as string | undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * メッセージの本文をテキストとして取得
+ */
+function messageText(message: BaseMessage): string {
+  return typeof message.content === "string" ? message.content : JSON.stringify(message.content);
+}
+
+/**
+ * 分析1回分のトークン使用量を集計するコールバックハンドラー
+ *
+ * - チャットモデル: APIが返す使用量（usage_metadata）を集計する（返さない場合は入出力テキストから推定）
+ * - Embedding: withEmbeddingListenerからの通知を受け、入力テキストからトークン数を推定して集計する
+ * - 予算を超える呼び出しは、呼び出し前（入力トークンの推定値で判定）に中断する
+ */
+export class UsageTracker extends BaseCallbackHandler {
+  name = "usage_tracker";
+  /** 予算超過の例外を呼び出し元に伝える */
+  raiseError = true;
+  /** 予算超過の判定を呼び出し前に終えるよう、ハンドラーの完了を待つ */
+  awaitHandlers = true;
+
+  private readonly price: ModelPrice;
+  private readonly byNode = new Map<string, TokenUsage>();
+  /** 実行中のチャットモデル呼び出し（runId → ノード名・料金・推定入力トークン数） */
+  private readonly runs = new Map<
+    string,
+    { node: string; price: ModelPrice; estimatedInputTokens: number }
+  >();
+
+  constructor(
+    public readonly budget: UsageBudget = {},
+    public readonly llm: LLMConfig = getLLMConfig(),
+  ) {
+    super();
+    this.price = getChatModelPrice(getLLMModel(llm));
+  }
+
+  /**
+   * 集計結果を取得
+   */
+  report(): UsageReport {
+    const byNode = Object.fromEntries(this.byNode);
+    const total = Object.values(byNode).reduce(addTokenUsage, emptyTokenUsage());
+    return { provider: this.llm.provider, model: this.price.model, byNode, total };
+  }
+
+  /**
+   * Embedding API呼び出しを集計（withEmbeddingListenerのlistenerとして使う）
+   * @throws {BudgetExceededError} 予算を超える場合
+   */
+  recordEmbedding = (request: EmbeddingRequest): void => {
+    const tokens = request.texts.reduce((sum, text) => sum + estimateTokens(text), 0);
+    const usage: TokenUsage = {
+      ...emptyTokenUsage(),
+      embeddingTokens: tokens,
+      embeddingCalls: 1,
+      costUsd: (tokens * (EMBEDDING_MODEL_PRICES[request.model] ?? 0)) / 1_000_000,
+    };
+    this.checkBudget(usage);
+    this.add(currentNode() ?? UNKNOWN_NODE, usage);
+  };
+
+  override handleChatModelStart(
+    _llm: Serialized,
+    messages: BaseMessage[][],
+    runId: string,
+    _parentRunId?: string,
+    _extraParams?: Record<string, unknown>,
+    _tags?: string[],
+    metadata?: Record<string, unknown>,
+  ): void {
+    // フォールバック先のモデルで呼び出された場合は、そのモデルの料金で集計する
+    const model = metadata?.ls_model_name as string | undefined;
+    const price = model && model !== this.price.model ? getChatModelPrice(model) : this.price;
+    const estimatedInputTokens = messages
+      .flat()
+      .reduce((sum, m) => sum + estimateTokens(messageText(m)), 0);
+    this.checkBudget({
+      ...emptyTokenUsage(),
+      inputTokens: estimatedInputTokens,
+      costUsd: (estimatedInputTokens * price.inputPerMTok) / 1_000_000,
+    });
+    this.runs.set(runId, {
+      node: (metadata?.langgraph_node as string | undefined) ?? UNKNOWN_NODE,
+      price,
+      estimatedInputTokens,
+    });
+  }
+
+  override handleLLMEnd(output: LLMResult, runId: string): void {
+    const run = this.runs.get(runId);
+    this.runs.delete(runId);
+
+    const generation = output.generations[0]?.[0] as ChatGeneration | undefined;
+    const message = generation?.message;
+    const usageMetadata = message && isAIMessage(message) ? message.usage_metadata : undefined;
+    const inputTokens = usageMetadata?.input_tokens ?? run?.estimatedInputTokens ?? 0;
+    const outputTokens = usageMetadata?.output_tokens ?? estimateTokens(generation?.text ?? "");
+    const price = run?.price ?? this.price;
+
+    this.add(run?.node ?? UNKNOWN_NODE, {
+      ...emptyTokenUsage(),
+      inputTokens,
+      outputTokens,
+      chatCalls: 1,
+      costUsd: (inputTokens * price.inputPerMTok + outputTokens * price.outputPerMTok) / 1_000_000,
+    });
+  }
+
+  override handleLLMError(_err: unknown, runId: string): void {
+    this.runs.delete(runId);
+  }
+
+  private add(node: string, usage: TokenUsage): void {
+    this.byNode.set(node, addTokenUsage(this.byNode.get(node) ?? emptyTokenUsage(), usage));
+  }
+
+  /**
+   * 予定している呼び出しを加えると予算を超えるかを判定
+   * @throws {BudgetExceededError} 予算を超える場合
+   */
+  private checkBudget(planned: TokenUsage): void {
+    const { maxCostUsd, maxTokens } = this.budget;
+    if (maxCostUsd === undefined && maxTokens === undefined) return;
+
+    const total = addTokenUsage(this.report().total, planned);
+    const tokens = total.inputTokens + total.outputTokens + total.embeddingTokens;
+    if (maxCostUsd !== undefined && total.costUsd > maxCostUsd) {
+      throw new BudgetExceededError(
+        `Budget exceeded: cost $${total.costUsd.toFixed(4)} > $${maxCostUsd}`,
+        this.budget,
+        this.report(),
+      );
+    }
+    if (maxTokens !== undefined && tokens > maxTokens) {
+      throw new BudgetExceededError(
+        `Budget exceeded: ${tokens} tokens > ${maxTokens}`,
+        this.budget,
+        this.report(),
+      );
+    }
+  }
+}
@@ -0,0 +1,168 @@
+/**
+ * 打消し表示（※注記）の抽出
+ * 強調表示に付けられた※印と、その内容を説明する打消し表示を対応付ける
+ */
+
+/** 打消し表示 */
+export interface Disclaimer {
+  /** 識別子（例: "※1"。番号のない※は出現順に "※(1)" のように採番） */
+  marker: string;
+  /** 打消し表示の本文（※印を除く） */
+  text: string;
+  /** 対応する強調表示（※印の参照元。対応が特定できない場合はundefined） */
+  anchor?: string;
+  /** テキスト上の開始位置（※印の位置） */
+  start: number;
+  /** テキスト上の終了位置（排他的） */
+  end: number;
+  /** 強調表示と同じ行にある（インラインの注記） */
+  inline: boolean;
+}
+
+/**
+ * 打消し表示の判定
+ * - effective: 強調表示と対応し、強調表示から受ける印象を適切に打ち消している
+ * - insufficient: 強調表示と対応しているが、打消しとして不十分（強調表示の印象が残る）
+ * - mismatched: 対応する強調表示がない、または強調表示の内容と対応していない
+ * - contradictory: 強調表示の内容と矛盾している
+ */
+export type DisclaimerJudgement = "effective" | "insufficient" | "mismatched" | "contradictory";
+
+/** 打消し表示と強調表示の対応の判定結果 */
+export interface DisclaimerCheck {
+  /** 打消し表示 */
+  disclaimer: Disclaimer;
+  /** 対応するクレームのID（対応するクレームがない場合はundefined） */
+  claimId?: string;
+  /** 判定 */
+  judgement: DisclaimerJudgement;
+  /** 判定理由 */
+  reasoning: string;
+}
+
+/** ※印のパターン（全角・半角数字の番号付きに対応） */
+const MARKER_PATTERN = /※([0-9０-９]*)/g;
+
+/** 強調表示の区切り（この文字の直後から※印までを強調表示とみなす） */
+const ANCHOR_BOUNDARY = /[。！!？?\n※]/;
+
+/**
+ * 番号を半角に正規化
+ */
+function normalizeNumber(num: string): string {
+  return num.replace(/[０-９]/g, (c) => String.fromCharCode(c.charCodeAt(0) - 0xfee0));
+}
+
+/**
+ * ※印の直前にある強調表示を取得
+ * 直前の文末・改行・※印から※印までのテキストを強調表示とする
+ */
+function findAnchor(text: string, markerStart: number): string | undefined {
+  let i = markerStart - 1;
+  while (i >= 0 && !ANCHOR_BOUNDARY.test(text[i])) {
+    i--;
+  }
+  // 「効果抜群！※1」のように※印が文末記号の直後にある場合は、その文を強調表示とする
+  if (i === markerStart - 1 && i >= 0 && text[i] !== "\n" && text[i] !== "※") {
+    let j = i - 1;
+    while (j >= 0 && !ANCHOR_BOUNDARY.test(text[j])) {
+      j--;
+    }
+    const sentence = text.slice(j + 1, i + 1).trim();
+    return sentence.length > 0 ? sentence : undefined;
+  }
+  const anchor = text.slice(i + 1, markerStart).trim();
+  return anchor.length > 0 ? anchor : undefined;
+}
+
+/**
+ * 広告文から打消し表示を抽出し、参照元の強調表示と対応付ける
+ *
+ * - 「効果抜群※1」と「※1 個人の感想です」のような番号付きの注記は番号で対応付ける
+ *   （同じ番号を複数の表示が参照する場合は1件にまとめ、対応候補を「／」で区切って並べる）
+ * - 「効果抜群※個人の感想です」のような同じ行の注記は直前の表示と対応付ける
+ * - 参照元の※印がない独立した注記（末尾の「※効果には個人差があります」等）はanchorなしとする
+ *
+ * @example
+ * ```typescript
+ * extractDisclaimers("シミが消える※1\n※1 メイクアップ効果による");
+ * // => [{ marker: "※1", text: "メイクアップ効果による", anchor: "シミが消える", ... }]
+ * ```
+ */
+export function extractDisclaimers(text: string): Disclaimer[] {
+  const matches = [...text.matchAll(MARKER_PATTERN)].map((m) => {
+    const start = m.index ?? 0;
+    const markerEnd = start + m[0].length;
+    // 本文は次の※印または行末まで
+    const nextMarker = text.indexOf("※", markerEnd);
+    const lineEnd = text.indexOf("\n", markerEnd);
+    const candidates = [nextMarker, lineEnd].filter((p) => p !== -1);
+    const end = candidates.length > 0 ? Math.min(...candidates) : text.length;
+    const lineStart = text.lastIndexOf("\n", start - 1) + 1;
+    return {
+      number: normalizeNumber(m[1]),
+      start,
+      end,
+      body: text.slice(markerEnd, end).trim(),
+      atLineStart: text.slice(lineStart, start).trim().length === 0,
+    };
+  });
+
+  // 番号付きの注記本文（行頭にあるもの）
+  const numberedNotes = new Map<string, (typeof matches)[number]>();
+  for (const m of matches) {
+    if (m.number && m.atLineStart && m.body.length > 0 && !numberedNotes.has(m.number)) {
+      numberedNotes.set(m.number, m);
+    }
+  }
+
+  const disclaimers: Disclaimer[] = [];
+  let unnumbered = 0;
+
+  for (const m of matches) {
+    // 番号付きの参照（「効果抜群※1」）は対応する注記本文と組にする
+    if (m.number && !m.atLineStart) {
+      const note = numberedNotes.get(m.number);
+      const existing = disclaimers.find((d) => d.marker === `※${m.number}`);
+      if (note && existing) {
+        const anchor = findAnchor(text, m.start);
+        if (anchor && anchor !== existing.anchor) {
+          existing.anchor = existing.anchor ? `${existing.anchor}／${anchor}` : anchor;
+        }
+        continue;
+      }
+      if (note) {
+        disclaimers.push({
+          marker: `※${m.number}`,
+          text: note.body,
+          anchor: findAnchor(text, m.start),
+          start: note.start,
+          end: note.end,
+          inline: false,
+        });
+        continue;
+      }
+    }
+
+    if (m.body.length === 0) {
+      continue;
+    }
+
+    // 参照済みの注記本文は参照側で出力済み（同じ番号の注記は1件にまとめる）
+    if (m.number && disclaimers.some((d) => d.marker === `※${m.number}`)) {
+      continue;
+    }
+
+    unnumbered += m.number ? 0 : 1;
+    disclaimers.push({
+      marker: m.number ? `※${m.number}` : `※(${unnumbered})`,
+      text: m.body,
+      anchor: m.atLineStart ? undefined : findAnchor(text, m.start),
+      start: m.start,
+      end: m.end,
+      inline: !m.atLineStart,
+    });
+  }
+
+  return disclaimers;
+}
@@ -0,0 +1,232 @@
+/**
+ * ステルスマーケティング（広告であることの表示）の検証
+ * SNS投稿から広告主の関与をうかがわせる表現と広告である旨の表示を検出し、表示の有無・位置・明瞭さを判定する
+ */
+
+/** 広告主の関与をうかがわせる表現の種類 */
+export type InvolvementSignalType = "gift" | "paid" | "affiliate" | "promo_code" | "ambassador";
+
+/** 広告主の関与をうかがわせる表現 */
+export interface InvolvementSignal {
+  /** 種類 */
+  type: InvolvementSignalType;
+  /** 検出した表現 */
+  text: string;
+  /** テキスト上の開始位置 */
+  start: number;
+  /** テキスト上の終了位置（排他的） */
+  end: number;
+}
+
+/**
+ * 広告である旨の表示の位置
+ * - beginning: 投稿の冒頭
+ * - body: 本文中
+ * - buried: 多数のハッシュタグの中に埋もれている
+ */
+export type DisclosurePosition = "beginning" | "body" | "buried";
+
+/** 広告である旨の表示 */
+export interface DisclosureMarker {
+  /** 検出した表示 */
+  text: string;
+  /** clear: 明瞭な表示（#PR、広告等） / ambiguous: 広告であることが分かりにくい表示（#提供、#ad等） */
+  kind: "clear" | "ambiguous";
+  /** 表示の位置 */
+  position: DisclosurePosition;
+  /** テキスト上の開始位置 */
+  start: number;
+  /** テキスト上の終了位置（排他的） */
+  end: number;
+}
+
+/** 広告である旨の表示の検証結果 */
+export interface DisclosureCheck {
+  /**
+   * 判定
+   * - adequate: 明瞭な表示が埋もれずにある
+   * - inadequate: 表示が分かりにくい、または埋もれている
+   * - missing: 広告主の関与がうかがわれるのに表示がない
+   * - not_applicable: 広告主の関与も表示も見つからない
+   */
+  status: "adequate" | "inadequate" | "missing" | "not_applicable";
+  /** 広告主の関与をうかがわせる表現 */
+  signals: InvolvementSignal[];
+  /** 広告である旨の表示 */
+  markers: DisclosureMarker[];
+  /** 判定の根拠となる説明 */
+  notes: string[];
+}
+
+/** 冒頭とみなす範囲（文字数） */
+const BEGINNING_CHARS = 30;
+
+/** 埋もれているとみなすハッシュタグの連続数 */
+const BURIED_HASHTAG_COUNT = 3;
+
+/** 広告主の関与をうかがわせる表現のパターン */
+const INVOLVEMENT_PATTERNS: { type: InvolvementSignalType; pattern: RegExp }[] = [
+  {
+    type: "gift",
+    pattern: /(?:ご)?提供(?:いただ|頂|して(?:いただ|頂|もら)|を受け)|ギフティング|いただきもの/g,
+  },
+  { type: "paid", pattern: /案件|タイアップ|依頼(?:を受け|いただ|頂)|スポンサー/g },
+  {
+    type: "affiliate",
+    pattern: /アフィリエイト|(?:プロフィール|プロフ)の?リンク|リンクから(?:購入|買え)/g,
+  },
+  { type: "promo_code", pattern: /(?:クーポン|割引|プロモ|紹介)コード/g },
+  { type: "ambassador", pattern: /アンバサダー|公式モニター/g },
+];
+
+/** 明瞭な表示のパターン（「広告」「宣伝」「プロモーション」「PR」） */
+const CLEAR_DISCLOSURE_PATTERN =
+  /[#＃](?:PR|ＰＲ|広告|宣伝|プロモーション)(?![\p{L}\p{N}_])|[【[(（](?:PR|ＰＲ|広告|プロモーション)[】\])）]|(?:広告|プロモーション)を含みます/giu;
+
+/** 広告であることが分かりにくい表示のパターン */
+const AMBIGUOUS_DISCLOSURE_PATTERN =
+  /[#＃](?:ad|ads|sponsored|sp|supported|提供|タイアップ|コラボ|案件|gifted|ギフティング|プレゼント|アンバサダー)(?![\p{L}\p{N}_])/giu;
+
+/** ハッシュタグのパターン */
+const HASHTAG_PATTERN = /[#＃][\p{L}\p{N}_]+/gu;
+
+/**
+ * パターンに一致する箇所をすべて取得
+ */
+function matchAll(text: string, pattern: RegExp): { text: string; start: number; end: number }[] {
+  return [...text.matchAll(pattern)].map((m) => ({
+    text: m[0],
+    start: m.index ?? 0,
+    end: (m.index ?? 0) + m[0].length,
+  }));
+}
+
+/**
+ * 連続するハッシュタグのまとまりを取得（空白のみで区切られたハッシュタグを1つのまとまりとする）
+ */
+function findHashtagClusters(text: string): { start: number; end: number; count: number }[] {
+  const clusters: { start: number; end: number; count: number }[] = [];
+
+  for (const tag of matchAll(text, HASHTAG_PATTERN)) {
+    const last = clusters[clusters.length - 1];
+    if (last && /^\s*$/.test(text.slice(last.end, tag.start))) {
+      last.end = tag.end;
+      last.count++;
+    } else {
+      clusters.push({ start: tag.start, end: tag.end, count: 1 });
+    }
+  }
+
+  return clusters;
+}
+
+/**
+ * 表示の位置を判定
+ * 短い投稿では冒頭の範囲にハッシュタグが並ぶこともあるため、埋もれているかを先に判定する
+ */
+function classifyPosition(
+  start: number,
+  clusters: { start: number; end: number; count: number }[],
+): DisclosurePosition {
+  const cluster = clusters.find((c) => c.start <= start && start < c.end);
+  if (cluster && cluster.count >= BURIED_HASHTAG_COUNT) {
+    return "buried";
+  }
+  if (start < BEGINNING_CHARS) {
+    return "beginning";
+  }
+  return "body";
+}
+
+/**
+ * 広告主の関与をうかがわせる表現を検出
+ */
+export function findInvolvementSignals(text: string): InvolvementSignal[] {
+  return INVOLVEMENT_PATTERNS.flatMap(({ type, pattern }) =>
+    matchAll(text, pattern).map((m) => ({ type, ...m })),
+  ).sort((a, b) => a.start - b.start);
+}
+
+/**
+ * 広告である旨の表示を検出
+ */
+export function findDisclosureMarkers(text: string): DisclosureMarker[] {
+  const clusters = findHashtagClusters(text);
+
+  const toMarkers = (pattern: RegExp, kind: DisclosureMarker["kind"]): DisclosureMarker[] =>
+    matchAll(text, pattern).map((m) => ({
+      ...m,
+      kind,
+      position: classifyPosition(m.start, clusters),
+    }));
+
+  return [
+    ...toMarkers(CLEAR_DISCLOSURE_PATTERN, "clear"),
+    ...toMarkers(AMBIGUOUS_DISCLOSURE_PATTERN, "ambiguous"),
+  ].sort((a, b) => a.start - b.start);
+}
+
+/**
+ * SNS投稿の広告である旨の表示を検証
+ *
+ * @example
+ * ```typescript
+ * checkDisclosure("#PR ○○社さんからご提供いただきました！");
+ * // => { status: "adequate", ... }
+ * checkDisclosure("最高の美容液！ #美容 #スキンケア #コスメ #PR");
+ * // => { status: "inadequate", ... }（「#PR」がハッシュタグに埋もれている: position "buried"）
+ * checkDisclosure("○○社さんからご提供いただきました！ #提供");
+ * // => { status: "inadequate", ... }（「#提供」は広告であることが分かりにくい）
+ * ```
+ */
+export function checkDisclosure(text: string): DisclosureCheck {
+  const signals = findInvolvementSignals(text);
+  const markers = findDisclosureMarkers(text);
+  const notes: string[] = [];
+
+  const clear = markers.filter((m) => m.kind === "clear");
+  const prominent = clear.filter((m) => m.position !== "buried");
+  const ambiguous = markers.filter((m) => m.kind === "ambiguous");
+
+  if (signals.length > 0) {
+    notes.push(
+      `広告主の関与をうかがわせる表現があります（${signals.map((s) => `「${s.text}」`).join("")}）。`,
+    );
+  }
+
+  if (prominent.length > 0) {
+    notes.push(
+      `広告である旨の表示（${prominent.map((m) => `「${m.text}」`).join("")}）が${
+        prominent.some((m) => m.position === "beginning") ? "冒頭に" : "本文中に"
+      }あります。`,
+    );
+    if (!prominent.some((m) => m.position === "beginning")) {
+      notes.push("一般消費者が認識しやすいよう、投稿の冒頭に表示することが望まれます。");
+    }
+    return { status: "adequate", signals, markers, notes };
+  }
+
+  if (clear.length > 0 || ambiguous.length > 0) {
+    if (clear.length > 0) {
+      notes.push(
+        `広告である旨の表示（${clear.map((m) => `「${m.text}」`).join("")}）が多数のハッシュタグの中に埋もれており、一般消費者が認識しにくい表示です。`,
+      );
+    }
+    if (ambiguous.length > 0) {
+      notes.push(
+        `${ambiguous.map((m) => `「${m.text}」`).join("")}は広告であることが明瞭でない表示です。「広告」「PR」「プロモーション」等の表示を用いてください。`,
+      );
+    }
+    return { status: "inadequate", signals, markers, notes };
+  }
+
+  if (signals.length > 0) {
+    notes.push("広告主の関与がうかがわれるにもかかわらず、広告である旨の表示がありません。");
+    return { status: "missing", signals, markers, notes };
+  }
+
+  notes.push(
+    "広告主の関与をうかがわせる表現・広告である旨の表示は見つかりませんでした。事業者の依頼や商品提供を受けた投稿の場合は、広告である旨の表示が必要です。",
+  );
+  return { status: "not_applicable", signals, markers, notes };
+}
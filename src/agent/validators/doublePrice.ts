@@ -0,0 +1,426 @@
+/**
+ * 二重価格表示の検証
+ * 比較対照価格・販売価格・割引率の整合性と、比較対照価格の妥当性を判定する
+ *
+ * 「不当な価格表示についての景品表示法上の考え方」（価格表示ガイドライン）に基づき、
+ * 過去の販売価格を比較対照価格とする場合は「最近相当期間にわたって販売されていた価格」である必要がある:
+ * - 最近相当期間: セール開始時点からさかのぼる8週間（販売期間が8週間未満の場合はその期間）
+ * - その期間の過半において当該価格で販売されていたこと
+ * - 当該価格で販売されていた期間が通算2週間以上であること
+ * - 当該価格で販売された最後の日から2週間以上経過していないこと
+ */
+
+/** 比較対照価格の種別 */
+export type ReferencePriceKind =
+  /** 自社の過去の販売価格（通常価格等） */
+  | "own_past"
+  /** メーカー希望小売価格 */
+  | "manufacturer"
+  /** 内容が曖昧な比較対照価格（定価・参考価格・市価等） */
+  | "ambiguous"
+  /** 比較対照価格の記載がない割引表示（「半額」のみ等） */
+  | "implicit";
+
+/** 価格履歴の1件（dateから次のエントリまでpriceで販売されていたことを表す） */
+export interface PriceHistoryEntry {
+  /** 販売開始日（YYYY-MM-DD） */
+  date: string;
+  /** 販売価格（円） */
+  price: number;
+}
+
+/** 価格履歴の入力（analyzeAdのオプションで指定） */
+export interface PriceHistoryInput {
+  /** 価格履歴（価格改定の記録） */
+  entries: PriceHistoryEntry[];
+  /** セール開始日（YYYY-MM-DD、省略時は当日） */
+  saleStartDate?: string;
+}
+
+/** 価格履歴に基づく最近相当期間の判定結果 */
+export interface RecentPeriodEvaluation {
+  /** 最近相当期間の開始日 */
+  periodStart: string;
+  /** 最近相当期間の終了日（セール開始日の前日） */
+  periodEnd: string;
+  /** 最近相当期間の日数 */
+  periodDays: number;
+  /** 比較対照価格で販売されていた日数 */
+  daysAtReferencePrice: number;
+  /** 比較対照価格で販売された最後の日 */
+  lastDateAtReferencePrice?: string;
+  /** 最近相当期間にわたって販売されていた価格といえるか */
+  valid: boolean;
+}
+
+/** 二重価格表示の検証結果 */
+export interface DoublePriceCheck {
+  /** 検証対象の表現 */
+  expression: string;
+  /** 比較対照価格の表記（例: "通常価格"） */
+  referenceLabel?: string;
+  /** 比較対照価格の種別 */
+  referenceKind: ReferencePriceKind;
+  /** 比較対照価格（円） */
+  referencePrice?: number;
+  /** 販売価格（円） */
+  salePrice?: number;
+  /** 表示された割引率（%） */
+  discountRate?: number;
+  /** 比較対照価格と販売価格から計算した割引率（%） */
+  impliedDiscountRate?: number;
+  /** 価格と割引率が整合しているか（判定できない場合はundefined） */
+  consistent?: boolean;
+  /** 最近相当期間の販売実績の根拠が必要か */
+  requiresRecentPeriodEvidence: boolean;
+  /** 価格履歴に基づく判定結果 */
+  history?: RecentPeriodEvaluation;
+  /** 判定結果 */
+  status: "valid" | "invalid" | "needs_evidence";
+  /** 判定の詳細 */
+  notes: string[];
+}
+
+/** 最近相当期間の判定基準 */
+const RECENT_PERIOD = {
+  /** 最近相当期間の最大日数（8週間） */
+  maxDays: 56,
+  /** 当該価格での最低販売日数（2週間） */
+  minDaysAtPrice: 14,
+  /** 当該価格で販売された最後の日からの経過日数の上限（2週間。この日数未満であること） */
+  maxDaysSinceLastSale: 14,
+};
+
+/** 割引率の許容誤差（%ポイント） */
+const DISCOUNT_TOLERANCE = 1;
+
+/** 比較対照価格の表記と種別 */
+const REFERENCE_LABELS: { pattern: RegExp; kind: ReferencePriceKind }[] = [
+  { pattern: /メーカー希望小売価格|希望小売価格/, kind: "manufacturer" },
+  {
+    pattern: /当店通常価格|通常販売価格|通常価格|平常価格|従来価格|旧価格|元値/,
+    kind: "own_past",
+  },
+  { pattern: /定価|参考価格|市価|他社価格|市場価格/, kind: "ambiguous" },
+];
+
+/** 比較対照価格（表記 + 金額） */
+const REFERENCE_PRICE_PATTERN =
+  /(メーカー希望小売価格|希望小売価格|当店通常価格|通常販売価格|通常価格|平常価格|従来価格|旧価格|元値|定価|参考価格|市価|他社価格|市場価格)\s*[:：]?\s*(?:\(税込\)\s*)?(\d[\d,]*)\s*円/g;
+
+/** 金額 */
+const PRICE_PATTERN = /(\d[\d,]*)\s*円/g;
+
+/** 割引率（半額 / N%OFF / N割引） */
+const DISCOUNT_PATTERN =
+  /半額|(\d+(?:\.\d+)?)\s*%\s*(?:OFF|off|オフ|引き|引|割引)|(\d+)\s*割\s*(?:引き|引|オフ|OFF|off)/;
+
+/**
+ * 文単位に分割
+ */
+function splitSentences(text: string): string[] {
+  return text
+    .split(/(?<=[!?。！？\n])/)
+    .map((s) => s.trim())
+    .filter((s) => s.length > 0);
+}
+
+/**
+ * 割引率を抽出
+ */
+function parseDiscount(text: string): { rate: number; index: number; length: number } | undefined {
+  const match = text.match(DISCOUNT_PATTERN);
+  if (!match || match.index === undefined) return undefined;
+  const rate =
+    match[0] === "半額" ? 50 : match[1] ? parseFloat(match[1]) : parseInt(match[2], 10) * 10;
+  return { rate, index: match.index, length: match[0].length };
+}
+
+/**
+ * 比較対照価格の種別を判定
+ */
+function classifyReference(label: string): ReferencePriceKind {
+  return REFERENCE_LABELS.find((l) => l.pattern.test(label))?.kind ?? "ambiguous";
+}
+
+/**
+ * 広告文から二重価格表示を抽出
+ */
+export function extractDoublePrices(text: string): Omit<DoublePriceCheck, "status" | "notes">[] {
+  const results: Omit<DoublePriceCheck, "status" | "notes">[] = [];
+
+  for (const sentence of splitSentences(text)) {
+    const referenceMatches = [...sentence.matchAll(REFERENCE_PRICE_PATTERN)];
+
+    for (const ref of referenceMatches) {
+      const refIndex = ref.index ?? 0;
+      const rest = sentence.substring(refIndex + ref[0].length);
+      const saleMatch = [...rest.matchAll(PRICE_PATTERN)][0];
+      const discount = parseDiscount(rest);
+
+      // 表現の終端は販売価格または割引率のうち後ろにある方
+      const ends = [
+        saleMatch ? (saleMatch.index ?? 0) + saleMatch[0].length : 0,
+        discount ? discount.index + discount.length : 0,
+      ];
+      const end = refIndex + ref[0].length + Math.max(...ends);
+
+      const referenceKind = classifyReference(ref[1]);
+      results.push({
+        expression: sentence.substring(refIndex, end).trim(),
+        referenceLabel: ref[1],
+        referenceKind,
+        referencePrice: parseInt(ref[2].replace(/,/g, ""), 10),
+        salePrice: saleMatch ? parseInt(saleMatch[1].replace(/,/g, ""), 10) : undefined,
+        discountRate: discount?.rate,
+        requiresRecentPeriodEvidence: referenceKind === "own_past",
+      });
+    }
+
+    // 比較対照価格のない割引表示（「今なら半額」等）
+    if (referenceMatches.length === 0) {
+      const discount = parseDiscount(sentence);
+      if (discount) {
+        results.push({
+          expression: sentence,
+          referenceKind: "implicit",
+          discountRate: discount.rate,
+          requiresRecentPeriodEvidence: true,
+        });
+      }
+    }
+  }
+
+  return results;
+}
+
+/**
+ * 価格履歴CSVをパース
+ * 形式: date,price（1行目がヘッダーの場合は読み飛ばす。金額の「円」「,」は除去）
+ *
+ * @example
+ * ```
+ * date,price
+ * 2024-01-01,10000
+ * 2024-03-01,5000
+ * ```
+ */
+export function parsePriceHistoryCsv(csv: string): PriceHistoryEntry[] {
+  const entries: PriceHistoryEntry[] = [];
+
+  for (const line of csv.split(/\r?\n/)) {
+    const trimmed = line.trim();
+    if (!trimmed) continue;
+
+    const [date, ...priceParts] = trimmed.split(",");
+    const price = parseInt(priceParts.join("").replace(/[円"\s]/g, ""), 10);
+    const normalizedDate = date.trim().replace(/\//g, "-");
+
+    // ヘッダー行や不正な行は読み飛ばす
+    if (!/^\d{4}-\d{1,2}-\d{1,2}$/.test(normalizedDate) || Number.isNaN(price)) continue;
+
+    entries.push({ date: toIsoDate(parseDate(normalizedDate)), price });
+  }
+
+  return entries.sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/** 1日のミリ秒 */
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * YYYY-MM-DDをUTCの日付に変換
+ */
+function parseDate(value: string): Date {
+  const [y, m, d] = value.split("-").map((v) => parseInt(v, 10));
+  return new Date(Date.UTC(y, m - 1, d));
+}
+
+/**
+ * 日付をYYYY-MM-DDに変換
+ */
+function toIsoDate(date: Date): string {
+  return date.toISOString().substring(0, 10);
+}
+
+/**
+ * 価格履歴から最近相当期間の販売実績を判定
+ */
+export function evaluateRecentPeriod(
+  referencePrice: number,
+  input: PriceHistoryInput,
+): RecentPeriodEvaluation | undefined {
+  const entries = [...input.entries].sort((a, b) => a.date.localeCompare(b.date));
+  if (entries.length === 0) return undefined;
+
+  const saleStart = input.saleStartDate
+    ? parseDate(input.saleStartDate)
+    : parseDate(toIsoDate(new Date()));
+  const firstSale = parseDate(entries[0].date);
+
+  // 最近相当期間: セール開始前の8週間（販売期間が8週間未満の場合はその期間）
+  const periodStartMs = Math.max(
+    saleStart.getTime() - RECENT_PERIOD.maxDays * DAY_MS,
+    firstSale.getTime(),
+  );
+  const periodEndMs = saleStart.getTime() - DAY_MS;
+  const periodDays = Math.floor((periodEndMs - periodStartMs) / DAY_MS) + 1;
+
+  if (periodDays <= 0) {
+    return {
+      periodStart: toIsoDate(new Date(periodStartMs)),
+      periodEnd: toIsoDate(new Date(periodEndMs)),
+      periodDays: 0,
+      daysAtReferencePrice: 0,
+      valid: false,
+    };
+  }
+
+  // 各日の販売価格を求めて比較対照価格での販売日数を数える
+  let daysAtReferencePrice = 0;
+  let lastDateMs: number | undefined;
+  for (let day = periodStartMs; day <= periodEndMs; day += DAY_MS) {
+    const current = entries.filter((e) => parseDate(e.date).getTime() <= day).pop();
+    if (current?.price === referencePrice) {
+      daysAtReferencePrice++;
+      lastDateMs = day;
+    }
+  }
+
+  const daysSinceLastSale =
+    lastDateMs === undefined ? Infinity : Math.floor((saleStart.getTime() - lastDateMs) / DAY_MS);
+
+  const valid =
+    daysAtReferencePrice * 2 > periodDays &&
+    daysAtReferencePrice >= RECENT_PERIOD.minDaysAtPrice &&
+    daysSinceLastSale < RECENT_PERIOD.maxDaysSinceLastSale;
+
+  return {
+    periodStart: toIsoDate(new Date(periodStartMs)),
+    periodEnd: toIsoDate(new Date(periodEndMs)),
+    periodDays,
+    daysAtReferencePrice,
+    lastDateAtReferencePrice:
+      lastDateMs === undefined ? undefined : toIsoDate(new Date(lastDateMs)),
+    valid,
+  };
+}
+
+/**
+ * 二重価格表示を検証
+ */
+export function validateDoublePrices(
+  text: string,
+  priceHistory?: PriceHistoryInput,
+): DoublePriceCheck[] {
+  return extractDoublePrices(text).map((extracted) => {
+    const notes: string[] = [];
+    let invalid = false;
+    let needsEvidence = false;
+
+    const { referencePrice, salePrice, discountRate } = extracted;
+
+    // 価格と割引率の整合性
+    let impliedDiscountRate: number | undefined;
+    let consistent: boolean | undefined;
+    if (referencePrice !== undefined && salePrice !== undefined) {
+      if (salePrice >= referencePrice) {
+        invalid = true;
+        consistent = false;
+        notes.push(
+          `販売価格${salePrice.toLocaleString()}円が比較対照価格${referencePrice.toLocaleString()}円以上です。`,
+        );
+      } else {
+        impliedDiscountRate =
+          Math.round(((referencePrice - salePrice) / referencePrice) * 1000) / 10;
+        if (discountRate !== undefined) {
+          consistent = Math.abs(impliedDiscountRate - discountRate) <= DISCOUNT_TOLERANCE;
+          if (!consistent) {
+            invalid = true;
+            notes.push(
+              `表示された割引率${discountRate}%と、価格から計算した割引率${impliedDiscountRate}%が一致しません。`,
+            );
+          }
+        } else {
+          consistent = true;
+        }
+      }
+    }
+
+    // 比較対照価格の種別ごとの判定
+    switch (extracted.referenceKind) {
+      case "own_past":
+      case "implicit": {
+        const label = extracted.referenceLabel ?? "割引前の価格";
+        const history =
+          priceHistory && referencePrice !== undefined
+            ? evaluateRecentPeriod(referencePrice, priceHistory)
+            : undefined;
+        if (history) {
+          if (history.valid) {
+            notes.push(
+              `${label}は最近相当期間（${history.periodStart}〜${history.periodEnd}）の過半（${history.daysAtReferencePrice}/${history.periodDays}日）にわたって販売されていた価格です。`,
+            );
+          } else {
+            invalid = true;
+            notes.push(
+              `${label}は最近相当期間（${history.periodStart}〜${history.periodEnd}）にわたって販売されていた価格とはいえません（販売日数${history.daysAtReferencePrice}/${history.periodDays}日）。`,
+            );
+          }
+          return buildCheck(
+            extracted,
+            { impliedDiscountRate, consistent, history },
+            invalid,
+            false,
+            notes,
+          );
+        }
+        needsEvidence = true;
+        notes.push(
+          `${label}を比較対照価格とする場合、最近相当期間にわたって販売されていた実績（セール前8週間の過半・通算2週間以上）の根拠が必要です。`,
+        );
+        if (extracted.referenceKind === "implicit") {
+          notes.push("比較対照価格が明示されていません。何と比較した割引かを明示してください。");
+        }
+        break;
+      }
+      case "manufacturer":
+        notes.push(
+          "希望小売価格は、製造業者等により事前に公表されている価格である必要があります。",
+        );
+        break;
+      case "ambiguous":
+        needsEvidence = true;
+        notes.push(
+          `「${extracted.referenceLabel}」は比較対照価格の内容が曖昧です。どのような価格かを明示し、その根拠を確認してください。`,
+        );
+        break;
+    }
+
+    return buildCheck(
+      extracted,
+      { impliedDiscountRate, consistent },
+      invalid,
+      needsEvidence,
+      notes,
+    );
+  });
+}
+
+/**
+ * 検証結果を組み立て
+ */
+function buildCheck(
+  extracted: Omit<DoublePriceCheck, "status" | "notes">,
+  computed: Pick<DoublePriceCheck, "impliedDiscountRate" | "consistent" | "history">,
+  invalid: boolean,
+  needsEvidence: boolean,
+  notes: string[],
+): DoublePriceCheck {
+  return {
+    ...extracted,
+    ...computed,
+    status: invalid ? "invalid" : needsEvidence ? "needs_evidence" : "valid",
+    notes,
+  };
+}
@@ -0,0 +1,42 @@
+export {
+  parsePremiumInputs,
+  calculateMaxPrizeValue,
+  calculateTotalPrizeCap,
+  checkPremiumLimit,
+  evaluatePremiums,
+  PREMIUM_CAMPAIGN_LABELS,
+  PremiumInputError,
+  type PremiumCampaignType,
+  type PremiumInput,
+  type PremiumLimitCheck,
+} from "./premium.js";
+
+export {
+  extractDoublePrices,
+  validateDoublePrices,
+  evaluateRecentPeriod,
+  parsePriceHistoryCsv,
+  type ReferencePriceKind,
+  type PriceHistoryEntry,
+  type PriceHistoryInput,
+  type RecentPeriodEvaluation,
+  type DoublePriceCheck,
+} from "./doublePrice.js";
+
+export {
+  checkDisclosure,
+  findInvolvementSignals,
+  findDisclosureMarkers,
+  type InvolvementSignalType,
+  type InvolvementSignal,
+  type DisclosurePosition,
+  type DisclosureMarker,
+  type DisclosureCheck,
+} from "./disclosure.js";
+
+export {
+  extractDisclaimers,
+  type Disclaimer,
+  type DisclaimerJudgement,
+  type DisclaimerCheck,
+} from "./disclaimer.js";
@@ -0,0 +1,352 @@
+/**
+ * 景品類の上限額計算
+ * 懸賞・総付景品の上限額を広告文または明示的な入力から判定する
+ *
+ * 上限額（景品類の価額の最高額・総額）:
+ * - 一般懸賞: 取引価額5,000円未満は取引価額の20倍、5,000円以上は10万円 / 総額は売上予定総額の2%
+ * - 共同懸賞: 取引価額にかかわらず30万円 / 総額は売上予定総額の3%
+ * - 総付景品: 取引価額1,000円未満は200円、1,000円以上は取引価額の20%
+ */
+
+/** 景品類の上限額計算の入力エラー */
+export class PremiumInputError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PremiumInputError";
+  }
+}
+
+/** 景品提供の類型 */
+export type PremiumCampaignType = "general_lottery" | "joint_lottery" | "total_premium";
+
+/** 景品類の上限額計算の入力（analyzeAdのオプションで明示指定可能） */
+export interface PremiumInput {
+  /** 提供方法（省略時は広告文から判定。判定できない場合はPremiumInputError） */
+  campaignType?: PremiumCampaignType;
+  /** 取引価額（円） */
+  transactionPrice?: number;
+  /** 景品類の価額（円、1個あたり） */
+  prizeValues?: number[];
+  /** 景品類の総額（円） */
+  totalPrizeValue?: number;
+  /** 懸賞に係る取引の売上予定総額（円） */
+  plannedSales?: number;
+}
+
+/** 景品類の上限額の判定結果 */
+export interface PremiumLimitCheck {
+  /** 提供方法 */
+  campaignType: PremiumCampaignType;
+  /** 提供方法の表示名 */
+  campaignTypeLabel: string;
+  /** 判定の根拠となった広告文の箇所（広告文から判定した場合） */
+  sourceText?: string;
+  /** 取引価額（円） */
+  transactionPrice?: number;
+  /** 景品類の価額の最高額（円） */
+  prizeValue?: number;
+  /** 景品類の価額の上限額（円） */
+  maxPrizeValue?: number;
+  /** 景品類の総額（円） */
+  totalPrizeValue?: number;
+  /** 景品類の総額の上限額（円） */
+  totalPrizeCap?: number;
+  /** 売上予定総額（円） */
+  plannedSales?: number;
+  /** 判定結果 */
+  status: "pass" | "fail" | "insufficient_data";
+  /** 判定の詳細 */
+  notes: string[];
+  /** 入力の出所 */
+  inputSource: "options" | "parsed";
+}
+
+/** 提供方法の表示名 */
+export const PREMIUM_CAMPAIGN_LABELS: Record<PremiumCampaignType, string> = {
+  general_lottery: "一般懸賞",
+  joint_lottery: "共同懸賞",
+  total_premium: "総付景品",
+};
+
+/** 提供方法を判定するキーワード */
+const CAMPAIGN_PATTERNS: Record<PremiumCampaignType, RegExp> = {
+  joint_lottery: /共同懸賞|商店街|合同(?:キャンペーン|企画)/,
+  general_lottery: /抽選|当選|当たる|懸賞|くじ/,
+  total_premium: /全員|もれなく|漏れなく|先着|(?:購入|来店|申込)特典/,
+};
+
+/** 金額表現（例: "5,000円", "100万円"） */
+const AMOUNT_PATTERN = /(\d[\d,]*(?:\.\d+)?)\s*(万|千)?円/g;
+
+/** 金額の直後にあれば景品類の価額とみなす表現 */
+const PRIZE_SUFFIX_PATTERN =
+  /^\s*(?:相当|分|の(?:ギフト|商品券|賞金|旅行)|が当たる|をプレゼント|プレゼント)/;
+
+/** 金額の直前にあれば景品類の価額とみなす表現 */
+const PRIZE_PREFIX_PATTERN = /(?:抽選で|賞金|景品|プレゼント|特典)\S{0,4}$/;
+
+/**
+ * 金額表現を数値に変換
+ */
+function parseAmount(value: string, unit?: string): number {
+  const base = parseFloat(value.replace(/,/g, ""));
+  if (unit === "万") return Math.round(base * 10000);
+  if (unit === "千") return Math.round(base * 1000);
+  return Math.round(base);
+}
+
+/**
+ * 文単位に分割
+ */
+function splitSentences(text: string): string[] {
+  return text
+    .split(/(?<=[!?。！？\n])/)
+    .map((s) => s.trim())
+    .filter((s) => s.length > 0);
+}
+
+/**
+ * 文中の金額を取引価額と景品類の価額に分類
+ */
+function extractAmounts(sentence: string): { prices: number[]; prizes: number[] } {
+  const prices: number[] = [];
+  const prizes: number[] = [];
+
+  for (const match of sentence.matchAll(AMOUNT_PATTERN)) {
+    const amount = parseAmount(match[1], match[2]);
+    const index = match.index ?? 0;
+    const before = sentence.substring(0, index);
+    const after = sentence.substring(index + match[0].length);
+
+    if (PRIZE_SUFFIX_PATTERN.test(after) || PRIZE_PREFIX_PATTERN.test(before)) {
+      prizes.push(amount);
+    } else {
+      prices.push(amount);
+    }
+  }
+
+  return { prices, prizes };
+}
+
+/**
+ * 文の提供方法を判定
+ * 共同懸賞は一般懸賞のキーワードも含むため先に判定する
+ */
+function detectCampaignType(sentence: string): PremiumCampaignType | undefined {
+  if (CAMPAIGN_PATTERNS.joint_lottery.test(sentence)) return "joint_lottery";
+  if (CAMPAIGN_PATTERNS.general_lottery.test(sentence)) return "general_lottery";
+  if (CAMPAIGN_PATTERNS.total_premium.test(sentence)) return "total_premium";
+  return undefined;
+}
+
+/**
+ * 広告文から景品類の上限額計算の入力を抽出
+ * 取引価額は景品に関係しない金額のうち最も低いもの（割引後の実売価格）とみなす
+ */
+export function parsePremiumInputs(
+  text: string,
+): (PremiumInput & { campaignType: PremiumCampaignType; sourceText: string })[] {
+  const sentences = splitSentences(text);
+  const allPrices = sentences.flatMap((s) => extractAmounts(s).prices);
+  const transactionPrice = allPrices.length > 0 ? Math.min(...allPrices) : undefined;
+
+  const byType = new Map<
+    PremiumCampaignType,
+    PremiumInput & { campaignType: PremiumCampaignType; sourceText: string }
+  >();
+
+  for (const sentence of sentences) {
+    const campaignType = detectCampaignType(sentence);
+    if (!campaignType) continue;
+
+    const { prizes } = extractAmounts(sentence);
+    const existing = byType.get(campaignType);
+    if (existing) {
+      existing.prizeValues = [...(existing.prizeValues ?? []), ...prizes];
+      existing.sourceText = `${existing.sourceText} ${sentence}`;
+    } else {
+      byType.set(campaignType, {
+        campaignType,
+        transactionPrice,
+        prizeValues: prizes,
+        sourceText: sentence,
+      });
+    }
+  }
+
+  return [...byType.values()];
+}
+
+/**
+ * 景品類の価額の上限額を計算
+ * 取引価額が不明な場合、上限額が取引価額に依存しない範囲で判明する値を返す
+ */
+export function calculateMaxPrizeValue(
+  campaignType: PremiumCampaignType,
+  transactionPrice?: number,
+): number | undefined {
+  switch (campaignType) {
+    case "general_lottery":
+      if (transactionPrice === undefined) return undefined;
+      return transactionPrice < 5000 ? transactionPrice * 20 : 100000;
+    case "joint_lottery":
+      return 300000;
+    case "total_premium":
+      if (transactionPrice === undefined) return undefined;
+      return transactionPrice < 1000 ? 200 : Math.floor(transactionPrice * 0.2);
+  }
+}
+
+/**
+ * 景品類の総額の上限額を計算（総付景品には総額制限なし）
+ */
+export function calculateTotalPrizeCap(
+  campaignType: PremiumCampaignType,
+  plannedSales?: number,
+): number | undefined {
+  if (plannedSales === undefined) return undefined;
+  switch (campaignType) {
+    case "general_lottery":
+      return Math.floor(plannedSales * 0.02);
+    case "joint_lottery":
+      return Math.floor(plannedSales * 0.03);
+    case "total_premium":
+      return undefined;
+  }
+}
+
+/**
+ * 景品類の上限額を判定
+ */
+export function checkPremiumLimit(
+  input: PremiumInput & { campaignType: PremiumCampaignType },
+  inputSource: PremiumLimitCheck["inputSource"] = "options",
+  sourceText?: string,
+): PremiumLimitCheck {
+  const { campaignType, transactionPrice, plannedSales } = input;
+  const prizeValues = input.prizeValues ?? [];
+  const prizeValue = prizeValues.length > 0 ? Math.max(...prizeValues) : undefined;
+  const totalPrizeValue = input.totalPrizeValue;
+  const maxPrizeValue = calculateMaxPrizeValue(campaignType, transactionPrice);
+  const totalPrizeCap = calculateTotalPrizeCap(campaignType, plannedSales);
+  const label = PREMIUM_CAMPAIGN_LABELS[campaignType];
+
+  const notes: string[] = [];
+  let failed = false;
+  let insufficient = false;
+
+  // 最高額の判定
+  if (prizeValue === undefined) {
+    notes.push("景品類の価額が不明です。");
+    insufficient = true;
+  } else if (maxPrizeValue !== undefined) {
+    if (prizeValue > maxPrizeValue) {
+      failed = true;
+      notes.push(
+        `${label}の最高額の上限${maxPrizeValue.toLocaleString()}円を超えています（景品類の価額: ${prizeValue.toLocaleString()}円）。`,
+      );
+    } else {
+      notes.push(
+        `${label}の最高額の上限${maxPrizeValue.toLocaleString()}円以内です（景品類の価額: ${prizeValue.toLocaleString()}円）。`,
+      );
+    }
+  } else if (campaignType === "general_lottery" && prizeValue > 100000) {
+    // 一般懸賞の最高額は取引価額にかかわらず10万円を超えない
+    failed = true;
+    notes.push(
+      `一般懸賞の最高額は取引価額にかかわらず10万円が上限です（景品類の価額: ${prizeValue.toLocaleString()}円）。`,
+    );
+  } else if (campaignType === "total_premium" && prizeValue <= 200) {
+    // 総付景品の上限は取引価額にかかわらず200円以上
+    notes.push(
+      `総付景品の上限（最低200円）以内です（景品類の価額: ${prizeValue.toLocaleString()}円）。`,
+    );
+  } else {
+    notes.push("取引価額が不明なため、最高額の上限を判定できません。");
+    insufficient = true;
+  }
+
+  // 総額の判定（懸賞のみ）
+  if (campaignType !== "total_premium") {
+    if (totalPrizeValue !== undefined && totalPrizeCap !== undefined) {
+      if (totalPrizeValue > totalPrizeCap) {
+        failed = true;
+        notes.push(
+          `${label}の総額の上限${totalPrizeCap.toLocaleString()}円を超えています（景品類の総額: ${totalPrizeValue.toLocaleString()}円）。`,
+        );
+      } else {
+        notes.push(
+          `${label}の総額の上限${totalPrizeCap.toLocaleString()}円以内です（景品類の総額: ${totalPrizeValue.toLocaleString()}円）。`,
+        );
+      }
+    } else {
+      notes.push("景品類の総額または売上予定総額が不明なため、総額の上限は判定していません。");
+    }
+  }
+
+  return {
+    campaignType,
+    campaignTypeLabel: label,
+    sourceText,
+    transactionPrice,
+    prizeValue,
+    maxPrizeValue,
+    totalPrizeValue,
+    totalPrizeCap,
+    plannedSales,
+    status: failed ? "fail" : insufficient ? "insufficient_data" : "pass",
+    notes,
+    inputSource,
+  };
+}
+
+/**
+ * 広告文と明示的な入力から景品類の上限額を判定
+ * 明示的な入力がある場合は、広告文から抽出した値より優先する
+ *
+ * @throws PremiumInputError 明示的な入力があるのに提供方法が指定されておらず、広告文からも判定できない場合
+ */
+export function evaluatePremiums(text: string, input?: PremiumInput): PremiumLimitCheck[] {
+  const parsed = parsePremiumInputs(text);
+
+  // 提供方法が明示されている場合はその類型のみ判定
+  if (input?.campaignType) {
+    const fromText = parsed.find((p) => p.campaignType === input.campaignType);
+    return [
+      checkPremiumLimit(
+        {
+          ...fromText,
+          ...definedOnly(input),
+          campaignType: input.campaignType,
+        },
+        "options",
+        fromText?.sourceText,
+      ),
+    ];
+  }
+
+  const hasOverrides = input !== undefined && Object.keys(definedOnly(input)).length > 0;
+  // 入力を黙って無視しないよう、適用先の類型が決まらない場合はエラーにする
+  if (hasOverrides && parsed.length === 0) {
+    throw new PremiumInputError(
+      "広告文から景品提供の方法を判定できませんでした。campaignType を指定してください",
+    );
+  }
+
+  return parsed.map((p) =>
+    checkPremiumLimit(
+      { ...p, ...(input ? definedOnly(input) : {}) },
+      hasOverrides ? "options" : "parsed",
+      p.sourceText,
+    ),
+  );
+}
+
+/**
+ * undefinedのプロパティを除外（スプレッドで抽出値を上書きしないため）
+ */
+function definedOnly(input: PremiumInput): PremiumInput {
+  return Object.fromEntries(
+    Object.entries(input).filter(([, value]) => value !== undefined),
+  ) as PremiumInput;
+}
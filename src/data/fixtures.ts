@@ -0,0 +1,159 @@
+/**
+ * オフライン用の最小コーパス
+ * e-Gov API・消費者庁サイト・Embedding APIに接続できない環境（CI・ローカルの動作確認）で
+ * グラフ全体を動かすための法令・ガイドライン・Q&Aのチャンク
+ *
+ * 使い方:
+ *   EMBEDDING_PROVIDER=fake npm run ingest:fixtures
+ *   （分析時も同じEMBEDDING_PROVIDERを指定すること。ベクトルの次元・値が一致しないと検索できない）
+ *
+ * Note: 条文は抜粋、ガイドライン・Q&Aは要旨のみ。実際の審査には npm run ingest で構築したコーパスを使うこと
+ */
+
+import type { GuidelineChunk } from "./chunkers/guideline.js";
+import type { LawChunk } from "./chunkers/law.js";
+import type { QaChunk } from "./chunkers/qa.js";
+
+/** 景品表示法の法令ID（e-Gov） */
+const LAW_ID = "337AC0000000134";
+
+/** 景品表示法の法令名 */
+const LAW_TITLE = "不当景品類及び不当表示防止法";
+
+/** 消費者庁Q&AのURL */
+const QA_BASE_URL = "https://www.caa.go.jp/policies/policy/representation/fair_labeling/faq";
+
+/** 法令のチャンク（第4条・第5条・第7条） */
+const LAW_CHUNKS: LawChunk[] = [
+  {
+    id: `${LAW_ID}-art4`,
+    content: [
+      "第4条（景品類の制限及び禁止）",
+      "内閣総理大臣は、不当な顧客の誘引を防止し、一般消費者による自主的かつ合理的な選択を確保するため必要があると認めるときは、景品類の価額の最高額若しくは総額、種類若しくは提供の方法その他景品類の提供に関する事項を制限し、又は景品類の提供を禁止することができる。",
+    ].join("\n"),
+    metadata: {
+      source: "law",
+      lawId: LAW_ID,
+      lawTitle: LAW_TITLE,
+      articleNumber: "4",
+      articleTitle: "景品類の制限及び禁止",
+      chunkType: "article",
+    },
+  },
+  {
+    id: `${LAW_ID}-art5`,
+    content: [
+      "第5条（不当な表示の禁止）",
+      "事業者は、自己の供給する商品又は役務の取引について、次の各号のいずれかに該当する表示をしてはならない。",
+      "　一　商品又は役務の品質、規格その他の内容について、一般消費者に対し、実際のものよりも著しく優良であると示し、又は事実に相違して当該事業者と同種若しくは類似の商品若しくは役務を供給している他の事業者に係るものよりも著しく優良であると示す表示であつて、不当に顧客を誘引し、一般消費者による自主的かつ合理的な選択を阻害するおそれがあると認められるもの",
+      "　二　商品又は役務の価格その他の取引条件について、実際のもの又は当該事業者と同種若しくは類似の商品若しくは役務を供給している他の事業者に係るものよりも取引の相手方に著しく有利であると一般消費者に誤認される表示であつて、不当に顧客を誘引し、一般消費者による自主的かつ合理的な選択を阻害するおそれがあると認められるもの",
+      "　三　前二号に掲げるもののほか、商品又は役務の取引に関する事項について一般消費者に誤認されるおそれがある表示であつて、不当に顧客を誘引し、一般消費者による自主的かつ合理的な選択を阻害するおそれがあると認めて内閣総理大臣が指定するもの",
+    ].join("\n"),
+    metadata: {
+      source: "law",
+      lawId: LAW_ID,
+      lawTitle: LAW_TITLE,
+      articleNumber: "5",
+      articleTitle: "不当な表示の禁止",
+      chunkType: "article",
+    },
+  },
+  {
+    id: `${LAW_ID}-art7`,
+    content: [
+      "第7条（措置命令）",
+      "2　内閣総理大臣は、前項の規定による命令に関し、事業者がした表示が第五条第一号に該当するか否かを判断するため必要があると認めるときは、当該表示をした事業者に対し、期間を定めて、当該表示の裏付けとなる合理的な根拠を示す資料の提出を求めることができる。この場合において、当該事業者が当該資料を提出しないときは、同項の規定の適用については、当該表示は同号に該当する表示とみなす。",
+    ].join("\n"),
+    metadata: {
+      source: "law",
+      lawId: LAW_ID,
+      lawTitle: LAW_TITLE,
+      articleNumber: "7",
+      articleTitle: "措置命令",
+      chunkType: "article",
+    },
+  },
+];
+
+/** ガイドラインのチャンク（ファイル名はGUIDELINE_PDFSと対応） */
+const GUIDELINE_CHUNKS: GuidelineChunk[] = [
+  {
+    id: "03-general-premium-restriction.pdf-chunk0",
+    content:
+      "総付景品の限度額: 取引価額が1,000円未満の場合は200円、1,000円以上の場合は取引価額の10分の2。懸賞によらず、商品の購入者や来店者にもれなく提供する景品類が対象となる。",
+    metadata: {
+      source: "guideline",
+      filename: "03-general-premium-restriction.pdf",
+      title: "「一般消費者に対する景品類の提供に関する事項の制限」の運用基準について",
+      chunkIndex: 0,
+    },
+  },
+  {
+    id: "04-lottery-premium-restriction.pdf-chunk0",
+    content:
+      "一般懸賞の限度額: 景品類の最高額は、取引価額が5,000円未満の場合は取引価額の20倍、5,000円以上の場合は10万円。景品類の総額は懸賞に係る売上予定総額の2%。",
+    metadata: {
+      source: "guideline",
+      filename: "04-lottery-premium-restriction.pdf",
+      title: "「懸賞による景品類の提供に関する事項の制限」の運用基準",
+      chunkIndex: 0,
+    },
+  },
+  {
+    id: "16-unsubstantiated-claims.pdf-chunk0",
+    content:
+      "合理的な根拠の判断基準: 提出資料が客観的に実証された内容のものであること、及び表示された効果、性能と提出資料によって実証された内容が適切に対応していること。消費者の体験談やモニターの意見は、無作為抽出された相当数のサンプルを選定する等、統計的に客観性が確保されている必要がある。",
+    metadata: {
+      source: "guideline",
+      filename: "16-unsubstantiated-claims.pdf",
+      title: "不当景品類及び不当表示防止法第7条第2項の運用指針-不実証広告規制に関する指針-",
+      chunkIndex: 0,
+    },
+  },
+  {
+    id: "22-internet-advertising.pdf-chunk0",
+    content:
+      "インターネット上の広告では、効果、性能を強調する表示や「今だけ」「期間限定」等の表示について、実際と異なる場合は不当表示となるおそれがある。打消し表示は強調表示に近接した箇所に、一般消費者が認識できる大きさで表示する必要がある。",
+    metadata: {
+      source: "guideline",
+      filename: "22-internet-advertising.pdf",
+      title: "インターネット消費者取引に係る広告表示に関する景品表示法上の問題点及び留意事項",
+      chunkIndex: 0,
+    },
+  },
+];
+
+/** Q&Aのチャンク */
+const QA_CHUNKS: QaChunk[] = [
+  {
+    id: "fixture-qa-representation-1",
+    content:
+      "【表示】\n\nQ: 「No.1」「第1位」と表示する際の注意点は何ですか。\n\nA: 客観的な調査に基づく根拠が必要であり、比較対象の範囲・調査期間・調査機関等を明瞭に表示する必要があります。根拠のないNo.1表示は優良誤認表示又は有利誤認表示となるおそれがあります。",
+    metadata: {
+      source: "qa",
+      qaSource: "representation",
+      category: "表示",
+      originalId: "fixture-qa-representation-1",
+      url: `${QA_BASE_URL}/representation/`,
+    },
+  },
+  {
+    id: "fixture-qa-stealth-marketing-1",
+    content:
+      "【ステルスマーケティング】\n\nQ: インフルエンサーに商品を提供して投稿してもらう場合、どのような表示が必要ですか。\n\nA: 事業者の表示であることが一般消費者に明瞭となるよう、「広告」「宣伝」「プロモーション」「PR」等の文言を投稿の冒頭等の分かりやすい位置に表示する必要があります。多数のハッシュタグに紛れた表示は明瞭とはいえません。",
+    metadata: {
+      source: "qa",
+      qaSource: "stealth_marketing",
+      category: "ステルスマーケティング",
+      originalId: "fixture-qa-stealth-marketing-1",
+      url: `${QA_BASE_URL}/stealth_marketing/`,
+    },
+  },
+];
+
+/** オフライン用の最小コーパスの全チャンク */
+export const FIXTURE_CHUNKS: (LawChunk | GuidelineChunk | QaChunk)[] = [
+  ...LAW_CHUNKS,
+  ...GUIDELINE_CHUNKS,
+  ...QA_CHUNKS,
+];
@@ -1,21 +1,111 @@
 /**
  * Embedding生成
  * OpenAI text-embedding-3-large を使用
+ * 環境変数EMBEDDING_PROVIDER=fakeの場合は、テスト用にテキストから決定的に求めたベクトルを使用（APIを呼ばない）
  */
 
+import { AsyncLocalStorage } from "async_hooks";
+import { createHash } from "crypto";
 import { OpenAIEmbeddings } from "@langchain/openai";
+import { Embeddings } from "@langchain/core/embeddings";
 
-let embeddingsInstance: OpenAIEmbeddings | null = null;
+/** Embeddingモデル名 */
+export const EMBEDDING_MODEL = "text-embedding-3-large";
+
+/** Embeddingの次元数 */
+const EMBEDDING_DIMENSIONS = 3072; // フルサイズ
+
+/** Embeddingのプロバイダー（fake: テスト用の決定的なベクトル） */
+export type EmbeddingProvider = "openai" | "fake";
+
+/** Embedding API呼び出しの内容（使用量の集計用） */
+export interface EmbeddingRequest {
+  /** モデル名 */
+  model: string;
+  /** Embeddingを生成するテキスト */
+  texts: string[];
+}
+
+/** Embedding API呼び出しの通知先（呼び出し元の非同期コンテキストごとに保持） */
+const embeddingListeners = new AsyncLocalStorage<(request: EmbeddingRequest) => void>();
+
+let embeddingsInstance: Embeddings | null = null;
+
+/**
+ * Embedding API呼び出しを通知しながら処理を実行
+ * fn内（から呼ばれた非同期処理を含む）でEmbeddingを生成するたびに、API呼び出しの前にlistenerを呼ぶ
+ * listenerが例外を投げた場合はEmbeddingを生成せずにその例外を投げる（予算超過時の中断等）
+ */
+export function withEmbeddingListener<T>(
+  listener: (request: EmbeddingRequest) => void,
+  fn: () => T,
+): T {
+  return embeddingListeners.run(listener, fn);
+}
+
+/**
+ * テスト用の決定的なEmbedding
+ * 文字bigramをハッシュで次元に割り当てて数え、L2正規化する（日本語の文字もそのまま扱う）
+ * 共通する文字列が多いテキストほどベクトルが近くなるため、検索の順位もある程度意味を持つ
+ */
+class HashedNgramEmbeddings extends Embeddings {
+  constructor(private readonly dimensions: number) {
+    super({});
+  }
+
+  async embedDocuments(texts: string[]): Promise<number[][]> {
+    return texts.map((text) => this.embed(text));
+  }
+
+  async embedQuery(text: string): Promise<number[]> {
+    return this.embed(text);
+  }
+
+  private embed(text: string): number[] {
+    const vector: number[] = Array.from({ length: this.dimensions }, () => 0);
+    const chars = [...text.replace(/\s+/g, " ").trim()];
+    const grams = chars.length < 2 ? chars : chars.slice(1).map((c, i) => chars[i] + c);
+    for (const gram of grams) {
+      const index = createHash("md5").update(gram).digest().readUInt32LE(0) % this.dimensions;
+      vector[index] += 1;
+    }
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0)) || 1;
+    return vector.map((v) => v / norm);
+  }
+}
+
+/**
+ * フェイクのEmbeddingを使うか
+ */
+function useFakeEmbeddings(): boolean {
+  return process.env.EMBEDDING_PROVIDER === "fake";
+}
+
+/**
+ * 使用するEmbeddingのプロバイダーを取得
+ */
+export function getEmbeddingProvider(): EmbeddingProvider {
+  return useFakeEmbeddings() ? "fake" : "openai";
+}
+
+/**
+ * 使用するEmbeddingモデル名を取得（フェイクの場合は "hashed-ngram"）
+ */
+export function getEmbeddingModel(): string {
+  return useFakeEmbeddings() ? "hashed-ngram" : EMBEDDING_MODEL;
+}
 
 /**
  * Embeddingインスタンスを取得（シングルトン）
  */
-export function getEmbeddings(): OpenAIEmbeddings {
+export function getEmbeddings(): Embeddings {
   if (!embeddingsInstance) {
-    embeddingsInstance = new OpenAIEmbeddings({
-      model: "text-embedding-3-large",
-      dimensions: 3072, // フルサイズ
-    });
+    embeddingsInstance = useFakeEmbeddings()
+      ? new HashedNgramEmbeddings(EMBEDDING_DIMENSIONS)
+      : new OpenAIEmbeddings({
+          model: EMBEDDING_MODEL,
+          dimensions: EMBEDDING_DIMENSIONS,
+        });
   }
   return embeddingsInstance;
 }
@@ -24,6 +114,7 @@ export function getEmbeddings(): OpenAIEmbeddings {
  * テキストのEmbeddingを生成
  */
 export async function embedText(text: string): Promise<number[]> {
+  embeddingListeners.getStore()?.({ model: getEmbeddingModel(), texts: [text] });
   const embeddings = getEmbeddings();
   return embeddings.embedQuery(text);
 }
@@ -32,6 +123,7 @@ export async function embedText(text: string): Promise<number[]> {
  * 複数テキストのEmbeddingを生成
  */
 export async function embedTexts(texts: string[]): Promise<number[][]> {
+  embeddingListeners.getStore()?.({ model: getEmbeddingModel(), texts });
   const embeddings = getEmbeddings();
   return embeddings.embedDocuments(texts);
 }
@@ -1,4 +1,14 @@
-export { getEmbeddings, embedText, embedTexts } from "./embeddings.js";
+export {
+  getEmbeddings,
+  embedText,
+  embedTexts,
+  withEmbeddingListener,
+  EMBEDDING_MODEL,
+  getEmbeddingModel,
+  getEmbeddingProvider,
+  type EmbeddingProvider,
+  type EmbeddingRequest,
+} from "./embeddings.js";
 
 export {
   addDocuments,
@@ -6,9 +16,13 @@ export {
   multiSearch,
   clearTable,
   countDocuments,
+  writeCorpusVersion,
+  getCorpusVersion,
   VectorStoreError,
   type SourceType,
   type DocumentChunk,
   type StoredDocument,
   type SearchResult,
+  type SearchFilter,
+  type CorpusVersion,
 } from "./vectorStore.js";
@@ -3,6 +3,10 @@
  * RAG検索の中核
  */
 
+import { createHash } from "crypto";
+import { existsSync } from "fs";
+import { readFile, writeFile } from "fs/promises";
+import { join } from "path";
 import * as lancedb from "@lancedb/lancedb";
 import { embedText, embedTexts } from "./embeddings.js";
 import type { LawChunk } from "../data/chunkers/law.js";
@@ -12,6 +16,12 @@ import type { QaChunk } from "../data/chunkers/qa.js";
 const DB_PATH = "./data/vectordb";
 const TABLE_NAME = "documents";
 
+/** コーパスのバージョン情報のファイル（ingestで再構築するたびに更新） */
+const CORPUS_VERSION_FILE = join(DB_PATH, "corpus-version.json");
+
+/** バージョン情報がない（ingestでバージョンを記録する前に構築された）コーパスのバージョン */
+const UNVERSIONED = "unversioned";
+
 /** ベクトルストア関連のエラー */
 export class VectorStoreError extends Error {
   constructor(
@@ -41,6 +51,23 @@ function validateSource(source: string): SourceType {
 
 export type DocumentChunk = LawChunk | GuidelineChunk | QaChunk;
 
+/**
+ * 検索フィルター
+ * 指定した値のいずれかに一致する文書のみを検索する（空配列・未指定はフィルターなし）
+ */
+export interface SearchFilter {
+  /** ファイル名（ガイドライン） */
+  filenames?: string[];
+}
+
+/**
+ * フィルター値をSQL文字列リテラルに変換
+ */
+function toSqlString(value: string): string {
+  // シングルクォートをエスケープ（SQL Injection対策）
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
 export interface StoredDocument {
   id: string;
   content: string;
@@ -237,9 +264,9 @@ export async function search(
   options: {
     limit?: number;
     source?: SourceType;
-  } = {},
+  } & SearchFilter = {},
 ): Promise<SearchResult[]> {
-  const { limit = 5, source } = options;
+  const { limit = 5, source, filenames } = options;
 
   // クエリの検証
   if (!query || query.trim().length === 0) {
@@ -261,10 +288,17 @@ export async function search(
 
   let searchQuery = table.vectorSearch(queryVector).limit(limit);
 
-  // ソースでフィルタリング（バリデーション済みの値のみ使用）
+  // ソース・ファイル名でフィルタリング（バリデーション済みの値のみ使用）
+  const conditions: string[] = [];
   if (source) {
     const validatedSource = validateSource(source);
-    searchQuery = searchQuery.where(`source = '${validatedSource}'`);
+    conditions.push(`source = '${validatedSource}'`);
+  }
+  if (filenames && filenames.length > 0) {
+    conditions.push(`filename IN (${filenames.map(toSqlString).join(", ")})`);
+  }
+  if (conditions.length > 0) {
+    searchQuery = searchQuery.where(conditions.join(" AND "));
   }
 
   let results: Record<string, unknown>[];
@@ -291,12 +325,14 @@ export async function multiSearch(
   options: {
     limitPerSource?: number;
     sources?: SourceType[];
-  } = {},
+  } & SearchFilter = {},
 ): Promise<SearchResult[]> {
   // デフォルトで全ソースを検索（Q&Aも含む）
-  const { limitPerSource = 3, sources = ["law", "guideline", "qa"] } = options;
+  const { limitPerSource = 3, sources = ["law", "guideline", "qa"], ...filter } = options;
 
-  const searches = sources.map((source) => search(query, { limit: limitPerSource, source }));
+  const searches = sources.map((source) =>
+    search(query, { limit: limitPerSource, source, ...filter }),
+  );
 
   const results = await Promise.all(searches);
   // 全結果を距離順（昇順）でソート
@@ -326,3 +362,44 @@ export async function countDocuments(): Promise<number> {
     return 0;
   }
 }
+
+/** コーパスのバージョン情報 */
+export interface CorpusVersion {
+  /** バージョン（構築日時とドキュメント数から求めたハッシュ） */
+  version: string;
+  /** 構築日時 */
+  builtAt: string;
+  /** 格納ドキュメント数 */
+  documentCount: number;
+}
+
+/**
+ * コーパスのバージョン情報を記録（ingestでベクトルストアを再構築した後に呼ぶ）
+ */
+export async function writeCorpusVersion(): Promise<CorpusVersion> {
+  const builtAt = new Date().toISOString();
+  const documentCount = await countDocuments();
+  const version = createHash("sha256")
+    .update(`${builtAt}\n${documentCount}`)
+    .digest("hex")
+    .substring(0, 16);
+
+  const corpusVersion: CorpusVersion = { version, builtAt, documentCount };
+  await writeFile(CORPUS_VERSION_FILE, JSON.stringify(corpusVersion, null, 2), "utf-8");
+  return corpusVersion;
+}
+
+/**
+ * コーパスのバージョンを取得（記録がない場合は"unversioned"）
+ */
+export async function getCorpusVersion(): Promise<string> {
+  if (!existsSync(CORPUS_VERSION_FILE)) {
+    return UNVERSIONED;
+  }
+  try {
+    const data = JSON.parse(await readFile(CORPUS_VERSION_FILE, "utf-8")) as CorpusVersion;
+    return data.version ?? UNVERSIONED;
+  } catch {
+    return UNVERSIONED;
+  }
+}